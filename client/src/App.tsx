@@ -6,8 +6,16 @@ import { AuthProvider } from "@/hooks/use-auth";
 import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
+import SharedCartPage from "@/pages/shared-cart-page";
+import ChangePasswordPage from "@/pages/change-password-page";
+import SecurityPage from "@/pages/security-page";
 import AdminDashboard from "@/pages/admin/dashboard";
 import AdminCarts from "@/pages/admin/carts";
+import AdminOrders from "@/pages/admin/orders";
+import AdminUsers from "@/pages/admin/users";
+import AdminAudit from "@/pages/admin/audit";
+import AdminTrash from "@/pages/admin/trash";
+import AdminPromotions from "@/pages/admin/promotions";
 import { ProtectedRoute } from "./lib/protected-route";
 
 function Router() {
@@ -15,8 +23,16 @@ function Router() {
     <Switch>
       <Route path="/" component={HomePage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/cart/:token" component={SharedCartPage} />
+      <ProtectedRoute path="/account/password" component={ChangePasswordPage} />
+      <ProtectedRoute path="/account/security" component={SecurityPage} />
       <ProtectedRoute path="/admin" component={AdminDashboard} />
       <ProtectedRoute path="/admin/carts" component={AdminCarts} />
+      <ProtectedRoute path="/admin/orders" component={AdminOrders} />
+      <ProtectedRoute path="/admin/users" component={AdminUsers} role="owner" />
+      <ProtectedRoute path="/admin/audit" component={AdminAudit} role="owner" />
+      <ProtectedRoute path="/admin/trash" component={AdminTrash} role="staff" />
+      <ProtectedRoute path="/admin/promotions" component={AdminPromotions} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -7,58 +7,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-
-// Helper function for image compression remains unchanged
-async function compressImage(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.src = URL.createObjectURL(file);
-
-    img.onload = () => {
-      URL.revokeObjectURL(img.src);
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-
-      // Calculate dimensions while maintaining aspect ratio
-      let { width, height } = img;
-      const maxDimension = 1200;
-
-      if (width > height) {
-        if (width > maxDimension) {
-          height = Math.round((height * maxDimension) / width);
-          width = maxDimension;
-        }
-      } else {
-        if (height > maxDimension) {
-          width = Math.round((width * maxDimension) / height);
-          height = maxDimension;
-        }
-      }
-
-      canvas.width = width;
-      canvas.height = height;
-
-      // Apply smooth scaling
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-
-      // Draw with white background
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, width, height);
-      ctx.drawImage(img, 0, 0, width, height);
-
-      // Convert to JPEG with 50% quality
-      resolve(canvas.toDataURL('image/jpeg', 0.5));
-    };
-
-    img.onerror = () => reject(new Error('Failed to load image'));
-  });
-}
+import { compressImage, uploadImage } from "@/lib/images";
 
 export function BulkUpload() {
   const { toast } = useToast();
@@ -81,11 +30,12 @@ export function BulkUpload() {
         files.map(async (file) => {
           return new Promise(async (resolve) => {
             try {
-              const imageData = await compressImage(file);
+              const compressed = await compressImage(file, { maxDimension: 2400, quality: 0.85 });
+              const imageUrl = await uploadImage(compressed);
               const productData = {
                 name: file.name.split('.')[0],
                 description: `Product created from ${file.name}`,
-                images: [imageData],
+                images: [imageUrl],
                 isAvailable: true,
                 categories: selectedCategory ? [parseInt(selectedCategory)] : [],
               };
@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Category, CategoryPricePreview, PriceHistoryEntry } from "@shared/schema";
+import { buildCategoryTree, CategoryNode, descendantIds } from "@shared/categories";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface CategoryEditDialogProps {
+  category: Category | null;
+  // All categories, for choosing a parent
+  categories: Category[];
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatPrice(price: number | null): string {
+  return price === null ? "none" : `$${price}`;
+}
+
+function findNode(nodes: CategoryNode<Category>[], id: number): CategoryNode<Category> | undefined {
+  for (const node of nodes) {
+    const found = node.id === id ? node : findNode(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function CategoryEditDialog({ category, categories, onOpenChange }: CategoryEditDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [price, setPrice] = useState("");
+  const [parentId, setParentId] = useState("none");
+
+  useEffect(() => {
+    setName(category?.name ?? "");
+    setPrice(category ? String(category.defaultPrice) : "");
+    setParentId(category?.parentId != null ? String(category.parentId) : "none");
+  }, [category]);
+
+  // A category cannot move under itself or one of its subcategories
+  const parentOptions = useMemo(() => {
+    if (!category) return [];
+    const node = findNode(buildCategoryTree(categories), category.id);
+    const excluded = new Set(node ? descendantIds(node) : [category.id]);
+    return categories.filter(option => !excluded.has(option.id));
+  }, [category, categories]);
+
+  const newPrice = Number(useDebounce(price));
+  const priceChanged = !!category && price.trim() !== "" && Number.isInteger(newPrice) && newPrice >= 0 &&
+    newPrice !== category.defaultPrice;
+
+  const { data: preview, isFetching: isPreviewLoading } = useQuery<CategoryPricePreview>({
+    queryKey: [`/api/categories/${category?.id}/price-preview?defaultPrice=${newPrice}`],
+    enabled: priceChanged,
+  });
+
+  const { data: history = [] } = useQuery<PriceHistoryEntry[]>({
+    queryKey: [`/api/categories/${category?.id}/price-history`],
+    enabled: !!category,
+  });
+
+  const updateCategoryMutation = useMutation({
+    mutationFn: async () => {
+      if (!category) return;
+      const response = await apiRequest("PATCH", `/api/categories/${category.id}`, {
+        name: name.trim(),
+        defaultPrice: Number(price),
+        parentId: parentId === "none" ? null : Number(parentId),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/categories/${category?.id}/price-history`] });
+      toast({
+        title: "Category updated",
+        description: "The category has been saved.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid = name.trim() !== "" && price.trim() !== "" && Number.isInteger(Number(price)) && Number(price) >= 0;
+
+  return (
+    <Dialog open={!!category} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Category</DialogTitle>
+          <DialogDescription>
+            Products without a custom price sell at the lowest default price of their categories.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="category-edit-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateCategoryMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="editCategoryName">Name</Label>
+            <Input
+              id="editCategoryName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="editCategoryPrice">Default Price ($)</Label>
+            <Input
+              id="editCategoryPrice"
+              type="number"
+              min="0"
+              step="1"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Parent Category</Label>
+            <Select value={parentId} onValueChange={setParentId}>
+              <SelectTrigger>
+                <SelectValue placeholder="None" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (top level)</SelectItem>
+                {parentOptions.map(option => (
+                  <SelectItem key={option.id} value={String(option.id)}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </form>
+
+        {priceChanged && (
+          <div className="rounded-md border p-3 text-sm">
+            {isPreviewLoading || !preview ? (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking affected products...
+              </div>
+            ) : (
+              <ul className="space-y-1">
+                <li>
+                  <span className="font-medium">{preview.affectedProductCount}</span> available products will change
+                  price from {formatPrice(preview.currentPrice)} to {formatPrice(preview.newPrice)}.
+                </li>
+                <li className="text-muted-foreground">
+                  {preview.unaffectedProductCount} keep their price (custom price or a cheaper category).
+                </li>
+                <li className="text-muted-foreground">
+                  {preview.affectedCartCount} open carts hold affected products and will show the new price.
+                </li>
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Price history</h4>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No price changes recorded.</p>
+          ) : (
+            <ul className="max-h-40 overflow-y-auto space-y-1 text-sm">
+              {history.map(entry => (
+                <li key={entry.id} className="flex justify-between gap-4">
+                  <span>{formatPrice(entry.oldPrice)} → {formatPrice(entry.newPrice)}</span>
+                  <span className="text-muted-foreground">
+                    {entry.changedByUsername ?? "unknown"} • {format(new Date(entry.changedAt), "PP")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="submit"
+            form="category-edit-form"
+            disabled={!isValid || updateCategoryMutation.isPending}
+          >
+            {updateCategoryMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Category } from "@shared/schema";
+import { buildCategoryTree, CategoryNode } from "@shared/categories";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Edit, GripVertical } from "lucide-react";
+
+type CategoryWithCount = Category & { productCount: number };
+
+interface CategoryTreeProps {
+  categories: CategoryWithCount[];
+  onEdit: (category: Category) => void;
+  onDelete: (categoryId: number) => void;
+  isDeleting: boolean;
+}
+
+interface DragState {
+  id: number;
+  parentId: number | null;
+}
+
+/**
+ * Categories nested under their parents. Drag a category onto one of its
+ * siblings to move it to that position; use the edit dialog to change parent.
+ */
+export function CategoryTree({ categories, onEdit, onDelete, isDeleting }: CategoryTreeProps) {
+  const { toast } = useToast();
+  const [dragging, setDragging] = useState<DragState | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+
+  const reorderMutation = useMutation({
+    mutationFn: async (categoryIds: number[]) => {
+      await apiRequest("POST", "/api/categories/reorder", { categoryIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDrop = (siblings: CategoryNode<CategoryWithCount>[], target: CategoryNode<CategoryWithCount>) => {
+    if (!dragging || dragging.id === target.id || dragging.parentId !== target.parentId) return;
+
+    const order = siblings.map(sibling => sibling.id).filter(id => id !== dragging.id);
+    order.splice(order.indexOf(target.id), 0, dragging.id);
+    reorderMutation.mutate(order);
+  };
+
+  const renderLevel = (nodes: CategoryNode<CategoryWithCount>[]) => (
+    <div className="space-y-2">
+      {nodes.map((category) => (
+        <div key={category.id}>
+          <div
+            draggable={!reorderMutation.isPending}
+            onDragStart={(e) => {
+              e.stopPropagation();
+              setDragging({ id: category.id, parentId: category.parentId });
+            }}
+            onDragOver={(e) => {
+              if (dragging?.parentId !== category.parentId) return;
+              e.preventDefault();
+              e.stopPropagation();
+              setDropTargetId(category.id);
+            }}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              handleDrop(nodes, category);
+              setDropTargetId(null);
+            }}
+            onDragEnd={() => {
+              setDragging(null);
+              setDropTargetId(null);
+            }}
+            className={`inline-flex items-center gap-1 rounded-md ${dropTargetId === category.id && dragging?.id !== category.id ? "ring-2 ring-primary" : ""}`}
+          >
+            <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" />
+            <Badge variant="secondary" className="text-sm py-1 px-2">
+              {category.name} (${category.defaultPrice}) • {category.productCount}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-4 w-4 p-0 ml-2"
+                onClick={() => onEdit(category)}
+                aria-label={`Edit ${category.name}`}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-4 w-4 p-0 ml-2"
+                onClick={() => onDelete(category.id)}
+                disabled={isDeleting}
+              >
+                ×
+              </Button>
+            </Badge>
+          </div>
+          {category.children.length > 0 && (
+            <div className="ml-6 mt-2 pl-3 border-l">
+              {renderLevel(category.children)}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return renderLevel(buildCategoryTree(categories));
+}
@@ -1,6 +1,7 @@
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertProductSchema } from "@shared/schema";
+import type { PriceTier } from "@shared/pricing";
 import {
   Form,
   FormControl,
@@ -13,10 +14,12 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
-import { ImagePlus, X } from "lucide-react";
+import { ImagePlus, Plus, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { useCallback, useState, useRef, useEffect } from "react";
+import { compressImage, uploadImage } from "@/lib/images";
+import { imageVariantUrl } from "@shared/images";
 
 interface ProductFormProps {
   onSubmit: (data: any) => void;
@@ -28,6 +31,8 @@ interface ProductFormProps {
     isAvailable?: boolean;
     categoryIds?: number[];
     customPrice?: number | null;
+    stockQuantity?: number;
+    priceTiers?: PriceTier[];
   };
 }
 
@@ -55,9 +60,13 @@ export function ProductForm({ onSubmit, isLoading, initialData }: ProductFormPro
       images: initialData?.images || [],
       isAvailable: initialData?.isAvailable ?? true,
       customPrice: initialData?.customPrice ?? null,
+      stockQuantity: initialData?.stockQuantity ?? 1,
+      priceTiers: initialData?.priceTiers ?? [],
     },
   });
 
+  const priceTiers = useFieldArray({ control: form.control, name: "priceTiers" });
+
   // Initialize selectedCategories when initialData changes
   useEffect(() => {
     if (initialData?.categoryIds) {
@@ -95,12 +104,13 @@ export function ProductForm({ onSubmit, isLoading, initialData }: ProductFormPro
       const compressedImages = await Promise.all(
         validFiles.map(async (file) => {
           try {
-            const compressed = await compressImage(file);
+            const compressed = await compressImage(file, { maxDimension: 2400, quality: 0.85 });
+            const imageUrl = await uploadImage(compressed);
             toast({
               title: "Image processed",
-              description: `${file.name} has been compressed and added`,
+              description: `${file.name} has been compressed and uploaded`,
             });
-            return compressed;
+            return imageUrl;
           } catch (error) {
             toast({
               title: "Compression failed",
@@ -213,6 +223,71 @@ export function ProductForm({ onSubmit, isLoading, initialData }: ProductFormPro
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="stockQuantity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Units in Stock</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min="0"
+                  step="1"
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormItem>
+          <div className="flex justify-between items-center">
+            <FormLabel>Lot Pricing (Optional)</FormLabel>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => priceTiers.append({ minQuantity: 10, unitPrice: 0 })}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Lot Price
+            </Button>
+          </div>
+          {priceTiers.fields.map((tier, index) => (
+            <div key={tier.id} className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="2"
+                step="1"
+                aria-label="Minimum units"
+                {...form.register(`priceTiers.${index}.minQuantity`, { valueAsNumber: true })}
+              />
+              <span className="text-sm text-muted-foreground whitespace-nowrap">+ units at $</span>
+              <Input
+                type="number"
+                min="0"
+                step="1"
+                aria-label="Unit price"
+                {...form.register(`priceTiers.${index}.unitPrice`, { valueAsNumber: true })}
+              />
+              <span className="text-sm text-muted-foreground whitespace-nowrap">each</span>
+              <Button type="button" variant="ghost" size="icon" onClick={() => priceTiers.remove(index)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {form.formState.errors.priceTiers && (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.priceTiers.root?.message ?? form.formState.errors.priceTiers.message ?? "Check the lot prices"}
+            </p>
+          )}
+        </FormItem>
+
         <FormField
           control={form.control}
           name="isAvailable"
@@ -258,7 +333,7 @@ export function ProductForm({ onSubmit, isLoading, initialData }: ProductFormPro
             {uploadedImages.map((image, index) => (
               <div key={index} className="relative group">
                 <img
-                  src={image}
+                  src={imageVariantUrl(image, "card")}
                   alt={`Product image ${index + 1}`}
                   className="w-full h-40 object-cover rounded-lg"
                 />
@@ -314,51 +389,3 @@ export function ProductForm({ onSubmit, isLoading, initialData }: ProductFormPro
     </Form>
   );
 }
-
-async function compressImage(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.src = URL.createObjectURL(file);
-
-    img.onload = () => {
-      URL.revokeObjectURL(img.src);
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-
-      let { width, height } = img;
-      const maxDimension = 800;
-
-      if (width > height) {
-        if (width > maxDimension) {
-          height = Math.round((height * maxDimension) / width);
-          width = maxDimension;
-        }
-      } else {
-        if (height > maxDimension) {
-          width = Math.round((width * maxDimension) / height);
-          height = maxDimension;
-        }
-      }
-
-      canvas.width = width;
-      canvas.height = height;
-
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, width, height);
-
-      ctx.drawImage(img, 0, 0, width, height);
-
-      resolve(canvas.toDataURL('image/jpeg', 0.7));
-    };
-
-    img.onerror = () => reject(new Error('Failed to load image'));
-  });
-}
\ No newline at end of file
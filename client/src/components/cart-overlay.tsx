@@ -8,110 +8,118 @@ import {
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { CartItem } from "@shared/schema";
-import { useState } from "react";
+import { CartItem, CartContact, cartContactSchema } from "@shared/schema";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useCart } from "@/hooks/use-cart";
+import { Link2, Minus, Plus } from "lucide-react";
+import { imageVariantUrl } from "@shared/images";
+import { lineTotal } from "@shared/pricing";
 
 interface CartOverlayProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   items: CartItem[];
+  // Cart total as computed by the server, lot pricing included
+  total: number;
   onRemoveItem: (productId: number) => void;
+  onQuantityChange: (productId: number, quantity: number) => void;
   onClearCart: () => void;
+  // Token of the draft cart, used to build a link that opens it on another device
+  shareToken?: string | null;
 }
 
 export function CartOverlay({
   isOpen,
   onOpenChange,
   items,
+  total,
   onRemoveItem,
+  onQuantityChange,
   onClearCart,
+  shareToken,
 }: CartOverlayProps) {
   const { toast } = useToast();
-  const [customerName, setCustomerName] = useState("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { submitCartMutation } = useCart();
+  const isSubmitting = submitCartMutation.isPending;
+  const form = useForm<CartContact>({
+    resolver: zodResolver(cartContactSchema),
+    defaultValues: {
+      customerName: "",
+      customerEmail: "",
+      customerPhone: "",
+      fulfillmentMethod: undefined,
+      notes: "",
+    },
+  });
 
-  // Calculate total price based on item.price
-  const totalPrice = items.reduce((sum, item) => {
-    return sum + Number(item.price || 0);
-  }, 0);
+  const shareUrl = shareToken ? `${window.location.origin}/cart/${shareToken}` : null;
 
-  const handleSubmitCart = async () => {
-    if (!customerName || items.length === 0) {
+  const handleCopyShareLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
       toast({
-        title: "Invalid submission",
-        description: "Please enter your name and add items to cart",
-        variant: "destructive",
+        title: "Link copied",
+        description: "Open it on another device to continue with this cart.",
       });
-      return;
-    }
-
-    try {
-      setIsSubmitting(true);
-
-      // Create cart items with all required fields from the schema
-      const cartItems = items.map(item => ({
-        productId: item.productId,
-        name: item.name,
-        description: item.description,
-        images: item.images,
-        fullImages: item.fullImages || [],
-        price: Number(Number(item.price || 0).toFixed(2)),
-        isAvailable: item.isAvailable,
-        createdAt: new Date().toISOString()
-      }));
-
-      const payload = {
-        customerName: customerName.trim(),
-        items: cartItems
-      };
-
-      console.log('Submitting cart with payload:', payload);
-
-      const response = await apiRequest("POST", "/api/carts", payload);
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to submit cart');
-      }
-
-      // Invalidate carts query to refresh admin dashboard
-      queryClient.invalidateQueries({ queryKey: ["/api/carts"] });
-
+    } catch {
       toast({
-        title: "Cart submitted successfully!",
-        description: "We'll review your cart items and contact you soon.",
+        title: "Could not copy link",
+        description: shareUrl,
+        variant: "destructive",
       });
+    }
+  };
 
-      onClearCart();
-      onOpenChange(false);
-      setCustomerName("");
-
-    } catch (error) {
-      console.error('Cart submission error:', error);
+  const handleSubmitCart = (contact: CartContact) => {
+    if (items.length === 0) {
       toast({
-        title: "Failed to submit cart",
-        description: error instanceof Error ? error.message : "Please try again later.",
+        title: "Invalid submission",
+        description: "Please add items to your cart",
         variant: "destructive",
       });
-    } finally {
-      setIsSubmitting(false);
+      return;
     }
+
+    submitCartMutation.mutate(contact, {
+      onSuccess: () => {
+        onOpenChange(false);
+        form.reset();
+      },
+    });
   };
 
   return (
     <Sheet open={isOpen} onOpenChange={onOpenChange}>
-      <SheetContent className="w-[400px] sm:w-[540px]">
+      <SheetContent className="w-[400px] sm:w-[540px] overflow-y-auto">
         <SheetHeader>
           <SheetTitle>Your Cart</SheetTitle>
           <SheetDescription>
-            Total Price: ${totalPrice.toFixed(2)}
+            Total Price: ${total.toFixed(2)}
+            <span className="block text-xs">Prices, including any sale or bulk discount, are locked in when you submit.</span>
           </SheetDescription>
         </SheetHeader>
 
-        <ScrollArea className="h-[50vh] my-4">
+        <ScrollArea className="h-[30vh] my-4">
           {items.map((item) => {
             const formattedPrice = Number(item.price || 0);
 
@@ -122,11 +130,38 @@ export function CartOverlay({
               >
                 <div className="flex items-center gap-4">
                   <img
-                    src={item.images[0]}
+                    src={imageVariantUrl(item.images[0], "thumb")}
                     alt="Product thumbnail"
                     className="w-16 h-16 object-cover rounded"
                   />
-                  <span className="text-lg font-semibold">${formattedPrice}</span>
+                  <div>
+                    <span className="text-lg font-semibold">${lineTotal(item)}</span>
+                    {item.quantity > 1 && (
+                      <span className="block text-xs text-muted-foreground">${formattedPrice} each</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onQuantityChange(item.productId, item.quantity - 1)}
+                    disabled={item.quantity <= 1}
+                    aria-label={`Fewer of ${item.name}`}
+                  >
+                    <Minus className="h-3 w-3" />
+                  </Button>
+                  <span className="w-8 text-center text-sm">{item.quantity}</span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onQuantityChange(item.productId, item.quantity + 1)}
+                    aria-label={`More of ${item.name}`}
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
                 </div>
                 <Button
                   variant="ghost"
@@ -141,22 +176,113 @@ export function CartOverlay({
         </ScrollArea>
 
         <div className="space-y-4 mt-4">
-          <Input
-            placeholder="Your Name"
-            value={customerName}
-            onChange={(e) => setCustomerName(e.target.value)}
-            required
-          />
+          {shareUrl && items.length > 0 && (
+            <div className="flex gap-2">
+              <Input value={shareUrl} readOnly aria-label="Cart share link" />
+              <Button variant="outline" onClick={handleCopyShareLink} className="flex items-center gap-2">
+                <Link2 className="h-4 w-4" />
+                Copy link
+              </Button>
+            </div>
+          )}
         </div>
 
+        <Form {...form}>
+          <form id="cart-contact-form" onSubmit={form.handleSubmit(handleSubmitCart)} className="space-y-3 mt-4">
+            <FormField
+              control={form.control}
+              name="customerName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Your Name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="customerEmail"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="you@example.com" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="customerPhone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="+1 555 123 4567" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="fulfillmentMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pickup or shipping (optional)</FormLabel>
+                  <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose how you'd like to receive your items" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="pickup">Pickup</SelectItem>
+                      <SelectItem value="shipping">Shipping</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Anything we should know?" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+
         <SheetFooter className="mt-4">
           <div className="flex gap-2 justify-end w-full">
+            <Button
+              variant="ghost"
+              onClick={onClearCart}
+              disabled={items.length === 0 || isSubmitting}
+            >
+              Clear
+            </Button>
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
             <Button
-              onClick={handleSubmitCart}
-              disabled={!customerName || items.length === 0 || isSubmitting}
+              type="submit"
+              form="cart-contact-form"
+              disabled={items.length === 0 || isSubmitting}
             >
               {isSubmitting ? "Submitting..." : "Submit Cart"}
             </Button>
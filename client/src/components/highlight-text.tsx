@@ -0,0 +1,37 @@
+import { Fragment } from "react";
+
+interface HighlightTextProps {
+  text: string;
+  query?: string;
+}
+
+const SEARCH_TERM_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Wraps words starting with any of the search terms in <mark>, mirroring
+// the prefix matching the server uses for full-text search.
+export function HighlightText({ text, query }: HighlightTextProps) {
+  const terms = query?.toLowerCase().match(SEARCH_TERM_PATTERN);
+  if (!terms || terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join("|")})`,
+    "giu"
+  );
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        // split() with a capture group puts the matches at odd indexes
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -8,6 +8,7 @@ import {
 import { ZoomIn, ZoomOut, RotateCw, X, Maximize2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { VisuallyHidden } from "@radix-ui/react-visually-hidden";
+import { ResponsiveImage } from "./responsive-image";
 
 interface ImageViewerProps {
   src: string;
@@ -211,9 +212,11 @@ export function ImageViewer({ src, fullSrc, alt, isOpen, onOpenChange }: ImageVi
               <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
             </div>
           )}
-          <img
+          <ResponsiveImage
             ref={imageRef}
             src={displaySrc}
+            sizes="(min-width: 1024px) 50vw, (min-width: 768px) 70vw, 90vw"
+            variant="full"
             alt={alt}
             className="max-w-[90%] max-h-[calc(90vh-8rem)] object-contain transition-transform duration-200 ease-out select-none"
             style={{
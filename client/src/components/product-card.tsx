@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { ProductCarousel } from "./product-carousel";
 import { ImageViewer } from "./image-viewer";
 import { Badge } from "@/components/ui/badge";
+import { HighlightText } from "./highlight-text";
+import { unitPriceForQuantity } from "@shared/pricing";
 
 interface ProductCardProps {
   product: Product;
@@ -12,6 +14,8 @@ interface ProductCardProps {
   priority?: boolean;
   showDetails?: boolean;
   disableAddToCart?: boolean;
+  // Active search query; matching words in the name and description are highlighted
+  highlight?: string;
 }
 
 export function ProductCard({ 
@@ -19,19 +23,22 @@ export function ProductCard({
   onAddToCart, 
   priority = false, 
   showDetails = false,
-  disableAddToCart = false 
+  disableAddToCart = false,
+  highlight
 }: ProductCardProps) {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [selectedFullImage, setSelectedFullImage] = useState<string | null>(null);
 
-  // Calculate the effective price (custom price or lowest category price)
-  const effectivePrice = product.customPrice ?? 
-    (product.categories?.length 
-      ? Math.min(...product.categories.map(cat => Number(cat.defaultPrice)))
-      : 0);
-
+  // Effective price (custom price or lowest category price, less any running promotion) is computed by the server
   // Format price as whole number
-  const formattedPrice = Math.floor(Number(effectivePrice));
+  const formattedPrice = Math.floor(Number(product.effectivePrice ?? 0));
+  const regularPrice = Math.floor(Number(product.regularPrice ?? formattedPrice));
+  const onSale = (product.discountPercent ?? 0) > 0 && regularPrice > formattedPrice;
+  // Lot prices shown per unit, with any running promotion applied the same way the cart applies it
+  const lotPrices = [...(product.priceTiers ?? [])]
+    .sort((a, b) => a.minQuantity - b.minQuantity)
+    .map(tier => ({ minQuantity: tier.minQuantity, unitPrice: unitPriceForQuantity(product, tier.minQuantity) }))
+    .filter(lot => lot.unitPrice < formattedPrice);
 
   return (
     <Card className="overflow-hidden transition-shadow hover:shadow-lg">
@@ -48,15 +55,36 @@ export function ProductCard({
           />
         </div>
         <div className="p-4">
-          {showDetails && (
+          {/* Always show the text while searching so shoppers can see why a product matched */}
+          {(showDetails || highlight) && (
             <>
-              <h3 className="font-semibold text-lg">{product.name}</h3>
-              <p className="text-muted-foreground text-sm mt-1">{product.description}</p>
+              <h3 className="font-semibold text-lg">
+                <HighlightText text={product.name} query={highlight} />
+              </h3>
+              <p className="text-muted-foreground text-sm mt-1">
+                <HighlightText text={product.description} query={highlight} />
+              </p>
             </>
           )}
-          <div className="mt-2">
+          <div className="mt-2 flex items-center gap-2">
             <span className="text-lg font-bold">${formattedPrice}</span>
+            {onSale && (
+              <>
+                <span className="text-sm text-muted-foreground line-through">${regularPrice}</span>
+                <Badge variant="destructive" className="text-xs">{product.discountPercent}% off</Badge>
+              </>
+            )}
           </div>
+          {lotPrices.length > 0 && (
+            <ul className="mt-1 text-xs text-muted-foreground">
+              {lotPrices.map(lot => (
+                <li key={lot.minQuantity}>{lot.minQuantity}+ units: ${lot.unitPrice} each</li>
+              ))}
+            </ul>
+          )}
+          {product.isAvailable && product.stockQuantity > 1 && product.availableQuantity !== undefined && (
+            <p className="mt-1 text-xs text-muted-foreground">{product.availableQuantity} in stock</p>
+          )}
           {product.categories && product.categories.length > 0 && (
             <div className="mt-2">
               <div className="flex flex-wrap gap-1">
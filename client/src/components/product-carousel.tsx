@@ -8,6 +8,7 @@ import {
 import { AspectRatio } from "@/components/ui/aspect-ratio";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
+import { ResponsiveImage } from "./responsive-image";
 
 interface ProductCarouselProps {
   images: string[];
@@ -15,6 +16,8 @@ interface ProductCarouselProps {
   priority?: boolean;
   loading?: "eager" | "lazy";
   className?: string;
+  // Rendered width of the carousel, used to pick the right image variant
+  sizes?: string;
 }
 
 export function ProductCarousel({ 
@@ -22,7 +25,8 @@ export function ProductCarousel({
   onImageClick, 
   priority = false,
   loading: loadingProp,
-  className 
+  className,
+  sizes = "(min-width: 1024px) 25vw, 50vw"
 }: ProductCarouselProps) {
   const [loadedImages, setLoadedImages] = useState<Set<number>>(new Set());
 
@@ -44,8 +48,9 @@ export function ProductCarousel({
                     loadedImages.has(index) && "hidden"
                   )}
                 />
-                <img 
-                  src={image} 
+                <ResponsiveImage
+                  src={image}
+                  sizes={sizes}
                   alt={`Product view ${index + 1}`}
                   loading={loadingProp || (index === 0 || priority ? "eager" : "lazy")}
                   width={600}
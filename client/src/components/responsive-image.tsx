@@ -0,0 +1,45 @@
+import { forwardRef } from "react";
+import {
+  IMAGE_VARIANTS,
+  ImageVariant,
+  ImageVariantFormat,
+  hasImageVariants,
+  imageVariantUrl,
+} from "@shared/images";
+
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src" | "srcSet"> {
+  src: string;
+  sizes?: string;
+  // Variant used as the fallback src for browsers without srcset support
+  variant?: ImageVariant;
+}
+
+function buildSrcSet(src: string, format: ImageVariantFormat) {
+  return (Object.entries(IMAGE_VARIANTS) as [ImageVariant, number][])
+    .map(([variant, width]) => `${imageVariantUrl(src, variant, format)} ${width}w`)
+    .join(", ");
+}
+
+export const ResponsiveImage = forwardRef<HTMLImageElement, ResponsiveImageProps>(
+  ({ src, sizes = "100vw", variant = "card", ...props }, ref) => {
+    // Legacy data URLs and external images have no server-generated variants
+    if (!hasImageVariants(src)) {
+      return <img ref={ref} src={src} {...props} />;
+    }
+
+    return (
+      <picture className="contents">
+        <source type="image/webp" srcSet={buildSrcSet(src, "webp")} sizes={sizes} />
+        <img
+          ref={ref}
+          src={imageVariantUrl(src, variant)}
+          srcSet={buildSrcSet(src, "jpg")}
+          sizes={sizes}
+          {...props}
+        />
+      </picture>
+    );
+  }
+);
+
+ResponsiveImage.displayName = "ResponsiveImage";
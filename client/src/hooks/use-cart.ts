@@ -0,0 +1,116 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Cart, CartContact } from "@shared/schema";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// The visitor's draft cart, kept on the server and identified by a cookie
+export function useCart() {
+  const { toast } = useToast();
+  const { data: cart = null, isLoading } = useQuery<Cart | null>({
+    queryKey: ["/api/cart"],
+  });
+
+  const setCart = (cart: Cart | null) => queryClient.setQueryData(["/api/cart"], cart);
+
+  const addItemMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      // Adding a product already in the cart buys one more of it
+      const res = await apiRequest("POST", "/api/cart/items", { productId });
+      return await res.json();
+    },
+    onSuccess: (cart: Cart) => {
+      setCart(cart);
+      toast({
+        title: "Added to cart",
+        description: "Item has been added to your cart.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not add item",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateQuantityMutation = useMutation({
+    mutationFn: async ({ productId, quantity }: { productId: number; quantity: number }) => {
+      const res = await apiRequest("PATCH", `/api/cart/items/${productId}`, { quantity });
+      return await res.json();
+    },
+    onSuccess: (cart: Cart) => setCart(cart),
+    onError: (error: Error) => {
+      toast({
+        title: "Could not change quantity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      const res = await apiRequest("DELETE", `/api/cart/items/${productId}`);
+      return await res.json();
+    },
+    onSuccess: (cart: Cart) => setCart(cart),
+    onError: (error: Error) => {
+      toast({
+        title: "Could not remove item",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearCartMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/cart/items");
+      return await res.json();
+    },
+    onSuccess: (cart: Cart) => setCart(cart),
+    onError: (error: Error) => {
+      toast({
+        title: "Could not clear cart",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitCartMutation = useMutation({
+    mutationFn: async (contact: CartContact) => {
+      const res = await apiRequest("POST", "/api/cart/submit", contact);
+      return await res.json();
+    },
+    onSuccess: () => {
+      // The submitted cart now belongs to the admin; the next item starts a new draft
+      setCart(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/carts"] });
+      toast({
+        title: "Cart submitted successfully!",
+        description: "We'll review your cart items and contact you soon.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit cart",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    cart,
+    items: cart?.items ?? [],
+    total: cart?.total ?? 0,
+    isLoading,
+    addItemMutation,
+    updateQuantityMutation,
+    removeItemMutation,
+    clearCartMutation,
+    submitCartMutation,
+  };
+}
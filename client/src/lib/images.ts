@@ -0,0 +1,86 @@
+interface CompressOptions {
+  maxDimension: number;
+  quality: number;
+}
+
+// Resize an image in the browser and re-encode it as JPEG before upload.
+// The server generates the smaller display variants from the uploaded copy.
+export async function compressImage(file: File, { maxDimension, quality }: CompressOptions): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.src = URL.createObjectURL(file);
+
+    img.onload = () => {
+      URL.revokeObjectURL(img.src);
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      // Calculate dimensions while maintaining aspect ratio
+      let { width, height } = img;
+
+      if (width > height) {
+        if (width > maxDimension) {
+          height = Math.round((height * maxDimension) / width);
+          width = maxDimension;
+        }
+      } else {
+        if (height > maxDimension) {
+          width = Math.round((width * maxDimension) / height);
+          height = maxDimension;
+        }
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+
+      // Apply smooth scaling
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+
+      // Draw with white background
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(img, 0, 0, width, height);
+
+      canvas.toBlob(
+        (blob) => blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+        'image/jpeg',
+        quality
+      );
+    };
+
+    img.onerror = () => reject(new Error('Failed to load image'));
+  });
+}
+
+// Upload an image to the server's image store and return its URL
+export async function uploadImage(image: Blob): Promise<string> {
+  const res = await fetch("/api/images", {
+    method: "POST",
+    headers: {
+      "Content-Type": image.type || "image/jpeg",
+      "Accept": "application/json",
+    },
+    body: image,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    let errorMessage = res.statusText;
+    try {
+      const errorData = await res.json();
+      errorMessage = errorData.message || errorMessage;
+    } catch {
+      // If JSON parsing fails, use the status text
+    }
+    throw new Error(`${res.status}: ${errorMessage}`);
+  }
+
+  const data: { url: string } = await res.json();
+  return data.url;
+}
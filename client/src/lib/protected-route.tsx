@@ -1,13 +1,16 @@
 import { useAuth } from "@/hooks/use-auth";
+import { hasRole, type UserRole } from "@shared/schema";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
 
 export function ProtectedRoute({
   path,
   component: Component,
+  role = "viewer",
 }: {
   path: string;
   component: () => React.JSX.Element;
+  role?: UserRole;
 }) {
   const { user, isLoading } = useAuth();
 
@@ -29,5 +32,29 @@ export function ProtectedRoute({
     );
   }
 
+  if (user.mustResetPassword && path !== "/account/password") {
+    return (
+      <Route path={path}>
+        <Redirect to="/account/password" />
+      </Route>
+    );
+  }
+
+  if (user.twoFactorSetupRequired && !path.startsWith("/account/")) {
+    return (
+      <Route path={path}>
+        <Redirect to="/account/security" />
+      </Route>
+    );
+  }
+
+  if (!hasRole(user, role)) {
+    return (
+      <Route path={path}>
+        <Redirect to="/admin" />
+      </Route>
+    );
+  }
+
   return <Component />
 }
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { AuditEvent, AuditEventPage, AuditEntityType, PublicUser, auditEntityTypes } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { apiRequest } from "@/lib/queryClient";
+import { Link } from "wouter";
+import { ArrowLeft, ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+
+interface AuditFilters {
+  userId: string;
+  entityType: AuditEntityType | "all";
+  entityId: string;
+  from: string;
+  to: string;
+}
+
+const entityLabels: Record<AuditEntityType, string> = {
+  product: "Products",
+  category: "Categories",
+  promotion: "Promotions",
+  cart: "Carts",
+  order: "Orders",
+  user: "Users",
+  invitation: "Invitations",
+  settings: "Settings",
+};
+
+function auditQueryParams(filters: AuditFilters, cursor?: number): URLSearchParams {
+  const params = new URLSearchParams({ limit: "50" });
+  if (filters.userId !== "all") params.set("userId", filters.userId);
+  if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+  if (filters.entityId.trim()) params.set("entityId", filters.entityId.trim());
+  // Date inputs are local calendar days; include the whole of the "to" day
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (cursor !== undefined) params.set("cursor", String(cursor));
+  return params;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function AuditEventRow({ event }: { event: AuditEvent }) {
+  const [expanded, setExpanded] = useState(false);
+  const fields = Object.entries(event.changes ?? {});
+
+  return (
+    <div className="py-3">
+      <button
+        type="button"
+        className="flex w-full items-start gap-2 text-left text-sm"
+        onClick={() => setExpanded(!expanded)}
+        disabled={fields.length === 0}
+      >
+        {fields.length > 0 ? (
+          expanded ? <ChevronDown className="h-4 w-4 mt-0.5" /> : <ChevronRight className="h-4 w-4 mt-0.5" />
+        ) : (
+          <span className="w-4" />
+        )}
+        <div className="flex-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={event.action === "delete" ? "destructive" : "secondary"} className="capitalize">
+              {event.action}
+            </Badge>
+            <span className="font-medium">{event.summary}</span>
+          </div>
+          <p className="text-muted-foreground">
+            {event.username} • {format(new Date(event.createdAt), "PPp")}
+            {event.entityId !== null && ` • ${event.entityType} #${event.entityId}`}
+          </p>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 ml-6 overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="pr-4 font-medium">Field</th>
+                <th className="pr-4 font-medium">Before</th>
+                <th className="font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(([field, change]) => (
+                <tr key={field} className="align-top">
+                  <td className="pr-4 font-medium">{field}</td>
+                  <td className="pr-4 break-all">{formatValue(change.before)}</td>
+                  <td className="break-all">{formatValue(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AdminAudit() {
+  const [filters, setFilters] = useState<AuditFilters>({
+    userId: "all",
+    entityType: "all",
+    entityId: "",
+    from: "",
+    to: "",
+  });
+  const updateFilter = (changes: Partial<AuditFilters>) => setFilters(current => ({ ...current, ...changes }));
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+  } = useInfiniteQuery({
+    queryKey: ["/api/admin/audit", filters],
+    queryFn: async ({ pageParam }): Promise<AuditEventPage> => {
+      const response = await apiRequest("GET", `/api/admin/audit?${auditQueryParams(filters, pageParam)}`);
+      return response.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const events = data?.pages.flatMap(page => page.data) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center">
+            <Link href="/">
+              <img
+                src="/assets/logo.png"
+                alt="Abused Goods Logo"
+                className="h-12 cursor-pointer"
+              />
+            </Link>
+            <h1 className="text-2xl font-bold ml-2">Audit Log</h1>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2">
+              <Select value={filters.userId} onValueChange={(userId) => updateFilter({ userId })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="User" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={String(user.id)}>
+                      {user.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.entityType}
+                onValueChange={(entityType) => updateFilter({ entityType: entityType as AuditFilters["entityType"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everything</SelectItem>
+                  {auditEntityTypes.map(type => (
+                    <SelectItem key={type} value={type}>
+                      {entityLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                placeholder="ID"
+                value={filters.entityId}
+                onChange={(e) => updateFilter({ entityId: e.target.value })}
+              />
+              <Input
+                type="date"
+                aria-label="From"
+                value={filters.from}
+                onChange={(e) => updateFilter({ from: e.target.value })}
+              />
+              <Input
+                type="date"
+                aria-label="To"
+                value={filters.to}
+                onChange={(e) => updateFilter({ to: e.target.value })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Changes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes match these filters.</p>
+            ) : (
+              <div className="divide-y">
+                {events.map(event => (
+                  <AuditEventRow key={event.id} event={event} />
+                ))}
+              </div>
+            )}
+
+            {hasNextPage && (
+              <div className="flex justify-center pt-4">
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,13 +1,16 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useState } from "react";
 import { ImageViewer } from "@/components/image-viewer";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Cart } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
-import { ArrowLeft, Trash2, Loader2, AlertCircle } from "lucide-react";
+import { ArrowLeft, Trash2, Loader2, AlertCircle, Search, Mail, Phone, Truck, StickyNote } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { HighlightText } from "@/components/highlight-text";
+import { useDebounce } from "@/hooks/use-debounce";
 import { ProductCarousel } from "@/components/product-carousel";
 import {
   Card,
@@ -35,11 +38,14 @@ const AdminCarts = () => {
   const { user } = useAuth();
   const { toast, dismiss } = useToast(); // Corrected import to include dismiss
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const searchQuery = useDebounce(searchInput.trim());
 
   const { data: carts = [], isLoading: cartsLoading, error: cartsError } = useQuery<Cart[]>({
-    queryKey: ["/api/carts"],
+    queryKey: ["/api/carts", searchQuery],
     queryFn: async () => {
-      const response = await apiRequest("GET", "/api/carts");
+      const params = searchQuery ? `?${new URLSearchParams({ q: searchQuery })}` : "";
+      const response = await apiRequest("GET", `/api/carts${params}`);
       if (!response.ok) {
         const error = await response.text();
         throw new Error(error || 'Failed to fetch carts');
@@ -47,6 +53,8 @@ const AdminCarts = () => {
       const data = await response.json();
       return Array.isArray(data.data) ? data.data : [];
     },
+    // Keep showing the current list while a new search loads
+    placeholderData: keepPreviousData,
   });
 
   const deleteCartMutation = useMutation({
@@ -55,7 +63,7 @@ const AdminCarts = () => {
       if (!response.ok) throw new Error('Failed to delete cart');
     },
     onSuccess: (_, cartId) => {
-      queryClient.setQueryData<Cart[]>(["/api/carts"], (old) =>
+      queryClient.setQueriesData<Cart[]>({ queryKey: ["/api/carts"] }, (old) =>
         old?.filter(cart => cart.id !== cartId) ?? []
       );
       toast({
@@ -72,6 +80,29 @@ const AdminCarts = () => {
     },
   });
 
+  const convertToOrderMutation = useMutation({
+    mutationFn: async (cartId: number) => {
+      const response = await apiRequest("POST", `/api/carts/${cartId}/convert-to-order`);
+      return response.json();
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/carts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Order created",
+        description: `Cart converted to order #${order.id}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to convert cart",
+        variant: "destructive",
+      });
+    },
+  });
+
   const removeItemMutation = useMutation({
     mutationFn: async ({ cartId, itemId }: { cartId: number; itemId: number }) => {
       const response = await apiRequest("DELETE", `/api/carts/${cartId}/items/${itemId}`);
@@ -147,14 +178,21 @@ const AdminCarts = () => {
       </header>
 
       <main className="container mx-auto px-4 py-8">
+        <div className="relative mb-6 max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Search by name, email, phone or notes..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-9"
+          />
+        </div>
         <div className="space-y-6">
           {sortedCarts.length > 0 ? (
             sortedCarts.map((cart) => {
-              // Calculate total price from stored prices
-              const cartTotal = cart.items.reduce((sum, item) => {
-                const itemPrice = typeof item.price === 'number' ? Math.floor(item.price) : 0;
-                return sum + itemPrice;
-              }, 0);
+              // Totalled by the server from the frozen unit prices and quantities
+              const cartTotal = cart.total;
 
               return (
                 <Card key={cart.id} className="overflow-hidden">
@@ -164,16 +202,51 @@ const AdminCarts = () => {
                         <CardTitle className="text-xl flex items-center gap-2">
                           Cart #{cart.id} - ${cartTotal}
                           <span className="text-base font-normal text-muted-foreground">
-                            • {cart.customerName} • {cart.items.length} items
+                            • <HighlightText text={cart.customerName} query={searchQuery} /> • {cart.items.length} items
                           </span>
+                          {cart.status === "sold" && <Badge variant="secondary">Sold</Badge>}
                         </CardTitle>
                         <CardDescription>
-                          {format(new Date(cart.createdAt), "PPp")}
+                          {format(new Date(cart.submittedAt ?? cart.createdAt), "PPp")}
+                          {cart.holdExpiresAt && (
+                            new Date(cart.holdExpiresAt) > new Date()
+                              ? ` • Items held until ${format(new Date(cart.holdExpiresAt), "PPp")}`
+                              : " • Hold expired, items may be claimed by other carts"
+                          )}
                         </CardDescription>
+                        {(cart.customerEmail || cart.customerPhone || cart.fulfillmentMethod || cart.notes) && (
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 pt-2 text-sm">
+                            {cart.customerEmail && (
+                              <a href={`mailto:${cart.customerEmail}`} className="flex items-center gap-1 hover:underline">
+                                <Mail className="h-4 w-4" />
+                                <HighlightText text={cart.customerEmail} query={searchQuery} />
+                              </a>
+                            )}
+                            {cart.customerPhone && (
+                              <a href={`tel:${cart.customerPhone}`} className="flex items-center gap-1 hover:underline">
+                                <Phone className="h-4 w-4" />
+                                <HighlightText text={cart.customerPhone} query={searchQuery} />
+                              </a>
+                            )}
+                            {cart.fulfillmentMethod && (
+                              <span className="flex items-center gap-1 capitalize">
+                                <Truck className="h-4 w-4" />
+                                {cart.fulfillmentMethod}
+                              </span>
+                            )}
+                            {cart.notes && (
+                              <span className="flex items-start gap-1 basis-full text-muted-foreground whitespace-pre-line">
+                                <StickyNote className="h-4 w-4 mt-0.5 shrink-0" />
+                                <HighlightText text={cart.notes} query={searchQuery} />
+                              </span>
+                            )}
+                          </div>
+                        )}
                       </div>
                       <div className="flex gap-2">
                         <Button 
                           variant="outline"
+                          disabled={cart.status === "sold"}
                           onClick={() => {
                             const totalItems = cart.items.length;
 
@@ -208,23 +281,12 @@ const AdminCarts = () => {
                                 queryClient.invalidateQueries({ queryKey: ["/api/products"] });
                                 queryClient.invalidateQueries({ queryKey: ["/api/carts"] });
 
-                                // Show success message with details
-                                const failedCount = data.failedProducts ? data.failedProducts.length : 0;
+                                // The whole cart is sold at once, so there are no partial failures to report
                                 const successCount = data.updatedProducts ? data.updatedProducts.length : 0;
-
-                                if (failedCount > 0) {
-                                  toast({
-                                    title: "Products Updated",
-                                    description: `${successCount} products marked as unavailable. ${failedCount} products failed to update.`,
-                                    variant: "default",
-                                    duration: 5000,
-                                  });
-                                } else {
-                                  toast({
-                                    title: "Products Updated",
-                                    description: `${successCount} products marked as unavailable`,
-                                  });
-                                }
+                                toast({
+                                  title: "Products Updated",
+                                  description: `${successCount} products marked as unavailable`,
+                                });
                               })
                               .catch((error) => {
                                 toast({
@@ -237,6 +299,12 @@ const AdminCarts = () => {
                         >
                           Make Unavailable
                         </Button>
+                        <Button
+                          onClick={() => convertToOrderMutation.mutate(cart.id)}
+                          disabled={convertToOrderMutation.isPending || cart.items.length === 0}
+                        >
+                          Convert to Order
+                        </Button>
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button variant="destructive" size="sm">
@@ -280,6 +348,7 @@ const AdminCarts = () => {
                                   images={item.images}
                                   onImageClick={(image) => setSelectedImage(image)}
                                   priority={index < 6}
+                                  sizes="80px"
                                 />
                               ) : (
                                 <div className="flex items-center justify-center w-full h-full bg-muted">
@@ -291,7 +360,9 @@ const AdminCarts = () => {
                               <p className="text-sm font-medium truncate">{item.name}</p>
                               <p className="text-sm text-muted-foreground truncate">{item.description}</p>
                               <div className="flex justify-between items-center mt-1">
-                                <span className="text-lg font-semibold">${itemPrice}</span>
+                                <span className="text-lg font-semibold">
+                                  {item.quantity > 1 ? `${item.quantity} × $${itemPrice}` : `$${itemPrice}`}
+                                </span>
                                 <span className="text-xs text-muted-foreground">
                                   <Badge variant={item.isAvailable ? "default" : "destructive"}>
                                     {item.isAvailable ? "Available" : "Unavailable"}
@@ -317,7 +388,7 @@ const AdminCarts = () => {
           ) : (
             <Card>
               <CardContent className="p-6 text-center text-muted-foreground">
-                No carts have been created yet.
+                {searchQuery ? `No carts match "${searchQuery}".` : "No carts have been created yet."}
               </CardContent>
             </Card>
           )}
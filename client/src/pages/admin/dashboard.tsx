@@ -1,8 +1,10 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useInfiniteQuery, useQueryClient, useMutation, useQuery } from "@tanstack/react-query";
-import { Product, Category } from "@shared/schema";
+import { Product, ProductPage, Category, hasRole } from "@shared/schema";
 import { ProductForm } from "@/components/admin/product-form";
+import { CategoryEditDialog } from "@/components/admin/category-edit-dialog";
+import { CategoryTree } from "@/components/admin/category-tree";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -20,6 +22,14 @@ import {
   CheckSquare,
   Square,
   Loader2,
+  ClipboardList,
+  Search,
+  Users,
+  KeyRound,
+  ShieldCheck,
+  History,
+  ArchiveRestore,
+  Percent,
 } from "lucide-react";
 import {
   Card,
@@ -38,6 +48,8 @@ import {
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ProductCarousel } from "@/components/product-carousel";
+import { HighlightText } from "@/components/highlight-text";
+import { useDebounce } from "@/hooks/use-debounce";
 import { BulkUpload } from "@/components/admin/bulk-upload";
 import {
   AlertDialog,
@@ -68,12 +80,6 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 
-interface ProductsResponse {
-  data: Product[];
-  nextPage: number | undefined;
-  lastPage: boolean;
-}
-
 const BulkCategoryActions = ({ categories, selectedProducts, clearSelection }: { categories: Category[]; selectedProducts: Set<number>; clearSelection: () => void }) => {
   const { toast } = useToast();
   const [selectedCategory, setSelectedCategory] = useState<number | null>(null);
@@ -181,6 +187,7 @@ function AdminDashboard() {
   const { user, logoutMutation } = useAuth();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [selectedProducts, setSelectedProducts] = useState<Set<number>>(new Set());
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const [bulkEditMode, setBulkEditMode] = useState(false);
@@ -189,6 +196,8 @@ function AdminDashboard() {
   const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
   const [categoryFilter, setCategoryFilter] = useState<number[]>([]);
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [searchInput, setSearchInput] = useState("");
+  const searchQuery = useDebounce(searchInput.trim());
 
   const { data: categories = [], refetch: refetchCategories } = useQuery<(Category & { productCount: number })[]>({
     queryKey: ["/api/categories"],
@@ -208,14 +217,24 @@ function AdminDashboard() {
     isError,
     error
   } = useInfiniteQuery({
-    queryKey: ["/api/products", categoryFilter, sortOrder],
-    queryFn: async ({ pageParam = 1 }) => {
+    queryKey: ["/api/products", categoryFilter, sortOrder, searchQuery],
+    queryFn: async ({ pageParam }): Promise<ProductPage> => {
       try {
         const queryParams = new URLSearchParams({
-          page: pageParam.toString(),
           limit: '12'
         });
 
+        if (pageParam) {
+          queryParams.set('cursor', pageParam);
+        }
+
+        if (searchQuery) {
+          queryParams.set('q', searchQuery);
+        } else {
+          // Search results are ordered by relevance instead
+          queryParams.set('sort', sortOrder === 'asc' ? 'oldest' : 'newest');
+        }
+
         // Add category filter parameters
         if (categoryFilter.length > 0) {
           categoryFilter.forEach(categoryId =>
@@ -230,19 +249,14 @@ function AdminDashboard() {
         if (!response.ok) {
           throw new Error('Failed to fetch products');
         }
-        const products = await response.json();
-        return {
-          data: Array.isArray(products.data) ? products.data : [],
-          nextPage: products.data && products.data.length === 12 ? pageParam + 1 : undefined,
-          lastPage: !products.data || products.data.length < 12
-        };
+        return response.json();
       } catch (err) {
         console.error("Failed to fetch products:", err);
         throw err;
       }
     },
-    initialPageParam: 1,
-    getNextPageParam: (lastPage) => lastPage.nextPage,
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
   useEffect(() => {
@@ -272,6 +286,7 @@ function AdminDashboard() {
   }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const products = data?.pages?.flatMap(page => page.data) ?? [];
+  const totalProducts = data?.pages[0]?.totalCount;
 
   const toggleSelection = (productId: number) => {
     const newSelection = new Set(selectedProducts);
@@ -410,7 +425,7 @@ function AdminDashboard() {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       toast({
         title: "Products deleted",
-        description: "The selected products have been removed from the catalog.",
+        description: "The selected products have been moved to the trash.",
       });
       clearSelection();
     },
@@ -424,10 +439,11 @@ function AdminDashboard() {
   });
 
   const createCategoryMutation = useMutation({
-    mutationFn: async (data: { name: string; defaultPrice: number }) => {
+    mutationFn: async (data: { name: string; defaultPrice: number; parentId: number | null }) => {
       const response = await apiRequest("POST", "/api/categories", {
         name: data.name.trim(),
-        defaultPrice: Math.round(Number(data.defaultPrice))
+        defaultPrice: Math.round(Number(data.defaultPrice)),
+        parentId: data.parentId
       });
 
       if (!response.ok) {
@@ -472,12 +488,20 @@ function AdminDashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       toast({
-        title: "Category deleted",
-        description: "The category has been removed.",
+        title: "Category moved to trash",
+        description: "Its products keep the assignment and get it back if you restore it.",
       });
       refetchCategories();
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const updateProductCategoriesMutation = useMutation({
@@ -517,6 +541,54 @@ function AdminDashboard() {
           View Carts
         </Button>
       </Link>
+      <Link href="/admin/orders">
+        <Button variant="outline" className="flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" />
+          View Orders
+        </Button>
+      </Link>
+      <Link href="/admin/promotions">
+        <Button variant="outline" className="flex items-center gap-2">
+          <Percent className="h-4 w-4" />
+          Promotions
+        </Button>
+      </Link>
+      {hasRole(user, "owner") && (
+        <Link href="/admin/users">
+          <Button variant="outline" className="flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            Team
+          </Button>
+        </Link>
+      )}
+      {hasRole(user, "staff") && (
+        <Link href="/admin/trash">
+          <Button variant="outline" className="flex items-center gap-2">
+            <ArchiveRestore className="h-4 w-4" />
+            Trash
+          </Button>
+        </Link>
+      )}
+      {hasRole(user, "owner") && (
+        <Link href="/admin/audit">
+          <Button variant="outline" className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Audit Log
+          </Button>
+        </Link>
+      )}
+      <Link href="/account/password">
+        <Button variant="ghost" className="flex items-center gap-2">
+          <KeyRound className="h-4 w-4" />
+          Password
+        </Button>
+      </Link>
+      <Link href="/account/security">
+        <Button variant="ghost" className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Security
+        </Button>
+      </Link>
       <Button
         variant="ghost"
         onClick={() => logoutMutation.mutate()}
@@ -531,7 +603,7 @@ function AdminDashboard() {
   const CategoryManagement: React.FC = () => {
     const { toast } = useToast();
     const queryClient = useQueryClient();
-    const [formState, setFormState] = useState({ name: "", price: "0" });
+    const [formState, setFormState] = useState({ name: "", price: "0", parentId: "none" });
     const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       setFormState(prev => ({ ...prev, name: e.target.value }));
     };
@@ -587,10 +659,11 @@ function AdminDashboard() {
 
         await createCategoryMutation.mutateAsync({
           name: name.trim(),
-          defaultPrice: defaultPrice
+          defaultPrice: defaultPrice,
+          parentId: formState.parentId === "none" ? null : Number(formState.parentId)
         });
 
-        setFormState({ name: "", price: "0" });
+        setFormState({ name: "", price: "0", parentId: "none" });
       } catch (error) {
         console.error('Error creating category:', error);
         toast({
@@ -629,6 +702,25 @@ function AdminDashboard() {
               className="w-full"
             />
           </div>
+          <div className="space-y-2 flex-1">
+            <Label>Parent Category</Label>
+            <Select
+              value={formState.parentId}
+              onValueChange={(parentId) => setFormState(prev => ({ ...prev, parentId }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="None" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (top level)</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={String(category.id)}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <Button
             type="submit"
             disabled={createCategoryMutation.isPending}
@@ -643,28 +735,12 @@ function AdminDashboard() {
             )}
           </Button>
         </form>
-        <ScrollArea className="w-full">
-          <div className="flex flex-wrap gap-2">
-            {categories.map((category) => (
-              <Badge
-                key={category.id}
-                variant="secondary"
-                className="text-sm py-1 px-2"
-              >
-                {category.name} (${category.defaultPrice})
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-4 w-4 p-0 ml-2"
-                  onClick={() => deleteCategoryMutation.mutate(category.id)}
-                  disabled={deleteCategoryMutation.isPending}
-                >
-                  ×
-                </Button>
-              </Badge>
-            ))}
-          </div>
-        </ScrollArea>
+        <CategoryTree
+          categories={categories}
+          onEdit={setEditingCategory}
+          onDelete={(id) => deleteCategoryMutation.mutate(id)}
+          isDeleting={deleteCategoryMutation.isPending}
+        />
       </div>
     );
   };
@@ -818,12 +894,15 @@ function AdminDashboard() {
             <ProductCarousel
               images={product.images}
               className="aspect-square object-cover rounded-t-lg"
+              sizes="(min-width: 1024px) 25vw, (min-width: 768px) 50vw, 100vw"
             />
           </div>
           <div className="p-4">
-            <h3 className="text-lg font-semibold mb-2">{product.name}</h3>
+            <h3 className="text-lg font-semibold mb-2">
+              <HighlightText text={product.name} query={searchQuery} />
+            </h3>
             <p className="text-sm text-muted-foreground mb-2" style={{ display: !showDetails ? 'none' : 'block' }}>
-              {product.description}
+              <HighlightText text={product.description} query={searchQuery} />
             </p>
             <ProductCategories product={product} />
             <div className="mt-4 flex items-center gap-2 text-sm">
@@ -837,6 +916,9 @@ function AdminDashboard() {
                     ? `$${product.categoryPrice} (Category)`
                     : 'No price set'}
               </Badge>
+              <Badge variant="outline">
+                {product.stockQuantity} in stock
+              </Badge>
             </div>
             <div className="mt-4">
               <Dialog
@@ -955,7 +1037,7 @@ function AdminDashboard() {
                     <AlertDialogHeader>
                       <AlertDialogTitle>Delete Products</AlertDialogTitle>
                       <AlertDialogDescription>
-                        Are you sure you want to delete {selectedProducts.size} products? This action cannot be undone.
+                        Move {selectedProducts.size} products to the trash? You can restore them from the Trash page until they are purged.
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
@@ -1088,6 +1170,11 @@ function AdminDashboard() {
         </div>
 
         <CategoryManagement />
+        <CategoryEditDialog
+          category={editingCategory}
+          categories={categories}
+          onOpenChange={(open) => !open && setEditingCategory(null)}
+        />
         <CategoryFilter />
 
         <div className="space-y-8">
@@ -1097,7 +1184,26 @@ function AdminDashboard() {
           </div>
 
           <div className="space-y-4">
-            <h3 className="text-lg font-medium">Product List</h3>
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-lg font-medium">
+                Product List
+                {totalProducts !== undefined && (
+                  <span className="ml-2 text-sm text-muted-foreground">
+                    {products.length} of {totalProducts}
+                  </span>
+                )}
+              </h3>
+              <div className="relative w-full max-w-sm">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  type="search"
+                  placeholder="Search products..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
             {isLoading ? (
               <div className="flex items-center justify-center h-32">
                 <Loader2 className="w-8 h-8 animate-spin" />
@@ -1118,7 +1224,9 @@ function AdminDashboard() {
               </div>
             ) : (
               <div className="text-center py-8">
-                <p className="text-muted-foreground">No products found</p>
+                <p className="text-muted-foreground">
+                  {searchQuery ? `No products match "${searchQuery}"` : "No products found"}
+                </p>
               </div>
             )}
             <div ref={loadMoreRef} className="flex justify-center mt-4">
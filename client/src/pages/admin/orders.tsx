@@ -1,6 +1,6 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Order } from "@shared/schema";
+import { Order, OrderStatus, orderStatusTransitions, orderStatusTimestamps } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -22,9 +22,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { format } from "date-fns";
+import { cartTotal, lineTotal } from "@shared/pricing";
 import { Product } from "@shared/schema";
 import { useMemo } from "react";
 
+const statusLabels: Record<OrderStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  packed: "Packed",
+  shipped: "Shipped",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
 export default function AdminOrders() {
   const { toast } = useToast();
   const { user } = useAuth();
@@ -57,6 +67,14 @@ export default function AdminOrders() {
         description: "The order status has been successfully updated.",
       });
     },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   if (isLoading) {
@@ -93,81 +111,111 @@ export default function AdminOrders() {
       <main className="container mx-auto px-4 py-8">
         <div className="space-y-6">
           {orders && orders.length > 0 ? (
-            orders.map((order) => (
-              <Card key={order.id}>
-                <CardHeader>
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <CardTitle>Order #{order.id}</CardTitle>
-                      <CardDescription>
-                        Placed on {format(new Date(order.createdAt), "PPP")}
-                      </CardDescription>
-                    </div>
-                    <Select
-                      defaultValue={order.status}
-                      onValueChange={(value) =>
-                        updateOrderStatusMutation.mutate({
-                          id: order.id,
-                          status: value,
-                        })
-                      }
-                    >
-                      <SelectTrigger className="w-[180px]">
-                        <SelectValue placeholder="Order Status" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="processing">Processing</SelectItem>
-                        <SelectItem value="shipped">Shipped</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div>
-                      <h3 className="font-medium mb-2">Customer Information</h3>
-                      <p className="text-sm text-muted-foreground">
-                        {order.customerName} ({order.customerEmail})
-                      </p>
+            orders.map((order) => {
+              const status = order.status as OrderStatus;
+              const nextStatuses = orderStatusTransitions[status] ?? [];
+              const orderTotal = Array.isArray(order.items)
+                ? cartTotal(order.items as { price: number; quantity?: number }[])
+                : 0;
+              const history = (Object.keys(orderStatusTimestamps) as (keyof typeof orderStatusTimestamps)[])
+                .map(key => ({ status: key, at: order[orderStatusTimestamps[key]] }))
+                .filter((entry): entry is { status: keyof typeof orderStatusTimestamps; at: Date } => !!entry.at);
+
+              return (
+                <Card key={order.id}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle>Order #{order.id} - ${orderTotal}</CardTitle>
+                        <CardDescription>
+                          Placed on {format(new Date(order.createdAt), "PPP")}
+                          {order.cartId && ` • from cart #${order.cartId}`}
+                        </CardDescription>
+                      </div>
+                      <Select
+                        value={status}
+                        disabled={nextStatuses.length === 0 || updateOrderStatusMutation.isPending}
+                        onValueChange={(value) =>
+                          updateOrderStatusMutation.mutate({
+                            id: order.id,
+                            status: value,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue placeholder="Order Status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={status} disabled>
+                            {statusLabels[status] ?? status}
+                          </SelectItem>
+                          {nextStatuses.map(next => (
+                            <SelectItem key={next} value={next}>
+                              {statusLabels[next]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                    <div>
-                      <h3 className="font-medium mb-2">Order Items</h3>
-                      <div className="space-y-2">
-                        {order.items && Array.isArray(order.items) &&
-                          order.items.map((item: any, index: number) => {
-                            const product = productsMap.get(item.productId);
-                            const productImages = product?.images || [];
-                            return (
-                              <div
-                                key={index}
-                                className="flex items-center gap-4 text-sm"
-                              >
-                                <div className="relative w-12 h-12 overflow-hidden rounded-md border bg-muted">
-                                  {productImages && productImages.length > 0 ? (
-                                    <ProductCarousel
-                                      images={productImages}
-                                      onImageClick={() => {}}
-                                      priority={index < 2}
-                                    />
-                                  ) : (
-                                    <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-                                      <Package className="w-4 h-4" />
-                                    </div>
-                                  )}
+                    {history.length > 0 && (
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground pt-2">
+                        {history.map(entry => (
+                          <span key={entry.status}>
+                            {statusLabels[entry.status]} {format(new Date(entry.at), "PPp")}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div>
+                        <h3 className="font-medium mb-2">Customer Information</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {order.customerName}
+                          {order.customerEmail && ` (${order.customerEmail})`}
+                        </p>
+                      </div>
+                      <div>
+                        <h3 className="font-medium mb-2">Order Items</h3>
+                        <div className="space-y-2">
+                          {Array.isArray(order.items) &&
+                            order.items.map((item: any, index: number) => {
+                              const product = productsMap.get(item.productId);
+                              const productImages = item.images?.length ? item.images : product?.images || [];
+                              return (
+                                <div
+                                  key={index}
+                                  className="flex items-center gap-4 text-sm"
+                                >
+                                  <div className="relative w-12 h-12 overflow-hidden rounded-md border bg-muted">
+                                    {productImages && productImages.length > 0 ? (
+                                      <ProductCarousel
+                                        images={productImages}
+                                        onImageClick={() => {}}
+                                        priority={index < 2}
+                                        sizes="48px"
+                                      />
+                                    ) : (
+                                      <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                                        <Package className="w-4 h-4" />
+                                      </div>
+                                    )}
+                                  </div>
+                                  <span className="flex-1">
+                                    {item.quantity > 1 ? `${item.quantity} × ${item.name}` : item.name}
+                                  </span>
+                                  <span className="font-medium">${lineTotal(item)}</span>
                                 </div>
-                                <span className="flex-1">{item.name}</span>
-                              </div>
-                            );
-                          })}
+                              );
+                            })}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))
+                  </CardContent>
+                </Card>
+              );
+            })
           ) : (
             <Card>
               <CardContent className="p-6 text-center text-muted-foreground">
@@ -0,0 +1,434 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Category, ProductPage, Promotion, hasRole } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Link } from "wouter";
+import { ArrowLeft, Edit, Loader2, PlusCircle, Trash2, X } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { format } from "date-fns";
+
+interface PromotionFormState {
+  name: string;
+  percentOff: string;
+  // datetime-local values, in the browser's time zone
+  startsAt: string;
+  endsAt: string;
+  categoryIds: number[];
+  products: { id: number; name: string }[];
+}
+
+const toLocalInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+function emptyForm(): PromotionFormState {
+  const start = new Date();
+  return {
+    name: "",
+    percentOff: "10",
+    startsAt: toLocalInput(start),
+    endsAt: toLocalInput(new Date(start.getTime() + 3 * 24 * 60 * 60 * 1000)),
+    categoryIds: [],
+    products: [],
+  };
+}
+
+function promotionStatus(promotion: Promotion): { label: string; variant: "default" | "secondary" | "outline" } {
+  const now = Date.now();
+  if (new Date(promotion.endsAt).getTime() <= now) return { label: "Ended", variant: "outline" };
+  if (new Date(promotion.startsAt).getTime() > now) return { label: "Scheduled", variant: "secondary" };
+  return { label: "Running", variant: "default" };
+}
+
+function PromotionDialog({ promotion, categories, open, onOpenChange }: {
+  promotion: Promotion | null;
+  categories: Category[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PromotionFormState>(() => promotion ? {
+    name: promotion.name,
+    percentOff: String(promotion.percentOff),
+    startsAt: toLocalInput(new Date(promotion.startsAt)),
+    endsAt: toLocalInput(new Date(promotion.endsAt)),
+    categoryIds: promotion.categoryIds,
+    products: promotion.products,
+  } : emptyForm());
+  const [productSearch, setProductSearch] = useState("");
+  const searchQuery = useDebounce(productSearch.trim());
+
+  const { data: searchResults, isFetching: isSearching } = useQuery<ProductPage>({
+    queryKey: [`/api/products?q=${encodeURIComponent(searchQuery)}&limit=10`],
+    enabled: searchQuery.length > 0,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        percentOff: Number(form.percentOff),
+        startsAt: new Date(form.startsAt).toISOString(),
+        endsAt: new Date(form.endsAt).toISOString(),
+        categoryIds: form.categoryIds,
+        productIds: form.products.map(product => product.id),
+      };
+      const res = promotion
+        ? await apiRequest("PATCH", `/api/promotions/${promotion.id}`, body)
+        : await apiRequest("POST", "/api/promotions", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: promotion ? "Promotion updated" : "Promotion created",
+        description: "Prices update as soon as the promotion is running.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleCategory = (categoryId: number, checked: boolean) => {
+    setForm(current => ({
+      ...current,
+      categoryIds: checked
+        ? current.categoryIds.concat(categoryId)
+        : current.categoryIds.filter(id => id !== categoryId),
+    }));
+  };
+
+  const addProduct = (product: { id: number; name: string }) => {
+    setForm(current => current.products.some(selected => selected.id === product.id)
+      ? current
+      : { ...current, products: current.products.concat({ id: product.id, name: product.name }) });
+  };
+
+  const removeProduct = (productId: number) => {
+    setForm(current => ({ ...current, products: current.products.filter(product => product.id !== productId) }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{promotion ? "Edit Promotion" : "New Promotion"}</DialogTitle>
+        </DialogHeader>
+        <form
+          id="promotion-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="promotionName">Name</Label>
+              <Input
+                id="promotionName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Weekend denim sale"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotionPercent">Percent off</Label>
+              <Input
+                id="promotionPercent"
+                type="number"
+                min="1"
+                max="100"
+                value={form.percentOff}
+                onChange={(e) => setForm({ ...form, percentOff: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="promotionStart">Starts</Label>
+              <Input
+                id="promotionStart"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotionEnd">Ends</Label>
+              <Input
+                id="promotionEnd"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            <p className="text-xs text-muted-foreground">Subcategories are included.</p>
+            <ScrollArea className="h-[120px] w-full rounded-md border p-3">
+              <div className="space-y-2">
+                {categories.map(category => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.categoryIds.includes(category.id)}
+                      onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="promotionProductSearch">Products</Label>
+            {form.products.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {form.products.map(product => (
+                  <Badge key={product.id} variant="secondary" className="flex items-center gap-1">
+                    {product.name}
+                    <button type="button" onClick={() => removeProduct(product.id)} aria-label={`Remove ${product.name}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              id="promotionProductSearch"
+              value={productSearch}
+              onChange={(e) => setProductSearch(e.target.value)}
+              placeholder="Search products to add..."
+            />
+            {searchQuery && (
+              <div className="rounded-md border divide-y text-sm">
+                {isSearching ? (
+                  <div className="flex justify-center p-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  </div>
+                ) : searchResults?.data.length ? (
+                  searchResults.data.map(product => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      className="block w-full px-3 py-2 text-left hover:bg-muted"
+                      onClick={() => addProduct(product)}
+                    >
+                      {product.name}
+                    </button>
+                  ))
+                ) : (
+                  <p className="px-3 py-2 text-muted-foreground">No products found.</p>
+                )}
+              </div>
+            )}
+          </div>
+        </form>
+        <DialogFooter>
+          <Button type="submit" form="promotion-form" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminPromotions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole(user, "staff");
+  // undefined while closed, null when creating a new promotion
+  const [editing, setEditing] = useState<Promotion | null | undefined>(undefined);
+
+  const { data: promotions = [], isLoading } = useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/promotions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Promotion deleted",
+        description: "Affected products are back to their regular prices.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center">
+            <Link href="/">
+              <img
+                src="/assets/logo.png"
+                alt="Abused Goods Logo"
+                className="h-12 cursor-pointer"
+              />
+            </Link>
+            <h1 className="text-2xl font-bold ml-2">Promotions</h1>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Sales</CardTitle>
+              <CardDescription>
+                A product gets the largest running discount that applies to it. Cart prices are locked in when the cart is submitted.
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button onClick={() => setEditing(null)} className="flex items-center gap-2">
+                <PlusCircle className="h-4 w-4" />
+                New Promotion
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : promotions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No promotions yet.</p>
+            ) : (
+              <div className="divide-y">
+                {promotions.map(promotion => {
+                  const status = promotionStatus(promotion);
+                  const targets = promotion.categoryIds
+                    .map(id => categoryNames.get(id) ?? `Category #${id}`)
+                    .concat(promotion.products.map(product => product.name));
+
+                  return (
+                    <div key={promotion.id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{promotion.name}</span>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                          <span className="text-sm font-semibold">{promotion.percentOff}% off</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {format(new Date(promotion.startsAt), "PPp")} – {format(new Date(promotion.endsAt), "PPp")}
+                        </p>
+                        <p className="text-sm text-muted-foreground">{targets.join(", ")}</p>
+                      </div>
+                      {canEdit && (
+                        <div className="flex items-center gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setEditing(promotion)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm" disabled={deleteMutation.isPending}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Promotion</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Delete {promotion.name}? Products return to their regular prices straight away.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteMutation.mutate(promotion.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {editing !== undefined && (
+        <PromotionDialog
+          // Remount per promotion so the form starts from its values
+          key={editing?.id ?? "new"}
+          promotion={editing}
+          categories={categories}
+          open
+          onOpenChange={(open) => !open && setEditing(undefined)}
+        />
+      )}
+    </div>
+  );
+}
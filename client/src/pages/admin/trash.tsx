@@ -0,0 +1,234 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Trash } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Link } from "wouter";
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { addDays, format } from "date-fns";
+
+type TrashResponse = Trash & { retentionDays: number };
+type TrashKind = "products" | "categories";
+
+interface TrashRowProps {
+  name: string;
+  detail: string;
+  deletedAt: Date | string | null;
+  retentionDays: number;
+  purgeWarning: string;
+  onRestore: () => void;
+  onPurge: () => void;
+  disabled: boolean;
+}
+
+function TrashRow({ name, detail, deletedAt, retentionDays, purgeWarning, onRestore, onPurge, disabled }: TrashRowProps) {
+  const deleted = deletedAt ? new Date(deletedAt) : null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 py-3">
+      <div>
+        <p className="font-medium">{name}</p>
+        <p className="text-sm text-muted-foreground">
+          {detail}
+          {deleted && ` • Deleted ${format(deleted, "PP")}, purged on ${format(addDays(deleted, retentionDays), "PP")}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={onRestore} disabled={disabled} className="flex items-center gap-2">
+          <RotateCcw className="h-4 w-4" />
+          Restore
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm" disabled={disabled}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+              <AlertDialogDescription>
+                Permanently delete {name}? {purgeWarning} This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={onPurge}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminTrash() {
+  const { toast } = useToast();
+
+  const { data: trash, isLoading } = useQuery<TrashResponse>({
+    queryKey: ["/api/admin/trash"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: number }) => {
+      await apiRequest("POST", `/api/admin/trash/${kind}/${id}/restore`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Restored",
+        description: "The item is back in the catalog.",
+      });
+    },
+    onError,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: number }) => {
+      await apiRequest("DELETE", `/api/admin/trash/${kind}/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Deleted permanently",
+        description: "The item has been removed for good.",
+      });
+    },
+    onError,
+  });
+
+  const busy = restoreMutation.isPending || purgeMutation.isPending;
+  const retentionDays = trash?.retentionDays ?? 30;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center">
+            <Link href="/">
+              <img
+                src="/assets/logo.png"
+                alt="Abused Goods Logo"
+                className="h-12 cursor-pointer"
+              />
+            </Link>
+            <h1 className="text-2xl font-bold ml-2">Trash</h1>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Products</CardTitle>
+                <CardDescription>
+                  Deleted products are hidden from the shop and purged after {retentionDays} days.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!trash?.products.length ? (
+                  <p className="text-sm text-muted-foreground">No products in the trash.</p>
+                ) : (
+                  <div className="divide-y">
+                    {trash.products.map(product => (
+                      <TrashRow
+                        key={product.id}
+                        name={product.name}
+                        detail={`#${product.id}`}
+                        deletedAt={product.deletedAt}
+                        retentionDays={retentionDays}
+                        purgeWarning="It will also be removed from any carts holding it."
+                        onRestore={() => restoreMutation.mutate({ kind: "products", id: product.id })}
+                        onPurge={() => purgeMutation.mutate({ kind: "products", id: product.id })}
+                        disabled={busy}
+                      />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Categories</CardTitle>
+                <CardDescription>
+                  Products keep their trashed categories but do not use their price until the category is restored.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!trash?.categories.length ? (
+                  <p className="text-sm text-muted-foreground">No categories in the trash.</p>
+                ) : (
+                  <div className="divide-y">
+                    {trash.categories.map(category => (
+                      <TrashRow
+                        key={category.id}
+                        name={category.name}
+                        detail={`$${category.defaultPrice} • ${category.productCount} products`}
+                        deletedAt={category.deletedAt}
+                        retentionDays={retentionDays}
+                        purgeWarning={`It will be removed from ${category.productCount} products.`}
+                        onRestore={() => restoreMutation.mutate({ kind: "categories", id: category.id })}
+                        onPurge={() => purgeMutation.mutate({ kind: "categories", id: category.id })}
+                        disabled={busy}
+                      />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
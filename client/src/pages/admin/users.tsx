@@ -0,0 +1,483 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminInvitation, AppSettings, LoginAttempt, PublicUser, UpdateUser, UserRole, userRoles } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Link } from "wouter";
+import { ArrowLeft, KeyRound, Link2, Loader2, Trash2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { format } from "date-fns";
+
+type InvitationSummary = Omit<AdminInvitation, "tokenHash">;
+
+const roleLabels: Record<UserRole, string> = {
+  viewer: "Viewer (read-only carts and orders)",
+  staff: "Staff (manage catalog, carts and orders)",
+  owner: "Owner (full access, can invite)",
+};
+
+const expiryOptions = [
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 14, label: "14 days" },
+];
+
+function invitationStatus(invitation: InvitationSummary): string {
+  if (invitation.usedAt) return "Used";
+  if (new Date(invitation.expiresAt) < new Date()) return "Expired";
+  return "Pending";
+}
+
+export default function AdminUsers() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [role, setRole] = useState<UserRole>("staff");
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const { data: invitations = [], isLoading } = useQuery<InvitationSummary[]>({
+    queryKey: ["/api/admin/invitations"],
+  });
+
+  const { data: users = [], isLoading: usersLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: failedLogins = [] } = useQuery<LoginAttempt[]>({
+    queryKey: ["/api/admin/login-attempts"],
+  });
+
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ["/api/admin/settings"],
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (updates: Partial<AppSettings>) => {
+      const res = await apiRequest("PATCH", "/api/admin/settings", updates);
+      return res.json() as Promise<AppSettings>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/admin/settings"], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: UpdateUser }) => {
+      const res = await apiRequest("PATCH", `/api/admin/users/${id}`, updates);
+      return res.json() as Promise<PublicUser>;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData<PublicUser[]>(["/api/admin/users"], (old) =>
+        old?.map(existing => existing.id === user.id ? user : existing)
+      );
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "User deleted",
+        description: "The account has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createInvitationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/invitations", { role, expiresInHours });
+      return res.json() as Promise<InvitationSummary & { token: string }>;
+    },
+    onSuccess: (invitation) => {
+      // The token is only returned once, so keep the link around until the page is left
+      setInviteUrl(`${window.location.origin}/auth?invite=${invitation.token}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
+      toast({
+        title: "Invitation revoked",
+        description: "The invitation link can no longer be used.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCopyInviteUrl = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      toast({
+        title: "Link copied",
+        description: "Send it to the person you are inviting.",
+      });
+    } catch {
+      toast({
+        title: "Could not copy link",
+        description: inviteUrl,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center">
+            <Link href="/">
+              <img
+                src="/assets/logo.png"
+                alt="Abused Goods Logo"
+                className="h-12 cursor-pointer"
+              />
+            </Link>
+            <h1 className="text-2xl font-bold ml-2">Team</h1>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline" className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Security</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between gap-4">
+              <div className="text-sm">
+                <p className="font-medium">Require two-factor authentication</p>
+                <p className="text-muted-foreground">
+                  Team members without 2FA must set it up before they can use the dashboard.
+                </p>
+              </div>
+              <Switch
+                checked={settings?.requireTwoFactor ?? false}
+                disabled={!settings || updateSettingsMutation.isPending}
+                onCheckedChange={(requireTwoFactor) => updateSettingsMutation.mutate({ requireTwoFactor })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Users</CardTitle>
+            <CardDescription>
+              Disabled users are signed out immediately. The last active owner cannot be demoted, disabled or deleted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {usersLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : (
+              <div className="divide-y">
+                {users.map(member => (
+                  <div key={member.id} className="flex flex-col md:flex-row md:items-center justify-between py-3 gap-4">
+                    <div className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{member.username}</span>
+                        {member.id === currentUser?.id && <Badge variant="outline">You</Badge>}
+                        {member.disabled && <Badge variant="secondary">Disabled</Badge>}
+                        {member.mustResetPassword && <Badge variant="secondary">Password reset pending</Badge>}
+                        {member.totpEnabled && <Badge variant="outline">2FA</Badge>}
+                      </div>
+                      <p className="text-muted-foreground">
+                        {member.lastLoginAt
+                          ? `Last login ${format(new Date(member.lastLoginAt), "PPp")}`
+                          : "Never logged in"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={member.role}
+                        disabled={updateUserMutation.isPending}
+                        onValueChange={(value) =>
+                          updateUserMutation.mutate({ id: member.id, updates: { role: value as UserRole } })
+                        }
+                      >
+                        <SelectTrigger className="w-[120px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {userRoles.map(value => (
+                            <SelectItem key={value} value={value} className="capitalize">
+                              {value}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Switch
+                          checked={!member.disabled}
+                          disabled={updateUserMutation.isPending}
+                          onCheckedChange={(enabled) =>
+                            updateUserMutation.mutate({ id: member.id, updates: { disabled: !enabled } })
+                          }
+                        />
+                        Active
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Require a new password at next sign-in"
+                        disabled={member.mustResetPassword || updateUserMutation.isPending}
+                        onClick={() =>
+                          updateUserMutation.mutate({ id: member.id, updates: { mustResetPassword: true } })
+                        }
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="destructive" size="sm" disabled={member.id === currentUser?.id}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete User</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete {member.username}? This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteUserMutation.mutate(member.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite someone</CardTitle>
+            <CardDescription>
+              Invitation links can be used once and grant the selected role on registration.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                <SelectTrigger className="sm:w-[320px]">
+                  <SelectValue placeholder="Role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map(value => (
+                    <SelectItem key={value} value={value}>
+                      {roleLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(expiresInHours)}
+                onValueChange={(value) => setExpiresInHours(Number(value))}
+              >
+                <SelectTrigger className="sm:w-[160px]">
+                  <SelectValue placeholder="Expires in" />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map(option => (
+                    <SelectItem key={option.hours} value={String(option.hours)}>
+                      Expires in {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => createInvitationMutation.mutate()}
+                disabled={createInvitationMutation.isPending}
+              >
+                {createInvitationMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create invitation
+              </Button>
+            </div>
+
+            {inviteUrl && (
+              <div className="rounded-md border p-3 space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Copy this link now. It will not be shown again.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="text-xs break-all flex-1">{inviteUrl}</code>
+                  <Button variant="outline" onClick={handleCopyInviteUrl} className="flex items-center gap-2">
+                    <Link2 className="h-4 w-4" />
+                    Copy link
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : invitations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No invitations have been created yet.</p>
+            ) : (
+              <div className="divide-y">
+                {invitations.map(invitation => {
+                  const status = invitationStatus(invitation);
+                  return (
+                    <div key={invitation.id} className="flex items-center justify-between py-3 gap-4">
+                      <div className="text-sm">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium capitalize">{invitation.role}</span>
+                          <Badge variant={status === "Pending" ? "default" : "secondary"}>{status}</Badge>
+                        </div>
+                        <p className="text-muted-foreground">
+                          Created {format(new Date(invitation.createdAt), "PPp")}
+                          {invitation.usedAt
+                            ? ` • used ${format(new Date(invitation.usedAt), "PPp")}`
+                            : ` • expires ${format(new Date(invitation.expiresAt), "PPp")}`}
+                        </p>
+                      </div>
+                      {status === "Pending" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                          disabled={revokeInvitationMutation.isPending}
+                          title="Revoke invitation"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent failed sign-ins</CardTitle>
+            <CardDescription>
+              Repeated failures temporarily lock the username and the client address.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {failedLogins.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No failed sign-ins recorded.</p>
+            ) : (
+              <div className="divide-y text-sm">
+                {failedLogins.map(attempt => (
+                  <div key={attempt.id} className="flex flex-wrap justify-between gap-2 py-2">
+                    <span>
+                      <span className="font-medium">{attempt.username || "(blank)"}</span>
+                      <span className="text-muted-foreground"> • {attempt.reason}</span>
+                    </span>
+                    <span className="text-muted-foreground">
+                      {attempt.ipAddress && `${attempt.ipAddress} • `}
+                      {format(new Date(attempt.createdAt), "PPp")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { insertUserSchema } from "@shared/schema";
 import { useLocation } from "wouter";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import {
   Card,
   CardContent,
@@ -26,6 +26,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 export default function AuthPage() {
   const [, setLocation] = useLocation();
   const { user } = useAuth();
+  const inviteToken = new URLSearchParams(window.location.search).get("invite") ?? "";
 
   // Use useEffect for navigation instead of render-time redirect
   useEffect(() => {
@@ -62,7 +63,7 @@ export default function AuthPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="login" className="space-y-6">
+            <Tabs defaultValue={inviteToken ? "register" : "login"} className="space-y-6">
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="login">Login</TabsTrigger>
                 <TabsTrigger value="register">Register</TabsTrigger>
@@ -73,7 +74,7 @@ export default function AuthPage() {
               </TabsContent>
 
               <TabsContent value="register">
-                <RegisterForm />
+                <RegisterForm inviteToken={inviteToken} />
               </TabsContent>
             </Tabs>
           </CardContent>
@@ -93,6 +94,10 @@ function LoginForm() {
     },
   });
 
+  if (loginMutation.data && "twoFactorRequired" in loginMutation.data) {
+    return <TwoFactorForm onCancel={() => loginMutation.reset()} />;
+  }
+
   return (
     <Form {...form}>
       <form
@@ -137,14 +142,56 @@ function LoginForm() {
   );
 }
 
-function RegisterForm() {
+function TwoFactorForm({ onCancel }: { onCancel: () => void }) {
+  const { verifyTwoFactorMutation } = useAuth();
+  const [code, setCode] = useState("");
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (code.trim()) verifyTwoFactorMutation.mutate(code.trim());
+      }}
+      className="space-y-4"
+    >
+      <div className="space-y-2">
+        <label htmlFor="two-factor-code" className="text-sm font-medium">
+          Authentication Code
+        </label>
+        <Input
+          id="two-factor-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          autoComplete="one-time-code"
+          autoFocus
+          placeholder="123456"
+        />
+        <p className="text-sm text-muted-foreground">
+          Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+        </p>
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={verifyTwoFactorMutation.isPending || !code.trim()}
+      >
+        {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onCancel}>
+        Back
+      </Button>
+    </form>
+  );
+}
+
+function RegisterForm({ inviteToken }: { inviteToken: string }) {
   const { registerMutation } = useAuth();
   const form = useForm({
     resolver: zodResolver(insertUserSchema),
     defaultValues: {
       username: "",
       password: "",
-      secretCode: "", // Add secret code field
+      inviteToken,
     },
   });
 
@@ -182,12 +229,12 @@ function RegisterForm() {
         />
         <FormField
           control={form.control}
-          name="secretCode"
+          name="inviteToken"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Secret Code (Required for admin registration)</FormLabel>
+              <FormLabel>Invitation Code</FormLabel>
               <FormControl>
-                <Input {...field} placeholder="Leave empty for regular user" />
+                <Input {...field} placeholder="Paste the code from your invitation link" />
               </FormControl>
               <FormMessage />
             </FormItem>
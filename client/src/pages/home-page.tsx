@@ -1,15 +1,25 @@
 import { useState, useEffect, useRef } from "react";
 import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
-import { Product, CartItem, Category } from "@shared/schema";
+import { Product, ProductPage, Category, ProductSort } from "@shared/schema";
+import { buildCategoryTree, CategoryNode } from "@shared/categories";
 import { ProductCard } from "@/components/product-card";
 import { CartOverlay } from "@/components/cart-overlay";
 import { Button } from "@/components/ui/button";
-import { Menu, ShoppingCart, LogIn, Loader2, PackageCheck, Package } from "lucide-react";
+import { Menu, ShoppingCart, LogIn, Loader2, PackageCheck, Package, Search } from "lucide-react";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
-import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useDebounce } from "@/hooks/use-debounce";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   Sheet,
@@ -34,18 +44,88 @@ import {
 // Update the limit constant to match both queries
 const PRODUCTS_PER_PAGE = 24;
 
+const sortLabels: Record<ProductSort, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  name_asc: "Name: A to Z",
+  name_desc: "Name: Z to A",
+};
+
+// "Added since" choices, in days
+const addedWithinOptions = [1, 7, 30, 90];
+
+interface CatalogFilters {
+  search: string;
+  sort: ProductSort | "default";
+  minPrice: string;
+  maxPrice: string;
+  addedWithinDays: string;
+}
+
+function applyCatalogFilters(params: URLSearchParams, filters: CatalogFilters) {
+  if (filters.search) params.set('q', filters.search);
+  if (filters.sort !== "default") params.set('sort', filters.sort);
+  if (filters.minPrice) params.set('minPrice', filters.minPrice);
+  if (filters.maxPrice) params.set('maxPrice', filters.maxPrice);
+  if (filters.addedWithinDays !== "any") {
+    const since = new Date(Date.now() - Number(filters.addedWithinDays) * 24 * 60 * 60 * 1000);
+    params.set('addedSince', since.toISOString());
+  }
+}
+
+type CategoryWithCount = Category & { productCount: number };
+
+// Subcategories sit under their parent; a parent's count includes its subcategories' products
+function CategoryFilterTree({ nodes, selected, onToggle }: {
+  nodes: CategoryNode<CategoryWithCount>[];
+  selected: Set<number>;
+  onToggle: (categoryId: number) => void;
+}) {
+  return (
+    <>
+      {nodes.map((category) => (
+        <div key={category.id} className="flex flex-col items-start gap-2">
+          <Badge
+            variant={selected.has(category.id) ? "default" : "secondary"}
+            className="cursor-pointer whitespace-nowrap"
+            onClick={() => onToggle(category.id)}
+          >
+            {category.name} ({category.productCount})
+          </Badge>
+          {category.children.length > 0 && (
+            <div className="flex flex-col items-start gap-2 ml-3 pl-3 border-l">
+              <CategoryFilterTree nodes={category.children} selected={selected} onToggle={onToggle} />
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
+
 export default function HomePage() {
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const { cart, items: cartItems, total: cartTotal, addItemMutation, updateQuantityMutation, removeItemMutation, clearCartMutation } = useCart();
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [selectedCategories, setSelectedCategories] = useState<Set<number>>(new Set());
   const { user } = useAuth();
-  const { toast } = useToast();
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const loadMoreSoldRef = useRef<HTMLDivElement>(null);
   const [currentTab, setCurrentTab] = useState<"available" | "sold">("available");
+  const [searchInput, setSearchInput] = useState("");
+  const searchQuery = useDebounce(searchInput.trim());
+  const [sort, setSort] = useState<ProductSort | "default">("default");
+  const [minPriceInput, setMinPriceInput] = useState("");
+  const [maxPriceInput, setMaxPriceInput] = useState("");
+  const [addedWithinDays, setAddedWithinDays] = useState("any");
+  const minPrice = useDebounce(minPriceInput);
+  const maxPrice = useDebounce(maxPriceInput);
+  const filters: CatalogFilters = { search: searchQuery, sort, minPrice, maxPrice, addedWithinDays };
+  const hasActiveFilters = sort !== "default" || !!minPriceInput || !!maxPriceInput || addedWithinDays !== "any";
 
   // Categories query with available product count
-  const { data: categories = [] } = useQuery<(Category & { productCount: number })[]>({
+  const { data: categories = [] } = useQuery<CategoryWithCount[]>({
     queryKey: ["/api/categories"],
     queryFn: async () => {
       const response = await apiRequest("GET", "/api/categories?countAvailableOnly=true");
@@ -65,15 +145,20 @@ export default function HomePage() {
     error: errorAvailable,
     refetch: refetchAvailable
   } = useInfiniteQuery({
-    queryKey: ["/api/products/available", Array.from(selectedCategories)],
-    queryFn: async ({ pageParam = 1 }) => {
+    queryKey: ["/api/products/available", Array.from(selectedCategories), filters],
+    queryFn: async ({ pageParam }): Promise<ProductPage> => {
       try {
         const queryParams = new URLSearchParams({
-          page: pageParam.toString(),
           limit: PRODUCTS_PER_PAGE.toString(),
           isAvailable: 'true' // This is critical - always filter for available products
         });
 
+        if (pageParam) {
+          queryParams.set('cursor', pageParam);
+        }
+
+        applyCatalogFilters(queryParams, filters);
+
         if (selectedCategories.size > 0) {
           Array.from(selectedCategories).forEach(categoryId =>
             queryParams.append('categoryId', categoryId.toString())
@@ -88,27 +173,23 @@ export default function HomePage() {
 
         if (!response.ok) throw new Error('Failed to fetch available products');
 
-        const data = await response.json();
+        const data: ProductPage = await response.json();
         
         // Extra validation to ensure only available products are included
         const filteredData = Array.isArray(data.data) 
           ? data.data.filter(product => product.isAvailable === true)
           : [];
           
-        console.log(`Received ${data.data?.length} products, filtered to ${filteredData.length} available products`);
+        console.log(`Received ${data.data?.length} of ${data.totalCount} products, filtered to ${filteredData.length} available products`);
         
-        return {
-          data: filteredData,
-          nextPage: filteredData.length === PRODUCTS_PER_PAGE ? pageParam + 1 : undefined,
-          lastPage: filteredData.length < PRODUCTS_PER_PAGE
-        };
+        return { ...data, data: filteredData };
       } catch (err) {
         console.error("Failed to fetch available products:", err);
         throw err;
       }
     },
-    initialPageParam: 1,
-    getNextPageParam: (lastPage) => lastPage.nextPage,
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
   // Sold products query
@@ -122,15 +203,20 @@ export default function HomePage() {
     error: errorSold,
     refetch: refetchSold
   } = useInfiniteQuery({
-    queryKey: ["/api/products/sold", Array.from(selectedCategories)],
-    queryFn: async ({ pageParam = 1 }) => {
+    queryKey: ["/api/products/sold", Array.from(selectedCategories), filters],
+    queryFn: async ({ pageParam }): Promise<ProductPage> => {
       try {
         const queryParams = new URLSearchParams({
-          page: pageParam.toString(),
           limit: PRODUCTS_PER_PAGE.toString(),
           isAvailable: 'false'
         });
 
+        if (pageParam) {
+          queryParams.set('cursor', pageParam);
+        }
+
+        applyCatalogFilters(queryParams, filters);
+
         if (selectedCategories.size > 0) {
           Array.from(selectedCategories).forEach(categoryId =>
             queryParams.append('categoryId', categoryId.toString())
@@ -146,30 +232,29 @@ export default function HomePage() {
           throw new Error('Failed to fetch sold products');
         }
 
-        const data = await response.json();
+        const data: ProductPage = await response.json();
         console.log("Sold products response:", {
           pageParam,
           dataLength: data.data?.length,
-          hasMore: data.data?.length === PRODUCTS_PER_PAGE
+          totalCount: data.totalCount,
+          hasMore: !!data.nextCursor
         });
 
-        return {
-          data: Array.isArray(data.data) ? data.data : [],
-          nextPage: data.data && data.data.length === PRODUCTS_PER_PAGE ? pageParam + 1 : undefined,
-          lastPage: !data.data || data.data.length < PRODUCTS_PER_PAGE
-        };
+        return data;
       } catch (err) {
         console.error("Failed to fetch sold products:", err);
         throw err;
       }
     },
-    initialPageParam: 1,
-    getNextPageParam: (lastPage) => lastPage.nextPage,
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
   // Extract products from query results
   const availableProducts = availableProductsData?.pages?.flatMap(page => page.data) ?? [];
   const soldProducts = soldProductsData?.pages?.flatMap(page => page.data) ?? [];
+  const availableTotal = availableProductsData?.pages[0]?.totalCount;
+  const soldTotal = soldProductsData?.pages[0]?.totalCount;
 
   console.log("Current product counts:", {
     available: availableProducts.length,
@@ -241,16 +326,16 @@ export default function HomePage() {
       // Invalidate and refetch available products when categories change
       // This ensures we always use isAvailable=true with the selected categories
       queryClient.invalidateQueries({ 
-        queryKey: ["/api/products/available", Array.from(selectedCategories)] 
+        queryKey: ["/api/products/available", Array.from(selectedCategories), filters] 
       });
       void refetchAvailable();
     } else {
       queryClient.invalidateQueries({ 
-        queryKey: ["/api/products/sold", Array.from(selectedCategories)] 
+        queryKey: ["/api/products/sold", Array.from(selectedCategories), filters] 
       });
       void refetchSold();
     }
-  }, [selectedCategories, currentTab, refetchAvailable, refetchSold, queryClient]);
+  }, [selectedCategories, searchQuery, sort, minPrice, maxPrice, addedWithinDays, currentTab, refetchAvailable, refetchSold, queryClient]);
 
   // Add debug logging for the API responses
   useEffect(() => {
@@ -291,43 +376,14 @@ export default function HomePage() {
   }, [currentTab, queryClient]);
 
   const handleAddToCart = (product: Product) => {
-    if (cartItems.some(item => item.productId === product.id)) {
-      toast({
-        title: "Item already in cart",
-        description: "This item is already in your cart.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Calculate the effective price (custom price or lowest category price)
-    const effectivePrice = product.customPrice ??
-      (product.categories?.length
-        ? Math.min(...product.categories.map(cat => Number(cat.defaultPrice)))
-        : 0);
-
-    const cartItem: CartItem = {
-      productId: product.id,
-      name: product.name,
-      description: product.description,
-      images: product.images,
-      fullImages: product.fullImages || [],
-      isAvailable: product.isAvailable,
-      price: String(Number(effectivePrice)),
-      createdAt: new Date().toISOString()
-    };
-
-    setCartItems(prev => [...prev, cartItem]);
-    toast({
-      title: "Added to cart",
-      description: "Item has been added to your cart.",
-    });
+    // The server snapshots the product at its effective price, or adds one more if it is already in the cart
+    addItemMutation.mutate(product.id);
   };
 
 
   const NavMenu = () => (
     <>
-      {user?.isAdmin && (
+      {user && (
         <Link href="/admin">
           <Button variant="outline">Admin Dashboard</Button>
         </Link>
@@ -398,22 +454,102 @@ export default function HomePage() {
       </header>
 
       <main className="container mx-auto px-4 py-8">
+        {/* Search */}
+        <div className="relative mb-6 max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Search products..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {/* Sort and filters */}
+        <div className="mb-6 flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <span className="text-sm font-medium">Sort by</span>
+            <Select value={sort} onValueChange={(value: ProductSort | "default") => setSort(value)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">{searchQuery ? "Best match" : "Newest"}</SelectItem>
+                {(Object.keys(sortLabels) as ProductSort[])
+                  .filter(value => value !== "newest" || searchQuery)
+                  .map(value => (
+                    <SelectItem key={value} value={value}>{sortLabels[value]}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <span className="text-sm font-medium">Price</span>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                inputMode="numeric"
+                placeholder="Min"
+                value={minPriceInput}
+                onChange={(e) => setMinPriceInput(e.target.value)}
+                className="w-24"
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="number"
+                min={0}
+                inputMode="numeric"
+                placeholder="Max"
+                value={maxPriceInput}
+                onChange={(e) => setMaxPriceInput(e.target.value)}
+                className="w-24"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <span className="text-sm font-medium">Added</span>
+            <Select value={addedWithinDays} onValueChange={setAddedWithinDays}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any time</SelectItem>
+                {addedWithinOptions.map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days === 1 ? "Last 24 hours" : `Last ${days} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {hasActiveFilters && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setSort("default");
+                setMinPriceInput("");
+                setMaxPriceInput("");
+                setAddedWithinDays("any");
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+
         {/* Categories Section */}
         {currentTab === "available" && categories.length > 0 && (
           <div className="mb-8">
             <h2 className="text-lg font-semibold mb-4">Categories</h2>
             <ScrollArea className="w-full">
-              <div className="flex flex-wrap gap-2 pb-4">
-                {categories.map((category) => (
-                  <Badge
-                    key={category.id}
-                    variant={selectedCategories.has(category.id) ? "default" : "secondary"}
-                    className="cursor-pointer whitespace-nowrap"
-                    onClick={() => toggleCategory(category.id)}
-                  >
-                    {category.name} ({category.productCount})
-                  </Badge>
-                ))}
+              <div className="flex flex-wrap items-start gap-4 pb-4">
+                <CategoryFilterTree
+                  nodes={buildCategoryTree(categories)}
+                  selected={selectedCategories}
+                  onToggle={toggleCategory}
+                />
               </div>
             </ScrollArea>
           </div>
@@ -432,10 +568,12 @@ export default function HomePage() {
             <TabsTrigger value="available" className="flex items-center gap-2">
               <Package className="h-4 w-4" />
               Available Products
+              {availableTotal !== undefined && ` (${availableTotal})`}
             </TabsTrigger>
             <TabsTrigger value="sold" className="flex items-center gap-2">
               <PackageCheck className="h-4 w-4" />
               Sold Items
+              {soldTotal !== undefined && ` (${soldTotal})`}
             </TabsTrigger>
           </TabsList>
 
@@ -472,6 +610,7 @@ export default function HomePage() {
                         onAddToCart={() => handleAddToCart(product)}
                         priority={index < 8}
                         showDetails={false}
+                        highlight={searchQuery}
                       />
                     )
                   ))}
@@ -489,7 +628,9 @@ export default function HomePage() {
             ) : (
               <Card>
                 <CardContent className="p-6 text-center text-muted-foreground">
-                  {selectedCategories.size > 0
+                  {searchQuery
+                    ? `No available products match "${searchQuery}".`
+                    : selectedCategories.size > 0
                     ? "No available products found in the selected categories."
                     : "No available products found."}
                 </CardContent>
@@ -531,6 +672,7 @@ export default function HomePage() {
                         priority={index < 8}
                         showDetails={false}
                         disableAddToCart
+                        highlight={searchQuery}
                       />
                     )
                   ))}
@@ -548,7 +690,7 @@ export default function HomePage() {
             ) : (
               <Card>
                 <CardContent className="p-6 text-center text-muted-foreground">
-                  No sold items to display.
+                  {searchQuery ? `No sold items match "${searchQuery}".` : "No sold items to display."}
                 </CardContent>
               </Card>
             )}
@@ -558,8 +700,11 @@ export default function HomePage() {
           isOpen={isCartOpen}
           onOpenChange={setIsCartOpen}
           items={cartItems}
-          onRemoveItem={(id) => setCartItems(items => items.filter(item => item.productId !== id))}
-          onClearCart={() => setCartItems([])}
+          total={cartTotal}
+          shareToken={cart?.token}
+          onRemoveItem={(id) => removeItemMutation.mutate(id)}
+          onQuantityChange={(productId, quantity) => updateQuantityMutation.mutate({ productId, quantity })}
+          onClearCart={() => clearCartMutation.mutate()}
         />
       </main>
     </div>
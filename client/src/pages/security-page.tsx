@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useMutation } from "@tanstack/react-query";
+import { PublicUser } from "@shared/schema";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Copy, ShieldCheck } from "lucide-react";
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export default function SecurityPage() {
+  const { user, logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  // Shown once after enabling or regenerating; the server only keeps hashes
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return res.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code });
+      return res.json() as Promise<{ user: PublicUser; recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user"], data.user);
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/disable", { password });
+      return res.json() as Promise<PublicUser>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      setPassword("");
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "You will only need your password to sign in.",
+      });
+    },
+    onError,
+  });
+
+  const handleCopyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Recovery codes copied" });
+    } catch {
+      onError(new Error("Could not copy to the clipboard"));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Account Security</h1>
+          {user?.twoFactorSetupRequired ? (
+            <Button variant="ghost" onClick={() => logoutMutation.mutate()}>
+              Logout
+            </Button>
+          ) : (
+            <Link href="/admin">
+              <Button variant="outline" className="flex items-center gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Dashboard
+              </Button>
+            </Link>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-xl space-y-6">
+        {recoveryCodes && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recovery codes</CardTitle>
+              <CardDescription>
+                Each code signs you in once if you lose your authenticator. Store them somewhere safe; they will not be shown again.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map(recoveryCode => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleCopyRecoveryCodes} className="flex items-center gap-2">
+                  <Copy className="h-4 w-4" />
+                  Copy
+                </Button>
+                <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CardTitle>Two-factor authentication</CardTitle>
+              {user?.totpEnabled && <Badge className="flex items-center gap-1"><ShieldCheck className="h-3 w-3" />On</Badge>}
+            </div>
+            <CardDescription>
+              {user?.twoFactorSetupRequired
+                ? "Your team requires two-factor authentication. Set it up to continue."
+                : "Require a code from an authenticator app in addition to your password."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!user?.totpEnabled && !setup && (
+              <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+                {setupMutation.isPending ? "Preparing..." : "Set up two-factor authentication"}
+              </Button>
+            )}
+
+            {setup && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  enableMutation.mutate();
+                }}
+                className="space-y-4"
+              >
+                <p className="text-sm">
+                  Scan this code with your authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <img src={setup.qrCodeDataUrl} alt="Two-factor QR code" className="w-48 h-48 border rounded-md" />
+                <p className="text-sm text-muted-foreground">
+                  Can't scan it? Enter this key instead: <code className="break-all">{setup.secret}</code>
+                </p>
+                <Input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                />
+                <Button type="submit" disabled={enableMutation.isPending || !code.trim()}>
+                  {enableMutation.isPending ? "Verifying..." : "Enable"}
+                </Button>
+              </form>
+            )}
+
+            {user?.totpEnabled && (
+              <>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    regenerateMutation.mutate();
+                  }}
+                  className="space-y-2"
+                >
+                  <p className="text-sm font-medium">New recovery codes</p>
+                  <p className="text-sm text-muted-foreground">
+                    Replaces all of your existing recovery codes.
+                  </p>
+                  <div className="flex gap-2">
+                    <Input
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      autoComplete="one-time-code"
+                      placeholder="Current authenticator code"
+                    />
+                    <Button type="submit" variant="outline" disabled={regenerateMutation.isPending || !code.trim()}>
+                      Generate
+                    </Button>
+                  </div>
+                </form>
+
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    disableMutation.mutate();
+                  }}
+                  className="space-y-2"
+                >
+                  <p className="text-sm font-medium">Turn off two-factor authentication</p>
+                  <div className="flex gap-2">
+                    <Input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Your password"
+                    />
+                    <Button type="submit" variant="destructive" disabled={disableMutation.isPending || !password}>
+                      Disable
+                    </Button>
+                  </div>
+                </form>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Cart } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+// Landing page for a cart share link: adopts the draft cart on this device
+// and continues on the home page
+export default function SharedCartPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const resumeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/cart/resume/${encodeURIComponent(token)}`);
+      return await res.json();
+    },
+    onSuccess: (cart: Cart) => {
+      queryClient.setQueryData(["/api/cart"], cart);
+      toast({
+        title: "Cart opened",
+        description: `${cart.items.length} item${cart.items.length === 1 ? "" : "s"} in your cart.`,
+      });
+      navigate("/");
+    },
+  });
+
+  useEffect(() => {
+    resumeMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          {resumeMutation.isError ? (
+            <>
+              <div className="flex mb-4 gap-2 items-center">
+                <AlertCircle className="h-6 w-6 text-destructive" />
+                <h1 className="text-xl font-bold">Cart unavailable</h1>
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                {resumeMutation.error.message}
+              </p>
+              <Link href="/">
+                <Button variant="outline">Continue shopping</Button>
+              </Link>
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Opening shared cart...
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+CREATE TABLE "admin_invitations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_hash" text NOT NULL,
+	"role" text NOT NULL,
+	"created_by" integer,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"used_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "admin_invitations_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "app_settings" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"username" text NOT NULL,
+	"action" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer,
+	"summary" text NOT NULL,
+	"changes" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "login_attempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"ip_address" text,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "price_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer NOT NULL,
+	"old_price" integer,
+	"new_price" integer,
+	"changed_by" integer,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "product_reservations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"product_id" integer NOT NULL,
+	"cart_id" integer NOT NULL,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "promotion_categories" (
+	"promotion_id" integer NOT NULL,
+	"category_id" integer NOT NULL,
+	CONSTRAINT "promotion_categories_promotion_id_category_id_pk" PRIMARY KEY("promotion_id","category_id")
+);
+--> statement-breakpoint
+CREATE TABLE "promotion_products" (
+	"promotion_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	CONSTRAINT "promotion_products_promotion_id_product_id_pk" PRIMARY KEY("promotion_id","product_id")
+);
+--> statement-breakpoint
+CREATE TABLE "promotions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"percent_off" integer NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "carts" ALTER COLUMN "customer_name" SET DEFAULT '';--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "customer_email" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "cart_items" ADD COLUMN "price" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "cart_items" ALTER COLUMN "price" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "cart_items" ADD COLUMN "quantity" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "customer_email" text;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "customer_phone" text;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "fulfillment_method" text;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "status" text DEFAULT 'submitted' NOT NULL;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "token" text;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "submitted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "hold_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "default_price" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "parent_id" integer;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "sort_order" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "cart_id" integer;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "confirmed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "packed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipped_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "completed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "cancelled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "custom_price" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "category_price" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "stock_quantity" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_tiers" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'viewer' NOT NULL;--> statement-breakpoint
+UPDATE "users" SET "role" = 'owner' WHERE "is_admin" = true;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "disabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "must_reset_password" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_login_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_secret" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_enabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_last_used_step" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "recovery_codes" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_invitations" ADD CONSTRAINT "admin_invitations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "admin_invitations" ADD CONSTRAINT "admin_invitations_used_by_users_id_fk" FOREIGN KEY ("used_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_history" ADD CONSTRAINT "price_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_reservations" ADD CONSTRAINT "product_reservations_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_reservations" ADD CONSTRAINT "product_reservations_cart_id_carts_id_fk" FOREIGN KEY ("cart_id") REFERENCES "public"."carts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_categories" ADD CONSTRAINT "promotion_categories_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "public"."promotions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_categories" ADD CONSTRAINT "promotion_categories_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_products" ADD CONSTRAINT "promotion_products_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "public"."promotions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_products" ADD CONSTRAINT "promotion_products_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_events_created_at_idx" ON "audit_events" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_events_entity_idx" ON "audit_events" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_events_user_id_idx" ON "audit_events" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "login_attempts_created_at_idx" ON "login_attempts" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "price_history_entity_idx" ON "price_history" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "product_reservations_product_cart_idx" ON "product_reservations" USING btree ("product_id","cart_id");--> statement-breakpoint
+CREATE INDEX "product_reservations_cart_id_idx" ON "product_reservations" USING btree ("cart_id");--> statement-breakpoint
+CREATE INDEX "product_reservations_expires_at_idx" ON "product_reservations" USING btree ("expires_at");--> statement-breakpoint
+CREATE INDEX "promotion_categories_category_idx" ON "promotion_categories" USING btree ("category_id");--> statement-breakpoint
+CREATE INDEX "promotion_products_product_idx" ON "promotion_products" USING btree ("product_id");--> statement-breakpoint
+CREATE INDEX "promotions_active_idx" ON "promotions" USING btree ("starts_at","ends_at");--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parent_id_categories_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."categories"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "carts_status_idx" ON "carts" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "categories_parent_id_idx" ON "categories" USING btree ("parent_id");--> statement-breakpoint
+CREATE INDEX "orders_status_idx" ON "orders" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "orders_created_at_idx" ON "orders" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "products_search_idx" ON "products" USING gin ((setweight(to_tsvector('english', "name"), 'A') || setweight(to_tsvector('english', "description"), 'B')));--> statement-breakpoint
+CREATE INDEX "products_deleted_at_idx" ON "products" USING btree ("deleted_at");--> statement-breakpoint
+ALTER TABLE "carts" ADD CONSTRAINT "carts_token_unique" UNIQUE("token");
\ No newline at end of file
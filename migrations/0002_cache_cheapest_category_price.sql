@@ -0,0 +1,6 @@
+-- Products are priced at their cheapest category's default price; the cache used to hold the highest
+UPDATE "products" SET "category_price" = (
+	SELECT MIN("categories"."default_price") FROM "product_categories"
+	INNER JOIN "categories" ON "categories"."id" = "product_categories"."category_id"
+	WHERE "product_categories"."product_id" = "products"."id" AND "categories"."deleted_at" IS NULL
+);
@@ -0,0 +1,153 @@
+import { db } from "../server/db";
+import { parseDataUrl } from "../server/image-store";
+import { storeImageWithVariants } from "../server/image-variants";
+import { products, cartItems, orders, type OrderItem } from "../shared/schema";
+import { and, asc, eq, gt, sql } from "drizzle-orm";
+
+const BATCH_SIZE = 25;
+
+// Keys written during this run. The same photo copied into products and
+// cart_items hashes to the same key, so it is only stored once.
+const storedKeys = new Set<string>();
+
+async function migrateValue(value: string): Promise<string> {
+  if (!value.startsWith("data:")) return value;
+
+  const parsed = parseDataUrl(value);
+  if (!parsed) {
+    console.warn("Skipping malformed data URL");
+    return value;
+  }
+
+  try {
+    const image = await storeImageWithVariants(parsed.data, parsed.contentType);
+    storedKeys.add(image.key);
+    return image.url;
+  } catch (error) {
+    console.warn("Skipping undecodable image:", error instanceof Error ? error.message : error);
+    return value;
+  }
+}
+
+async function migrateList(values: string[]): Promise<{ values: string[]; changed: boolean }> {
+  const result = await Promise.all(values.map(migrateValue));
+  return { values: result, changed: result.some((value, i) => value !== values[i]) };
+}
+
+const hasDataUrl = (column: unknown) =>
+  sql`EXISTS (SELECT 1 FROM unnest(${column}) AS img WHERE img LIKE 'data:%')`;
+
+async function migrateProducts() {
+  let updated = 0;
+  // Rows left with malformed data URLs still match, so page past them by id
+  let lastId = 0;
+  for (;;) {
+    const batch = await db
+      .select({ id: products.id, images: products.images, fullImages: products.fullImages })
+      .from(products)
+      .where(and(
+        gt(products.id, lastId),
+        sql`${hasDataUrl(products.images)} OR ${hasDataUrl(products.fullImages)}`
+      ))
+      .orderBy(asc(products.id))
+      .limit(BATCH_SIZE);
+
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const product of batch) {
+      const images = await migrateList(product.images);
+      const fullImages = await migrateList(product.fullImages);
+      if (!images.changed && !fullImages.changed) continue;
+
+      await db
+        .update(products)
+        .set({ images: images.values, fullImages: fullImages.values })
+        .where(eq(products.id, product.id));
+      updated++;
+    }
+
+    console.log(`Migrated images for ${updated} products so far...`);
+  }
+  return updated;
+}
+
+async function migrateCartItems() {
+  let updated = 0;
+  // Rows left with malformed data URLs still match, so page past them by id
+  let lastId = 0;
+  for (;;) {
+    const batch = await db
+      .select({ id: cartItems.id, images: cartItems.images, fullImages: cartItems.fullImages })
+      .from(cartItems)
+      .where(and(
+        gt(cartItems.id, lastId),
+        sql`${hasDataUrl(cartItems.images)} OR ${hasDataUrl(cartItems.fullImages)}`
+      ))
+      .orderBy(asc(cartItems.id))
+      .limit(BATCH_SIZE);
+
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const item of batch) {
+      const images = await migrateList(item.images);
+      const fullImages = await migrateList(item.fullImages);
+      if (!images.changed && !fullImages.changed) continue;
+
+      await db
+        .update(cartItems)
+        .set({ images: images.values, fullImages: fullImages.values })
+        .where(eq(cartItems.id, item.id));
+      updated++;
+    }
+
+    console.log(`Migrated images for ${updated} cart items so far...`);
+  }
+  return updated;
+}
+
+async function migrateOrders() {
+  let updated = 0;
+  const rows = await db
+    .select({ id: orders.id, items: orders.items })
+    .from(orders)
+    .where(sql`${orders.items}::text LIKE '%data:image%'`);
+
+  for (const order of rows) {
+    if (!Array.isArray(order.items)) continue;
+
+    const items = await Promise.all(
+      (order.items as OrderItem[]).map(async (item) => ({
+        ...item,
+        images: Array.isArray(item.images) ? (await migrateList(item.images)).values : item.images,
+        fullImages: Array.isArray(item.fullImages) ? (await migrateList(item.fullImages)).values : item.fullImages,
+      }))
+    );
+
+    await db.update(orders).set({ items }).where(eq(orders.id, order.id));
+    updated++;
+  }
+  return updated;
+}
+
+async function migrateImages() {
+  try {
+    console.log("Extracting base64 images into the image store...");
+
+    const productCount = await migrateProducts();
+    const cartItemCount = await migrateCartItems();
+    const orderCount = await migrateOrders();
+
+    console.log(
+      `Done: ${productCount} products, ${cartItemCount} cart items and ${orderCount} orders updated, ` +
+      `${storedKeys.size} unique images stored`
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error("Error migrating images:", error);
+    process.exit(1);
+  }
+}
+
+migrateImages();
@@ -0,0 +1,37 @@
+import { closeDatabase } from "../server/db";
+import { baselineMigrations, getMigrationStatus, runMigrations, SchemaDriftError } from "../server/migrate";
+
+// npm run db:migrate              apply pending migrations
+// npm run db:migrate -- --status  list pending migrations and drift without changing anything
+// npm run db:migrate -- --baseline  mark every migration applied on a database created by db:push
+//                                   and promote legacy admins to owner
+async function main() {
+  const args = process.argv.slice(2);
+  try {
+    if (args.includes("--status")) {
+      const status = await getMigrationStatus();
+      console.log(`Applied: ${status.applied}`);
+      console.log(`Pending: ${status.pending.length > 0 ? status.pending.join(", ") : "none"}`);
+      status.problems.forEach(problem => console.log(`Problem: ${problem}`));
+      await closeDatabase();
+      process.exit(status.problems.length > 0 ? 1 : 0);
+    }
+
+    if (args.includes("--baseline")) {
+      const { recorded, promotedOwners } = await baselineMigrations();
+      console.log(`Recorded as applied: ${recorded.join(", ")}`);
+      console.log(`Promoted ${promotedOwners} legacy admins to owner`);
+    } else {
+      const applied = await runMigrations();
+      console.log(applied.length > 0 ? `Applied: ${applied.join(", ")}` : "Database is up to date");
+    }
+    await closeDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error(error instanceof SchemaDriftError ? error.message : error);
+    await closeDatabase().catch(() => {});
+    process.exit(1);
+  }
+}
+
+main();
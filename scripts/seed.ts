@@ -0,0 +1,138 @@
+import sharp from "sharp";
+import { storage } from "../server/storage";
+import { closeDatabase } from "../server/db";
+import { storeImageWithVariants } from "../server/image-variants";
+import type { PriceTier } from "../shared/pricing";
+
+// Demo catalog for local development and review apps. Prices are whole dollars.
+const CATEGORIES: { name: string; defaultPrice: number; children: { name: string; defaultPrice: number }[] }[] = [
+  {
+    name: "Kitchen",
+    defaultPrice: 12,
+    children: [
+      { name: "Mugs", defaultPrice: 8 },
+      { name: "Bowls", defaultPrice: 14 },
+    ],
+  },
+  {
+    name: "Home",
+    defaultPrice: 20,
+    children: [
+      { name: "Candles", defaultPrice: 15 },
+      { name: "Planters", defaultPrice: 25 },
+    ],
+  },
+];
+
+const PRODUCTS: {
+  name: string;
+  description: string;
+  category: string;
+  color: string;
+  stockQuantity: number;
+  customPrice?: number;
+  priceTiers?: PriceTier[];
+}[] = [
+  { name: "Speckled Mug", description: "Stoneware mug with a speckled cream glaze, holds 12 oz.", category: "Mugs", color: "#d8c8a8", stockQuantity: 24, priceTiers: [{ minQuantity: 6, unitPrice: 7 }, { minQuantity: 12, unitPrice: 6 }] },
+  { name: "Cobalt Mug", description: "Deep blue glazed mug, dishwasher safe.", category: "Mugs", color: "#2f4f9f", stockQuantity: 10 },
+  { name: "Serving Bowl", description: "Wide serving bowl for salads and pasta.", category: "Bowls", color: "#8fa38a", stockQuantity: 5, customPrice: 32 },
+  { name: "Cereal Bowl", description: "Everyday bowl sized for breakfast.", category: "Bowls", color: "#e0b070", stockQuantity: 18, priceTiers: [{ minQuantity: 4, unitPrice: 12 }] },
+  { name: "Beeswax Candle", description: "Hand-poured beeswax pillar candle, burns for 40 hours.", category: "Candles", color: "#f0c850", stockQuantity: 30 },
+  { name: "Cedar Candle", description: "Soy candle scented with cedar and smoke.", category: "Candles", color: "#7a5a40", stockQuantity: 0 },
+  { name: "Hanging Planter", description: "Terracotta planter with a jute hanger.", category: "Planters", color: "#c0704a", stockQuantity: 7 },
+  { name: "Desk Planter", description: "Small glazed planter with a drainage tray.", category: "Planters", color: "#4a8a7a", stockQuantity: 12, customPrice: 18 },
+];
+
+// Solid swatch with the product's initial, so every demo product has a distinct image
+async function placeholderImage(label: string, color: string): Promise<string> {
+  const svg = `
+    <svg xmlns="http://www.w3.org/2000/svg" width="800" height="800">
+      <rect width="800" height="800" fill="${color}"/>
+      <text x="400" y="470" font-family="sans-serif" font-size="280" fill="#ffffff" text-anchor="middle">${label.charAt(0)}</text>
+    </svg>`;
+  const png = await sharp(Buffer.from(svg)).png().toBuffer();
+  const image = await storeImageWithVariants(png, "image/png");
+  return image.url;
+}
+
+async function seed() {
+  try {
+    const existing = await storage.getCategories();
+    if (existing.length > 0) {
+      console.log("Database already has categories; skipping seed");
+      await closeDatabase();
+      process.exit(0);
+    }
+
+    const categoryIds = new Map<string, number>();
+    for (let index = 0; index < CATEGORIES.length; index++) {
+      const parent = CATEGORIES[index];
+      const created = await storage.createCategory({ name: parent.name, defaultPrice: parent.defaultPrice, sortOrder: index });
+      categoryIds.set(parent.name, created.id);
+      for (let childIndex = 0; childIndex < parent.children.length; childIndex++) {
+        const child = parent.children[childIndex];
+        const createdChild = await storage.createCategory({
+          name: child.name,
+          defaultPrice: child.defaultPrice,
+          parentId: created.id,
+          sortOrder: childIndex,
+        });
+        categoryIds.set(child.name, createdChild.id);
+      }
+    }
+    console.log(`Created ${categoryIds.size} categories`);
+
+    const products = [];
+    for (const demo of PRODUCTS) {
+      const imageUrl = await placeholderImage(demo.name, demo.color);
+      const now = new Date();
+      const product = await storage.createProduct({
+        name: demo.name,
+        description: demo.description,
+        images: [imageUrl],
+        fullImages: [imageUrl],
+        customPrice: null,
+        categoryPrice: null,
+        isAvailable: demo.stockQuantity > 0,
+        stockQuantity: demo.stockQuantity,
+        priceTiers: demo.priceTiers ?? [],
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+      });
+      await storage.addProductCategories(product.id, [categoryIds.get(demo.category)!]);
+      // createProduct prices from the category; a custom price is set like an admin edit would
+      if (demo.customPrice !== undefined) {
+        await storage.updateProduct(product.id, { customPrice: demo.customPrice });
+      }
+      // Re-read so carts below see the category and custom prices
+      products.push((await storage.getProduct(product.id))!);
+    }
+    console.log(`Created ${products.length} products`);
+
+    const submitted = await storage.createCart({
+      customerName: "Demo Customer",
+      customerEmail: "customer@example.com",
+      fulfillmentMethod: "pickup",
+      items: [
+        { productId: products[0].id, quantity: 6 },
+        { productId: products[4].id, quantity: 2 },
+      ],
+    });
+    console.log(`Created submitted cart #${submitted.id}`);
+
+    const draft = await storage.createDraftCart();
+    await storage.addCartItem(draft.id, products[1], 1);
+    await storage.addCartItem(draft.id, products[3], 4);
+    console.log(`Created draft cart #${draft.id}`);
+
+    await closeDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error("Error seeding database:", error);
+    await closeDatabase().catch(() => {});
+    process.exit(1);
+  }
+}
+
+seed();
@@ -0,0 +1,79 @@
+import express, { type Express } from "express";
+import cookieParser from "cookie-parser";
+import request from "supertest";
+import { registerRoutes } from "../routes";
+import type { UserRole } from "@shared/schema";
+
+export type Agent = ReturnType<typeof request.agent>;
+
+export const PASSWORD = "correct horse battery";
+
+// The app as server/index.ts builds it, minus Vite and the listening server
+export async function createTestApp(): Promise<Express> {
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+  app.use(express.urlencoded({ extended: false }));
+  app.use(cookieParser());
+  await registerRoutes(app);
+  return app;
+}
+
+let usernameCounter = 0;
+
+// Usernames are unique per test run, since every test in a file shares one storage
+export function uniqueUsername(prefix: string): string {
+  usernameCounter += 1;
+  return `${prefix}-${usernameCounter}`;
+}
+
+// Sign up the first account, which becomes the owner
+export async function registerOwner(app: Express): Promise<Agent> {
+  const agent = request.agent(app);
+  await agent
+    .post("/api/register")
+    .send({ username: uniqueUsername("owner"), password: PASSWORD })
+    .expect(201);
+  return agent;
+}
+
+// Invite a team member through the owner and sign them up with the invitation
+export async function registerMember(app: Express, owner: Agent, role: UserRole): Promise<{ agent: Agent; id: number; username: string }> {
+  const invitation = await owner.post("/api/admin/invitations").send({ role }).expect(201);
+
+  const agent = request.agent(app);
+  const username = uniqueUsername(role);
+  const response = await agent
+    .post("/api/register")
+    .send({ username, password: PASSWORD, inviteToken: invitation.body.token })
+    .expect(201);
+  return { agent, id: response.body.id, username };
+}
+
+let productCounter = 0;
+
+// Create a product through the API; the name stays unique so searches can find it
+export async function createProduct(staff: Agent, fields: Record<string, unknown> = {}) {
+  productCounter += 1;
+  const response = await staff
+    .post("/api/products")
+    .send({
+      name: `Test product ${productCounter}`,
+      description: "A product created by the test suite",
+      images: [],
+      stockQuantity: 1,
+      ...fields,
+    })
+    .expect(201);
+  return response.body as { id: number; name: string };
+}
+
+let categoryCounter = 0;
+
+export async function createCategory(staff: Agent, fields: Record<string, unknown> = {}) {
+  categoryCounter += 1;
+  const response = await staff
+    .post("/api/categories")
+    .send({ name: `Test category ${categoryCounter}`, defaultPrice: 10, ...fields })
+    .expect(201);
+  return response.body as { id: number; name: string; defaultPrice: number };
+}
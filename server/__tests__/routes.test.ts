@@ -0,0 +1,880 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import sharp from "sharp";
+import type { Express } from "express";
+import { generateTotp } from "../totp";
+import { PASSWORD, createCategory, createProduct, createTestApp, registerMember, registerOwner, uniqueUsername, type Agent } from "./helpers";
+
+let app: Express;
+let owner: Agent;
+let staff: Agent;
+let viewer: Agent;
+
+beforeAll(async () => {
+  app = await createTestApp();
+  owner = await registerOwner(app);
+  staff = (await registerMember(app, owner, "staff")).agent;
+  viewer = (await registerMember(app, owner, "viewer")).agent;
+});
+
+describe("health", () => {
+  it("reports the in-memory storage", async () => {
+    const response = await request(app).get("/api/health").expect(200);
+    expect(response.body).toEqual({ status: "ok", storage: "memory" });
+  });
+});
+
+describe("auth", () => {
+  it("returns the signed-in user without secrets", async () => {
+    const response = await owner.get("/api/user").expect(200);
+    expect(response.body.role).toBe("owner");
+    expect(response.body).not.toHaveProperty("password");
+    expect(response.body).not.toHaveProperty("totpSecret");
+  });
+
+  it("rejects anonymous requests", async () => {
+    await request(app).get("/api/user").expect(401);
+    await request(app).get("/api/orders").expect(401);
+  });
+
+  it("requires an invitation once the owner exists", async () => {
+    const response = await request(app)
+      .post("/api/register")
+      .send({ username: uniqueUsername("stranger"), password: PASSWORD })
+      .expect(400);
+    expect(response.body.message).toMatch(/invitation is required/);
+  });
+
+  it("rejects a duplicate username", async () => {
+    const { username } = await registerMember(app, owner, "viewer");
+    await request(app).post("/api/register").send({ username, password: PASSWORD }).expect(400);
+  });
+
+  it("signs up invited members with the invited role, once per invitation", async () => {
+    const invitation = await owner.post("/api/admin/invitations").send({ role: "staff" }).expect(201);
+    expect(invitation.body.token).toEqual(expect.any(String));
+    expect(invitation.body).not.toHaveProperty("tokenHash");
+
+    const registered = await request(app)
+      .post("/api/register")
+      .send({ username: uniqueUsername("invited"), password: PASSWORD, inviteToken: invitation.body.token })
+      .expect(201);
+    expect(registered.body.role).toBe("staff");
+
+    await request(app)
+      .post("/api/register")
+      .send({ username: uniqueUsername("invited"), password: PASSWORD, inviteToken: invitation.body.token })
+      .expect(400);
+  });
+
+  it("lists and revokes invitations", async () => {
+    const invitation = await owner.post("/api/admin/invitations").send({ role: "viewer" }).expect(201);
+
+    const listed = await owner.get("/api/admin/invitations").expect(200);
+    expect(listed.body.map((item: { id: number }) => item.id)).toContain(invitation.body.id);
+    expect(listed.body[0]).not.toHaveProperty("tokenHash");
+
+    await owner.delete(`/api/admin/invitations/${invitation.body.id}`).expect(200);
+    await owner.delete(`/api/admin/invitations/${invitation.body.id}`).expect(404);
+    const audit = await owner
+      .get("/api/admin/audit")
+      .query({ entityType: "invitation", entityId: invitation.body.id })
+      .expect(200);
+    expect((audit.body.data ?? audit.body).filter((event: { action: string }) => event.action === "delete")).toHaveLength(1);
+    await request(app)
+      .post("/api/register")
+      .send({ username: uniqueUsername("revoked"), password: PASSWORD, inviteToken: invitation.body.token })
+      .expect(400);
+  });
+
+  it("logs in and out with a password", async () => {
+    const { username } = await registerMember(app, owner, "viewer");
+    const agent = request.agent(app);
+
+    await agent.post("/api/login").send({ username, password: "wrong password" }).expect(401);
+    const login = await agent.post("/api/login").send({ username, password: PASSWORD }).expect(200);
+    expect(login.body.username).toBe(username);
+    await agent.get("/api/user").expect(200);
+
+    await agent.post("/api/logout").expect(200);
+    await agent.get("/api/user").expect(401);
+  });
+
+  it("changes the password after checking the current one", async () => {
+    const { agent, username } = await registerMember(app, owner, "viewer");
+    const newPassword = "an even better password";
+
+    await agent.post("/api/user/password").send({ currentPassword: "nope", newPassword }).expect(400);
+    await agent.post("/api/user/password").send({ currentPassword: PASSWORD, newPassword: "short" }).expect(400);
+    await agent.post("/api/user/password").send({ currentPassword: PASSWORD, newPassword }).expect(200);
+
+    await request(app).post("/api/login").send({ username, password: PASSWORD }).expect(401);
+    await request(app).post("/api/login").send({ username, password: newPassword }).expect(200);
+  });
+
+  it("enrolls in two-factor authentication and requires a code to log in", async () => {
+    const { agent, username } = await registerMember(app, owner, "staff");
+
+    await agent.post("/api/user/2fa/enable").send({ code: "123456" }).expect(400);
+    const setup = await agent.post("/api/user/2fa/setup").expect(200);
+    expect(setup.body.otpauthUrl).toMatch(/^otpauth:\/\/totp\//);
+    const secret: string = setup.body.secret;
+
+    await agent.post("/api/user/2fa/enable").send({ code: "000000" }).expect(400);
+    const enabled = await agent.post("/api/user/2fa/enable").send({ code: generateTotp(secret) }).expect(200);
+    expect(enabled.body.user.totpEnabled).toBe(true);
+    const recoveryCodes: string[] = enabled.body.recoveryCodes;
+    expect(recoveryCodes).toHaveLength(10);
+
+    // The password alone only starts the sign-in
+    const device = request.agent(app);
+    const login = await device.post("/api/login").send({ username, password: PASSWORD }).expect(200);
+    expect(login.body).toEqual({ twoFactorRequired: true });
+    await device.get("/api/user").expect(401);
+
+    await device.post("/api/login/2fa").send({ code: "000000" }).expect(401);
+    await device.post("/api/login/2fa").send({ code: recoveryCodes[0] }).expect(200);
+    await device.get("/api/user").expect(200);
+
+    // A recovery code only works once
+    const again = request.agent(app);
+    await again.post("/api/login").send({ username, password: PASSWORD }).expect(200);
+    await again.post("/api/login/2fa").send({ code: recoveryCodes[0] }).expect(401);
+
+    const regenerated = await agent
+      .post("/api/user/2fa/recovery-codes")
+      .send({ code: recoveryCodes[1] })
+      .expect(200);
+    expect(regenerated.body.recoveryCodes).toHaveLength(10);
+    await agent.post("/api/user/2fa/recovery-codes").send({ code: recoveryCodes[2] }).expect(400);
+
+    await agent.post("/api/user/2fa/disable").send({ password: "wrong" }).expect(400);
+    const disabled = await agent.post("/api/user/2fa/disable").send({ password: PASSWORD }).expect(200);
+    expect(disabled.body.totpEnabled).toBe(false);
+    await request(app).post("/api/login").send({ username, password: PASSWORD }).expect(200);
+  });
+
+  it("answers the second step without a pending sign-in with 401", async () => {
+    await request(app).post("/api/login/2fa").send({ code: "123456" }).expect(401);
+  });
+});
+
+describe("roles", () => {
+  it("lets viewers read but not change", async () => {
+    await viewer.get("/api/orders").expect(200);
+    await viewer.get("/api/carts").expect(200);
+    await viewer.post("/api/categories").send({ name: "Viewer category", defaultPrice: 1 }).expect(403);
+    await viewer.get("/api/admin/trash").expect(403);
+  });
+
+  it("keeps team management to owners", async () => {
+    await staff.get("/api/admin/users").expect(403);
+    await staff.get("/api/admin/settings").expect(403);
+    await staff.post("/api/admin/invitations").send({ role: "staff" }).expect(403);
+  });
+});
+
+describe("admin users", () => {
+  it("lists users without password hashes", async () => {
+    const response = await owner.get("/api/admin/users").expect(200);
+    expect(response.body.length).toBeGreaterThanOrEqual(3);
+    expect(response.body[0]).not.toHaveProperty("password");
+  });
+
+  it("changes roles and keeps at least one owner", async () => {
+    const member = await registerMember(app, owner, "viewer");
+    const promoted = await owner.patch(`/api/admin/users/${member.id}`).send({ role: "staff" }).expect(200);
+    expect(promoted.body.role).toBe("staff");
+    await member.agent.get("/api/admin/trash").expect(200);
+
+    const me = await owner.get("/api/user").expect(200);
+    await owner.patch(`/api/admin/users/${me.body.id}`).send({ role: "staff" }).expect(409);
+    await owner.delete(`/api/admin/users/${me.body.id}`).expect(409);
+    await owner.patch(`/api/admin/users/${member.id}`).send({}).expect(400);
+  });
+
+  it("signs out and locks out disabled users", async () => {
+    const member = await registerMember(app, owner, "staff");
+    await owner.patch(`/api/admin/users/${member.id}`).send({ disabled: true }).expect(200);
+
+    await member.agent.get("/api/user").expect(401);
+    await request(app).post("/api/login").send({ username: member.username, password: PASSWORD }).expect(401);
+  });
+
+  it("holds users who must reset their password", async () => {
+    const member = await registerMember(app, owner, "staff");
+    await owner.patch(`/api/admin/users/${member.id}`).send({ mustResetPassword: true }).expect(200);
+    const response = await member.agent.get("/api/admin/trash").expect(403);
+    expect(response.body.message).toBe("Password reset required");
+  });
+
+  it("deletes users", async () => {
+    const member = await registerMember(app, owner, "viewer");
+    await owner.delete(`/api/admin/users/${member.id}`).expect(200);
+    await owner.delete(`/api/admin/users/${member.id}`).expect(404);
+    await member.agent.get("/api/user").expect(401);
+  });
+});
+
+describe("admin settings", () => {
+  it("requires two-factor setup for the team once enabled", async () => {
+    const settings = await owner.get("/api/admin/settings").expect(200);
+    expect(settings.body.requireTwoFactor).toBe(false);
+
+    // The owner must be enrolled before turning the requirement on
+    const admin = await registerMember(app, owner, "owner");
+    await admin.agent.patch("/api/admin/settings").send({ requireTwoFactor: true }).expect(400);
+    const setup = await admin.agent.post("/api/user/2fa/setup").expect(200);
+    await admin.agent.post("/api/user/2fa/enable").send({ code: generateTotp(setup.body.secret) }).expect(200);
+
+    try {
+      const updated = await admin.agent.patch("/api/admin/settings").send({ requireTwoFactor: true }).expect(200);
+      expect(updated.body.requireTwoFactor).toBe(true);
+
+      const blocked = await staff.get("/api/admin/trash").expect(403);
+      expect(blocked.body.message).toBe("Two-factor authentication setup required");
+      const user = await staff.get("/api/user").expect(200);
+      expect(user.body.twoFactorSetupRequired).toBe(true);
+    } finally {
+      await admin.agent.patch("/api/admin/settings").send({ requireTwoFactor: false }).expect(200);
+    }
+    await staff.get("/api/admin/trash").expect(200);
+  });
+});
+
+describe("admin audit", () => {
+  it("records changes with their author", async () => {
+    const category = await createCategory(staff);
+    const response = await owner
+      .get("/api/admin/audit")
+      .query({ entityType: "category", entityId: category.id })
+      .expect(200);
+    expect(response.body.data ?? response.body).toEqual(
+      expect.arrayContaining([expect.objectContaining({ action: "create", entityId: category.id })])
+    );
+  });
+
+  it("rejects invalid filters", async () => {
+    await owner.get("/api/admin/audit").query({ entityType: "spaceship" }).expect(400);
+  });
+
+  it("lists failed logins", async () => {
+    const username = uniqueUsername("nobody");
+    await request(app).post("/api/login").send({ username, password: "wrong" }).expect(401);
+    const response = await owner.get("/api/admin/login-attempts").expect(200);
+    expect(response.body).toEqual(expect.arrayContaining([expect.objectContaining({ username })]));
+  });
+});
+
+describe("categories", () => {
+  it("creates nested categories and lists them with product counts", async () => {
+    const parent = await createCategory(staff, { defaultPrice: 20 });
+    const child = await createCategory(staff, { parentId: parent.id });
+    await createProduct(staff, { categories: [child.id] });
+
+    const response = await request(app).get("/api/categories").expect(200);
+    const listed = response.body.find((category: { id: number }) => category.id === parent.id);
+    expect(listed.productCount).toBe(1);
+    expect(response.body.find((category: { id: number }) => category.id === child.id).parentId).toBe(parent.id);
+  });
+
+  it("validates and keeps names unique", async () => {
+    const category = await createCategory(staff);
+    await staff.post("/api/categories").send({ name: "Priceless", defaultPrice: "free" }).expect(400);
+    await staff.post("/api/categories").send({ name: category.name, defaultPrice: 5 }).expect(409);
+  });
+
+  it("updates a category and refuses loops", async () => {
+    const parent = await createCategory(staff);
+    const child = await createCategory(staff, { parentId: parent.id });
+
+    const renamed = await staff.patch(`/api/categories/${parent.id}`).send({ name: `${parent.name} renamed` }).expect(200);
+    expect(renamed.body.name).toBe(`${parent.name} renamed`);
+    await staff.patch(`/api/categories/${parent.id}`).send({ parentId: child.id }).expect(400);
+    await staff.patch(`/api/categories/${parent.id}`).send({}).expect(400);
+    await staff.patch("/api/categories/999999").send({ defaultPrice: 1 }).expect(404);
+  });
+
+  it("reorders siblings", async () => {
+    const parent = await createCategory(staff);
+    const first = await createCategory(staff, { parentId: parent.id });
+    const second = await createCategory(staff, { parentId: parent.id });
+
+    await staff.post("/api/categories/reorder").send({ categoryIds: [second.id, first.id] }).expect(200);
+    const response = await request(app).get("/api/categories").expect(200);
+    const sortOrder = (id: number) => response.body.find((category: { id: number }) => category.id === id).sortOrder;
+    expect(sortOrder(second.id)).toBeLessThan(sortOrder(first.id));
+
+    await staff.post("/api/categories/reorder").send({ categoryIds: [parent.id, first.id] }).expect(400);
+  });
+
+  it("previews a price change, counting only draft carts", async () => {
+    const category = await createCategory(staff, { defaultPrice: 10 });
+    const product = await createProduct(staff, { categories: [category.id], stockQuantity: 5 });
+
+    // A submitted cart keeps its price; only the draft is repriced
+    await request(app).post("/api/carts").send({ customerName: "Frozen", items: [{ productId: product.id, quantity: 1 }] }).expect(201);
+    await request.agent(app).post("/api/cart/items").send({ productId: product.id }).expect(201);
+
+    const preview = await staff.get(`/api/categories/${category.id}/price-preview`).query({ defaultPrice: 12 }).expect(200);
+    expect(preview.body).toMatchObject({
+      currentPrice: 10,
+      newPrice: 12,
+      affectedProductCount: 1,
+      affectedCartCount: 1,
+    });
+    await staff.get(`/api/categories/${category.id}/price-preview`).query({ defaultPrice: -1 }).expect(400);
+    await staff.get("/api/categories/999999/price-preview").query({ defaultPrice: 1 }).expect(404);
+  });
+
+  it("records price history", async () => {
+    const category = await createCategory(staff, { defaultPrice: 10 });
+    await staff.patch(`/api/categories/${category.id}`).send({ defaultPrice: 15 }).expect(200);
+
+    const history = await viewer.get(`/api/categories/${category.id}/price-history`).expect(200);
+    expect(history.body[0]).toMatchObject({ oldPrice: 10, newPrice: 15 });
+  });
+
+  it("moves deleted categories to the trash", async () => {
+    const category = await createCategory(staff);
+    await staff.delete(`/api/categories/${category.id}`).expect(200);
+    await staff.delete(`/api/categories/${category.id}`).expect(404);
+
+    const response = await request(app).get("/api/categories").expect(200);
+    expect(response.body.map((item: { id: number }) => item.id)).not.toContain(category.id);
+  });
+});
+
+describe("products", () => {
+  it("creates products priced from their category", async () => {
+    const category = await createCategory(staff, { defaultPrice: 25 });
+    const product = await createProduct(staff, { categories: [category.id], stockQuantity: 3 });
+    expect(product).toMatchObject({ effectivePrice: 25, stockQuantity: 3, availableQuantity: 3 });
+
+    await staff.post("/api/products").send({ name: "No description" }).expect(400);
+    await viewer.post("/api/products").send({ name: "x", description: "y", images: [] }).expect(403);
+  });
+
+  it("searches by name and description", async () => {
+    const product = await createProduct(staff, { name: "Zanzibar teapot", description: "Glazed stoneware" });
+
+    const byName = await request(app).get("/api/products").query({ q: "zanzi" }).expect(200);
+    expect(byName.body.data.map((item: { id: number }) => item.id)).toEqual([product.id]);
+
+    const byDescription = await request(app).get("/api/products").query({ q: "stoneware" }).expect(200);
+    expect(byDescription.body.data.map((item: { id: number }) => item.id)).toContain(product.id);
+  });
+
+  it("pages through every product once with a cursor", async () => {
+    const category = await createCategory(staff);
+    const created = [];
+    for (let i = 0; i < 5; i++) {
+      created.push(await createProduct(staff, { categories: [category.id] }));
+    }
+
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = await request(app)
+        .get("/api/products")
+        .query({ categoryId: category.id, limit: 2, sort: "name_asc", ...(cursor ? { cursor } : {}) })
+        .expect(200);
+      expect(response.body.totalCount).toBe(5);
+      seen.push(...response.body.data.map((item: { id: number }) => item.id));
+      cursor = response.body.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen.sort((a, b) => a - b)).toEqual(created.map(product => product.id));
+  });
+
+  it("rejects bad query parameters", async () => {
+    await request(app).get("/api/products").query({ cursor: "not-a-cursor" }).expect(400);
+    await request(app).get("/api/products").query({ sort: "random" }).expect(400);
+    await request(app).get("/api/products").query({ minPrice: "cheap" }).expect(400);
+    await request(app).get("/api/products").query({ addedSince: "yesterday" }).expect(400);
+  });
+
+  it("filters by price range and availability", async () => {
+    const category = await createCategory(staff, { defaultPrice: 5 });
+    const cheap = await createProduct(staff, { categories: [category.id] });
+    const pricey = await createProduct(staff, { categories: [category.id], customPrice: 500 });
+    await staff.patch(`/api/products/${pricey.id}`).send({ customPrice: 500 }).expect(200);
+    const hidden = await createProduct(staff, { categories: [category.id], isAvailable: false });
+
+    const inRange = await request(app).get("/api/products").query({ categoryId: category.id, minPrice: 100 }).expect(200);
+    expect(inRange.body.data.map((item: { id: number }) => item.id)).toEqual([pricey.id]);
+
+    const available = await request(app).get("/api/products").query({ categoryId: category.id, isAvailable: "true" }).expect(200);
+    const ids = available.body.data.map((item: { id: number }) => item.id);
+    expect(ids).toContain(cheap.id);
+    expect(ids).not.toContain(hidden.id);
+  });
+
+  it("updates fields, categories, stock and lot pricing", async () => {
+    const first = await createCategory(staff, { defaultPrice: 10 });
+    const second = await createCategory(staff, { defaultPrice: 30 });
+    const product = await createProduct(staff, { categories: [first.id] });
+
+    const updated = await staff
+      .patch(`/api/products/${product.id}`)
+      .send({ name: "Renamed", categories: [second.id], stockQuantity: 8, priceTiers: [{ minQuantity: 4, unitPrice: 20 }] })
+      .expect(200);
+    expect(updated.body).toMatchObject({ name: "Renamed", stockQuantity: 8, effectivePrice: 30 });
+    expect(updated.body.categories.map((category: { id: number }) => category.id)).toEqual([second.id]);
+
+    await staff.patch(`/api/products/${product.id}`).send({ stockQuantity: -1 }).expect(400);
+    await staff.patch(`/api/products/${product.id}`).send({ categories: "all" }).expect(400);
+    await staff.patch("/api/products/999999").send({ name: "Missing" }).expect(404);
+  });
+
+  it("caches the cheapest category price, which is the price charged", async () => {
+    const cheap = await createCategory(staff, { defaultPrice: 10 });
+    const dear = await createCategory(staff, { defaultPrice: 30 });
+    const product = await createProduct(staff, { categories: [dear.id, cheap.id] });
+    expect(product).toMatchObject({ categoryPrice: 10, effectivePrice: 10 });
+
+    await staff.patch(`/api/categories/${cheap.id}`).send({ defaultPrice: 40 }).expect(200);
+    const raised = await request(app).get("/api/products").query({ q: product.name }).expect(200);
+    expect(raised.body.data[0]).toMatchObject({ categoryPrice: 30, effectivePrice: 30 });
+
+    const edited = await staff.patch(`/api/products/${product.id}`).send({ categories: [cheap.id, dear.id] }).expect(200);
+    expect(edited.body).toMatchObject({ categoryPrice: 30, effectivePrice: 30 });
+  });
+
+  it("only writes the editable product fields", async () => {
+    const product = await createProduct(staff, { stockQuantity: 2 });
+
+    const updated = await staff
+      .patch(`/api/products/${product.id}`)
+      .send({ description: "Edited", deletedAt: new Date().toISOString(), createdAt: "2000-01-01T00:00:00.000Z", categoryPrice: 1 })
+      .expect(200);
+    expect(updated.body).toMatchObject({ description: "Edited", deletedAt: null, categoryPrice: null });
+    expect(updated.body.createdAt).not.toBe("2000-01-01T00:00:00.000Z");
+
+    await staff.patch(`/api/products/${product.id}`).send({ stockQuantity: "lots" }).expect(400);
+    await staff.patch(`/api/products/${product.id}`).send({ isAvailable: "yes" }).expect(400);
+    const after = await request(app).get("/api/products").query({ q: product.name }).expect(200);
+    expect(after.body.data[0].stockQuantity).toBe(2);
+  });
+
+  it("keeps categories when only the custom price changes and records the price", async () => {
+    const category = await createCategory(staff, { defaultPrice: 10 });
+    const product = await createProduct(staff, { categories: [category.id] });
+
+    const updated = await staff.patch(`/api/products/${product.id}`).send({ customPrice: 7 }).expect(200);
+    expect(updated.body.effectivePrice).toBe(7);
+    expect(updated.body.categories.map((item: { id: number }) => item.id)).toEqual([category.id]);
+
+    const history = await viewer.get(`/api/products/${product.id}/price-history`).expect(200);
+    expect(history.body[0]).toMatchObject({ newPrice: 7 });
+  });
+
+  it("assigns a category to many products at once", async () => {
+    const category = await createCategory(staff, { defaultPrice: 40 });
+    const products = [await createProduct(staff), await createProduct(staff)];
+
+    const response = await staff
+      .post("/api/products/bulk-assign-category")
+      .send({ productIds: products.map(product => product.id), categoryId: category.id })
+      .expect(200);
+    expect(response.body.updatedCount).toBe(2);
+    expect(response.body.products.every((product: { effectivePrice: number }) => product.effectivePrice === 40)).toBe(true);
+
+    await staff.post("/api/products/bulk-assign-category").send({ productIds: [], categoryId: category.id }).expect(400);
+    await staff.post("/api/products/bulk-assign-category").send({ productIds: ["1"], categoryId: category.id }).expect(400);
+    await staff.post("/api/products/bulk-assign-category").send({ productIds: [products[0].id], categoryId: 999999 }).expect(404);
+  });
+
+  it("moves deleted products to the trash", async () => {
+    const product = await createProduct(staff);
+    await staff.delete(`/api/products/${product.id}`).expect(200);
+    await staff.delete(`/api/products/${product.id}`).expect(404);
+
+    const response = await request(app).get("/api/products").query({ q: product.name }).expect(200);
+    expect(response.body.data.map((item: { id: number }) => item.id)).not.toContain(product.id);
+  });
+});
+
+describe("images", () => {
+  it("stores uploads and serves them by key", async () => {
+    const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#336699" } }).png().toBuffer();
+
+    const uploaded = await staff.post("/api/images").set("Content-Type", "image/png").send(png).expect(201);
+    expect(uploaded.body.url).toMatch(/^\/images\//);
+
+    const served = await request(app).get(uploaded.body.url).expect(200);
+    expect(served.headers["content-type"]).toBe("image/png");
+    expect(served.headers["cache-control"]).toContain("immutable");
+  });
+
+  it("rejects unsupported and undecodable uploads", async () => {
+    await staff.post("/api/images").set("Content-Type", "text/plain").send("hello").expect(415);
+    await staff.post("/api/images").set("Content-Type", "image/png").send(Buffer.from("not an image")).expect(400);
+    await viewer.post("/api/images").set("Content-Type", "image/png").send(Buffer.from("x")).expect(403);
+  });
+
+  it("answers unknown keys with 404", async () => {
+    await request(app).get(`/images/${"0".repeat(64)}.png`).expect(404);
+  });
+});
+
+describe("draft cart", () => {
+  it("fills, edits and clears the visitor's cart", async () => {
+    const product = await createProduct(staff, { stockQuantity: 3 });
+    const other = await createProduct(staff, { stockQuantity: 3 });
+    const customer = request.agent(app);
+
+    expect((await customer.get("/api/cart").expect(200)).body).toBeNull();
+
+    const added = await customer.post("/api/cart/items").send({ productId: product.id, quantity: 2 }).expect(201);
+    expect(added.headers["set-cookie"]?.[0]).toMatch(/^cart_token=/);
+    expect(added.body.status).toBe("draft");
+    expect(added.body.items).toEqual([expect.objectContaining({ productId: product.id, quantity: 2 })]);
+
+    // Adding the same product again buys more of it, up to the stock
+    await customer.post("/api/cart/items").send({ productId: product.id, quantity: 2 }).expect(409);
+    const more = await customer.post("/api/cart/items").send({ productId: product.id, quantity: 1 }).expect(201);
+    expect(more.body.items[0].quantity).toBe(3);
+
+    const lowered = await customer.patch(`/api/cart/items/${product.id}`).send({ quantity: 1 }).expect(200);
+    expect(lowered.body.items[0].quantity).toBe(1);
+    await customer.patch(`/api/cart/items/${product.id}`).send({ quantity: 4 }).expect(409);
+    await customer.patch(`/api/cart/items/${other.id}`).send({ quantity: 1 }).expect(404);
+
+    await customer.post("/api/cart/items").send({ productId: other.id }).expect(201);
+    const removed = await customer.delete(`/api/cart/items/${product.id}`).expect(200);
+    expect(removed.body.items.map((item: { productId: number }) => item.productId)).toEqual([other.id]);
+
+    const cleared = await customer.delete("/api/cart/items").expect(200);
+    expect(cleared.body).toMatchObject({ items: [], total: 0 });
+  });
+
+  it("refuses missing and unavailable products", async () => {
+    const hidden = await createProduct(staff, { isAvailable: false });
+    await request(app).post("/api/cart/items").send({ productId: 999999 }).expect(404);
+    await request(app).post("/api/cart/items").send({ productId: hidden.id }).expect(409);
+    await request(app).post("/api/cart/items").send({ productId: "one" }).expect(400);
+  });
+
+  it("opens a shared cart on another device", async () => {
+    const product = await createProduct(staff);
+    const phone = request.agent(app);
+    const cart = await phone.post("/api/cart/items").send({ productId: product.id }).expect(201);
+
+    const laptop = request.agent(app);
+    await laptop.post(`/api/cart/resume/${cart.body.token}`).expect(200);
+    expect((await laptop.get("/api/cart").expect(200)).body.id).toBe(cart.body.id);
+    await laptop.post("/api/cart/resume/not-a-token").expect(404);
+  });
+
+  it("submits the cart with contact details and holds its products", async () => {
+    const product = await createProduct(staff, { stockQuantity: 2 });
+    const customer = request.agent(app);
+
+    await customer.post("/api/cart/submit").send({ customerName: "Ada" }).expect(404);
+    await customer.post("/api/cart/items").send({ productId: product.id, quantity: 2 }).expect(201);
+    await customer.post("/api/cart/submit").send({ customerName: "" }).expect(400);
+    await customer.post("/api/cart/submit").send({ customerName: "Ada", customerEmail: "not-an-email" }).expect(400);
+
+    const submitted = await customer
+      .post("/api/cart/submit")
+      .send({ customerName: "Ada", customerEmail: "ada@example.com", fulfillmentMethod: "pickup" })
+      .expect(200);
+    expect(submitted.body).toMatchObject({ status: "submitted", customerName: "Ada" });
+    expect(submitted.body.holdExpiresAt).toEqual(expect.any(String));
+    expect((await customer.get("/api/cart").expect(200)).body).toBeNull();
+
+    // Both units are on hold for Ada
+    const held = await request(app).post("/api/cart/items").send({ productId: product.id }).expect(409);
+    expect(held.body.availableQuantity).toBe(0);
+  });
+
+  it("reports products another cart claimed first on submit", async () => {
+    const product = await createProduct(staff, { stockQuantity: 1 });
+    const slow = request.agent(app);
+    await slow.post("/api/cart/items").send({ productId: product.id }).expect(201);
+    await request(app).post("/api/carts").send({ customerName: "Fast", items: [{ productId: product.id }] }).expect(201);
+
+    const response = await slow.post("/api/cart/submit").send({ customerName: "Slow" }).expect(409);
+    expect(response.body.unavailableItems).toEqual([expect.objectContaining({ productId: product.id })]);
+  });
+});
+
+describe("api carts", () => {
+  it("prices the cart on the server and reports what changed", async () => {
+    const product = await createProduct(staff, { stockQuantity: 12, customPrice: null, priceTiers: [{ minQuantity: 10, unitPrice: 3 }] });
+    await staff.patch(`/api/products/${product.id}`).send({ customPrice: 5 }).expect(200);
+
+    const response = await request(app)
+      .post("/api/carts")
+      .send({ customerName: "Grace", items: [{ productId: product.id, quantity: 10, name: "Old name", price: 5 }] })
+      .expect(201);
+    expect(response.body.items[0]).toMatchObject({ productId: product.id, price: 3, quantity: 10 });
+    expect(response.body.total).toBe(30);
+    expect(response.body.diff).toEqual([{
+      productId: product.id,
+      name: { expected: "Old name", actual: product.name },
+      price: { expected: 5, actual: 3 },
+    }]);
+  });
+
+  it("validates items and rejects claimed products", async () => {
+    const product = await createProduct(staff, { stockQuantity: 1 });
+    await request(app).post("/api/carts").send({ customerName: "x", items: [] }).expect(400);
+    await request(app)
+      .post("/api/carts")
+      .send({ customerName: "x", items: [{ productId: product.id }, { productId: product.id }] })
+      .expect(400);
+
+    await request(app).post("/api/carts").send({ customerName: "First", items: [{ productId: product.id }] }).expect(201);
+    const conflict = await request(app)
+      .post("/api/carts")
+      .send({ customerName: "Second", items: [{ productId: product.id }] })
+      .expect(409);
+    expect(conflict.body.unavailableItems).toEqual([{ productId: product.id, name: `Product #${product.id}` }]);
+  });
+
+  it("lists submitted carts for the team and searches them", async () => {
+    const product = await createProduct(staff);
+    const cart = await request(app)
+      .post("/api/carts")
+      .send({ customerName: "Searchable Sam", customerPhone: "555 0100", items: [{ productId: product.id }] })
+      .expect(201);
+    await request.agent(app).post("/api/cart/items").send({ productId: (await createProduct(staff)).id }).expect(201);
+
+    const all = await viewer.get("/api/carts").expect(200);
+    expect(all.body.data.every((item: { status: string }) => item.status !== "draft")).toBe(true);
+
+    const found = await viewer.get("/api/carts").query({ q: "searchable" }).expect(200);
+    expect(found.body.data.map((item: { id: number }) => item.id)).toEqual([cart.body.id]);
+    await request(app).get("/api/carts").expect(401);
+  });
+
+  it("removes items and carts", async () => {
+    const products = [await createProduct(staff), await createProduct(staff)];
+    const cart = await request(app)
+      .post("/api/carts")
+      .send({ customerName: "Removals", items: products.map(product => ({ productId: product.id })) })
+      .expect(201);
+
+    await staff.delete(`/api/carts/${cart.body.id}/items/${cart.body.items[0].id}`).expect(200);
+    const listed = await staff.get("/api/carts").query({ q: "Removals" }).expect(200);
+    expect(listed.body.data[0].items).toHaveLength(1);
+
+    await staff.delete(`/api/carts/${cart.body.id}`).expect(200);
+    await staff.delete(`/api/carts/${cart.body.id}`).expect(404);
+    // The holds went with the cart
+    await request(app).post("/api/cart/items").send({ productId: products[1].id }).expect(201);
+  });
+
+  it("sells a cart once, releasing its holds, and converts it without deducting again", async () => {
+    const product = await createProduct(staff, { stockQuantity: 5 });
+    const cart = await request(app)
+      .post("/api/carts")
+      .send({ customerName: "Buyer", items: [{ productId: product.id, quantity: 2 }] })
+      .expect(201);
+
+    const sold = await staff.post(`/api/carts/${cart.body.id}/make-items-unavailable`).expect(200);
+    expect(sold.body.updatedProducts[0]).toMatchObject({ stockQuantity: 3, availableQuantity: 3 });
+    await staff.post(`/api/carts/${cart.body.id}/make-items-unavailable`).expect(409);
+
+    // The sold units are no longer held, so another cart can take the rest
+    await request(app)
+      .post("/api/carts")
+      .send({ customerName: "Next", items: [{ productId: product.id, quantity: 3 }] })
+      .expect(201);
+
+    const order = await staff.post(`/api/carts/${cart.body.id}/convert-to-order`).expect(201);
+    expect(order.body).toMatchObject({ status: "pending", customerName: "Buyer" });
+    const after = await request(app).get("/api/products").query({ q: product.name }).expect(200);
+    expect(after.body.data[0].stockQuantity).toBe(3);
+  });
+
+  it("converts a submitted cart into an order and takes its stock", async () => {
+    const product = await createProduct(staff, { stockQuantity: 2 });
+    const cart = await request(app)
+      .post("/api/carts")
+      .send({ customerName: "Converted", items: [{ productId: product.id, quantity: 2 }] })
+      .expect(201);
+
+    const order = await staff.post(`/api/carts/${cart.body.id}/convert-to-order`).expect(201);
+    expect(order.body.items).toEqual([expect.objectContaining({ productId: product.id, quantity: 2 })]);
+    await staff.post(`/api/carts/${cart.body.id}/convert-to-order`).expect(404);
+
+    const after = await request(app).get("/api/products").query({ q: product.name }).expect(200);
+    expect(after.body.data[0]).toMatchObject({ stockQuantity: 0, isAvailable: false });
+  });
+
+  it("converts a cart only once when two converts race", async () => {
+    const product = await createProduct(staff, { stockQuantity: 3 });
+    const cart = await request(app)
+      .post("/api/carts")
+      .send({ customerName: "Twice", items: [{ productId: product.id, quantity: 1 }] })
+      .expect(201);
+
+    const responses = await Promise.all([
+      staff.post(`/api/carts/${cart.body.id}/convert-to-order`),
+      staff.post(`/api/carts/${cart.body.id}/convert-to-order`),
+    ]);
+    // The loser sees the cart gone before or while it converts
+    const [winner, loser] = responses.map(response => response.status).sort();
+    expect(winner).toBe(201);
+    expect([404, 409]).toContain(loser);
+
+    const orders = await viewer.get("/api/orders").expect(200);
+    expect(orders.body.filter((order: { cartId: number }) => order.cartId === cart.body.id)).toHaveLength(1);
+    const after = await request(app).get("/api/products").query({ q: product.name }).expect(200);
+    expect(after.body.data[0].stockQuantity).toBe(2);
+  });
+
+  it("only converts submitted carts", async () => {
+    const product = await createProduct(staff);
+    const draft = await request.agent(app).post("/api/cart/items").send({ productId: product.id }).expect(201);
+    await staff.post(`/api/carts/${draft.body.id}/convert-to-order`).expect(409);
+    await staff.post(`/api/carts/${draft.body.id}/make-items-unavailable`).expect(409);
+  });
+});
+
+describe("promotions", () => {
+  it("discounts products in the promoted categories while running", async () => {
+    const category = await createCategory(staff, { defaultPrice: 50 });
+    const product = await createProduct(staff, { categories: [category.id] });
+    const now = Date.now();
+
+    const created = await staff
+      .post("/api/promotions")
+      .send({
+        name: "Half off",
+        percentOff: 50,
+        startsAt: new Date(now - 60_000).toISOString(),
+        endsAt: new Date(now + 60_000).toISOString(),
+        categoryIds: [category.id],
+      })
+      .expect(201);
+
+    const discounted = await request(app).get("/api/products").query({ q: product.name }).expect(200);
+    expect(discounted.body.data[0]).toMatchObject({ regularPrice: 50, effectivePrice: 25, discountPercent: 50 });
+
+    const listed = await viewer.get("/api/promotions").expect(200);
+    expect(listed.body.map((promotion: { id: number }) => promotion.id)).toContain(created.body.id);
+
+    const updated = await staff
+      .patch(`/api/promotions/${created.body.id}`)
+      .send({ ...created.body, percentOff: 10, categoryIds: [category.id], productIds: [] })
+      .expect(200);
+    expect(updated.body.percentOff).toBe(10);
+
+    await staff.delete(`/api/promotions/${created.body.id}`).expect(200);
+    await staff.delete(`/api/promotions/${created.body.id}`).expect(404);
+    const restored = await request(app).get("/api/products").query({ q: product.name }).expect(200);
+    expect(restored.body.data[0].effectivePrice).toBe(50);
+  });
+
+  it("validates promotions", async () => {
+    const startsAt = new Date().toISOString();
+    const endsAt = new Date(Date.now() + 60_000).toISOString();
+    await staff.post("/api/promotions").send({ name: "Nothing", percentOff: 10, startsAt, endsAt }).expect(400);
+    await staff.post("/api/promotions").send({ name: "Backwards", percentOff: 10, startsAt: endsAt, endsAt: startsAt, productIds: [1] }).expect(400);
+    await staff.post("/api/promotions").send({ name: "Ghost", percentOff: 10, startsAt, endsAt, productIds: [999999] }).expect(400);
+    await staff.patch("/api/promotions/999999").send({ name: "Missing", percentOff: 10, startsAt, endsAt, productIds: [1] }).expect(404);
+  });
+});
+
+describe("trash", () => {
+  it("restores and purges products", async () => {
+    const product = await createProduct(staff);
+    const purged = await createProduct(staff);
+    await staff.delete(`/api/products/${product.id}`).expect(200);
+    await staff.delete(`/api/products/${purged.id}`).expect(200);
+
+    const trash = await staff.get("/api/admin/trash").expect(200);
+    expect(trash.body.retentionDays).toEqual(expect.any(Number));
+    expect(trash.body.products.map((item: { id: number }) => item.id)).toEqual(expect.arrayContaining([product.id, purged.id]));
+
+    const restored = await staff.post(`/api/admin/trash/products/${product.id}/restore`).expect(200);
+    expect(restored.body.id).toBe(product.id);
+    await staff.post(`/api/admin/trash/products/${product.id}/restore`).expect(404);
+
+    await staff.delete(`/api/admin/trash/products/${product.id}`).expect(404);
+    await staff.delete(`/api/admin/trash/products/${purged.id}`).expect(200);
+    const after = await staff.get("/api/admin/trash").expect(200);
+    expect(after.body.products.map((item: { id: number }) => item.id)).not.toContain(purged.id);
+  });
+
+  it("restores and purges categories", async () => {
+    const category = await createCategory(staff);
+    const purged = await createCategory(staff);
+    await staff.delete(`/api/categories/${category.id}`).expect(200);
+    await staff.delete(`/api/categories/${purged.id}`).expect(200);
+
+    const trash = await staff.get("/api/admin/trash").expect(200);
+    expect(trash.body.categories.map((item: { id: number }) => item.id)).toEqual(expect.arrayContaining([category.id, purged.id]));
+
+    await staff.post(`/api/admin/trash/categories/${category.id}/restore`).expect(200);
+    await staff.post(`/api/admin/trash/categories/${category.id}/restore`).expect(404);
+    await staff.delete(`/api/admin/trash/categories/${purged.id}`).expect(200);
+    await staff.delete(`/api/admin/trash/categories/${purged.id}`).expect(404);
+
+    // A purged category's name is free again
+    await staff.post("/api/categories").send({ name: purged.name, defaultPrice: 1 }).expect(201);
+  });
+});
+
+describe("orders", () => {
+  const orderItem = { productId: 1, name: "Mug", description: "A mug", images: [], price: 8, quantity: 1 };
+
+  it("creates orders as pending whatever status is sent", async () => {
+    const created = await staff
+      .post("/api/orders")
+      .send({ customerName: "Olive", items: [orderItem], status: "completed" })
+      .expect(201);
+    expect(created.body).toMatchObject({ status: "pending", completedAt: null });
+
+    await staff.post("/api/orders").send({ customerName: "Olive", items: [] }).expect(400);
+    await viewer.post("/api/orders").send({ customerName: "Olive", items: [orderItem] }).expect(403);
+  });
+
+  it("reads orders", async () => {
+    const created = await staff.post("/api/orders").send({ customerName: "Reader", items: [orderItem] }).expect(201);
+
+    const listed = await viewer.get("/api/orders").expect(200);
+    expect(listed.body.map((order: { id: number }) => order.id)).toContain(created.body.id);
+    const fetched = await viewer.get(`/api/orders/${created.body.id}`).expect(200);
+    expect(fetched.body.customerName).toBe("Reader");
+    await viewer.get("/api/orders/999999").expect(404);
+    await viewer.get("/api/orders/abc").expect(400);
+  });
+
+  it("moves orders through the lifecycle, recording each step", async () => {
+    const created = await staff.post("/api/orders").send({ customerName: "Lifecycle", items: [orderItem] }).expect(201);
+    const id = created.body.id;
+
+    await staff.patch(`/api/orders/${id}/status`).send({ status: "shipped" }).expect(409);
+    for (const status of ["confirmed", "packed", "shipped", "completed"]) {
+      const updated = await staff.patch(`/api/orders/${id}/status`).send({ status }).expect(200);
+      expect(updated.body.status).toBe(status);
+    }
+
+    const done = await viewer.get(`/api/orders/${id}`).expect(200);
+    expect(done.body.confirmedAt && done.body.packedAt && done.body.shippedAt && done.body.completedAt).toBeTruthy();
+    await staff.patch(`/api/orders/${id}/status`).send({ status: "cancelled" }).expect(409);
+    await staff.patch(`/api/orders/${id}/status`).send({ status: "lost" }).expect(400);
+    await staff.patch("/api/orders/999999/status").send({ status: "confirmed" }).expect(404);
+  });
+
+  it("lets only one of two competing status changes through", async () => {
+    const created = await staff.post("/api/orders").send({ customerName: "Race", items: [orderItem] }).expect(201);
+
+    const [cancel, confirm] = await Promise.all([
+      staff.patch(`/api/orders/${created.body.id}/status`).send({ status: "cancelled" }),
+      staff.patch(`/api/orders/${created.body.id}/status`).send({ status: "confirmed" }),
+    ]);
+    expect([cancel.status, confirm.status].sort()).toEqual([200, 409]);
+  });
+
+  it("deletes orders", async () => {
+    const created = await staff.post("/api/orders").send({ customerName: "Deleted", items: [orderItem] }).expect(201);
+    await staff.delete(`/api/orders/${created.body.id}`).expect(200);
+    await staff.delete(`/api/orders/${created.body.id}`).expect(404);
+  });
+});
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it } from "vitest";
+// storage.ts loads mem-storage itself; importing it first keeps the app's load order
+import { ReservationConflictError } from "../storage";
+import { MemStorage } from "../mem-storage";
+import { createCategory, createProduct, createTestApp, registerOwner } from "./helpers";
+
+let storage: MemStorage;
+
+async function addProduct(name: string, stockQuantity: number) {
+  const now = new Date();
+  return storage.createProduct({
+    name,
+    description: `${name} for the rollback tests`,
+    images: [],
+    fullImages: [],
+    customPrice: 10,
+    categoryPrice: null,
+    isAvailable: true,
+    stockQuantity,
+    priceTiers: [],
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+  });
+}
+
+beforeEach(() => {
+  storage = new MemStorage();
+});
+
+describe("storage.transaction", () => {
+  it("keeps every write when fn returns", async () => {
+    const category = await storage.transaction(async (tx) => {
+      const created = await tx.createCategory({ name: "Kept", defaultPrice: 5 });
+      await tx.updateCategory(created.id, { defaultPrice: 6 });
+      return created;
+    });
+
+    expect((await storage.getCategory(category.id))?.defaultPrice).toBe(6);
+  });
+
+  it("leaves no partial writes when fn throws", async () => {
+    const product = await addProduct("Untouched", 4);
+    const before = await storage.getProducts();
+
+    await expect(storage.transaction(async (tx) => {
+      const category = await tx.createCategory({ name: "Rolled back", defaultPrice: 5 });
+      await tx.addProductCategories(product.id, [category.id]);
+      await tx.deductStock(product.id, 3);
+      throw new Error("fail after writing");
+    })).rejects.toThrow("fail after writing");
+
+    expect(await storage.getCategories()).toEqual([]);
+    expect(await storage.getProductCategories(product.id)).toEqual([]);
+    expect(await storage.getProducts()).toEqual(before);
+
+    // Ids handed out inside the failed unit of work are given out again
+    const next = await storage.createCategory({ name: "After", defaultPrice: 1 });
+    expect(next.id).toBe(1);
+  });
+});
+
+describe("createCart", () => {
+  it("rolls the cart, its items and its holds back on a reservation conflict", async () => {
+    const plenty = await addProduct("Plenty", 5);
+    const scarce = await addProduct("Scarce", 1);
+    await storage.createCart({ customerName: "First", items: [{ productId: scarce.id, quantity: 1 }] });
+    const carts = await storage.getCarts();
+
+    const attempt = storage.createCart({
+      customerName: "Second",
+      items: [
+        { productId: plenty.id, quantity: 2 },
+        { productId: scarce.id, quantity: 1 },
+      ],
+    });
+    await expect(attempt).rejects.toBeInstanceOf(ReservationConflictError);
+
+    expect(await storage.getCarts()).toEqual(carts);
+    // Nothing of the plentiful product stayed on hold for the failed cart
+    expect((await storage.getProduct(plenty.id))?.availableQuantity).toBe(5);
+  });
+});
+
+describe("convertCartToOrder", () => {
+  it("converts a cart once and deducts its stock once", async () => {
+    const product = await addProduct("Converted", 3);
+    const cart = await storage.createCart({ customerName: "Once", items: [{ productId: product.id, quantity: 2 }] });
+
+    expect(await storage.convertCartToOrder(cart.id)).toMatchObject({ cartId: cart.id, status: "pending" });
+    expect(await storage.convertCartToOrder(cart.id)).toBeUndefined();
+
+    expect(await storage.getOrders()).toHaveLength(1);
+    expect((await storage.getProduct(product.id))?.stockQuantity).toBe(1);
+  });
+
+  it("refuses draft carts", async () => {
+    const product = await addProduct("Drafted", 3);
+    const draft = await storage.createDraftCart();
+    await storage.addCartItem(draft.id, product, 1);
+
+    expect(await storage.convertCartToOrder(draft.id)).toBeUndefined();
+    expect((await storage.getProduct(product.id))?.stockQuantity).toBe(3);
+  });
+});
+
+describe("PATCH /api/products/:id", () => {
+  it("keeps the product's categories and fields when replacing them fails", async () => {
+    const app = await createTestApp();
+    const owner = await registerOwner(app);
+    const kept = await createCategory(owner);
+    const replacement = await createCategory(owner);
+    const product = await createProduct(owner, { categories: [kept.id] });
+
+    // The missing category fails after the old assignments were removed
+    await owner
+      .patch(`/api/products/${product.id}`)
+      .send({ name: "Renamed", categories: [replacement.id, 999999] })
+      .expect(500);
+
+    const after = await owner.get("/api/products").query({ q: product.name }).expect(200);
+    expect(after.body.data).toHaveLength(1);
+    expect(after.body.data[0].name).toBe(product.name);
+    expect(after.body.data[0].categories.map((category: { id: number }) => category.id)).toEqual([kept.id]);
+  });
+});
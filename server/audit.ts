@@ -0,0 +1,64 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { AuditAction, AuditChanges, AuditEntityType, Cart, Product } from "@shared/schema";
+
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: number | null;
+  summary: string;
+  // Snapshots of the entity; omit before for creates and after for deletes
+  before?: object | null;
+  after?: object | null;
+}
+
+export function diffRecords(before?: object | null, after?: object | null): AuditChanges {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  new Set(Object.keys(from).concat(Object.keys(to))).forEach(key => {
+    if (IGNORED_FIELDS.has(key)) return;
+    // Values are plain data from the database, so JSON equality is enough
+    if (JSON.stringify(from[key]) !== JSON.stringify(to[key])) {
+      changes[key] = { before: from[key] ?? null, after: to[key] ?? null };
+    }
+  });
+  return changes;
+}
+
+// Products are audited with category names rather than full category rows
+export function productSnapshot(product: Product | undefined) {
+  if (!product) return null;
+  return { ...product, categories: product.categories?.map(category => category.name) ?? [] };
+}
+
+export function cartSnapshot(cart: Cart | undefined) {
+  if (!cart) return null;
+  const { items, token, ...rest } = cart;
+  return { ...rest, items: items.map(item => `${item.quantity} × ${item.name} ($${item.price})`) };
+}
+
+/**
+ * Record one or more changes made by the signed-in user. Failures are logged
+ * rather than thrown so a problem with the log never undoes the change itself.
+ */
+export async function recordAudit(req: Request, entries: AuditEntry | AuditEntry[]): Promise<void> {
+  const list = Array.isArray(entries) ? entries : [entries];
+  try {
+    await storage.createAuditEvents(list.map(entry => ({
+      userId: req.user?.id ?? null,
+      username: req.user?.username ?? "system",
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      summary: entry.summary,
+      changes: diffRecords(entry.before, entry.after),
+    })));
+  } catch (error) {
+    console.error('Error recording audit events:', error);
+  }
+}
@@ -1,11 +1,14 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response, type NextFunction } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { createLoginThrottle, sendTooManyAttempts } from "./login-throttle";
+import { generateTotpSecret, totpUri, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from "./totp";
+import QRCode from "qrcode";
+import { User as SelectUser, PublicUser, UserRole, hasRole, changePasswordSchema, twoFactorCodeSchema } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,8 +16,17 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Password checked, waiting for the second factor
+    pendingTwoFactor?: { userId: number; username: string; expiresAt: number };
+  }
+}
+
+const TOTP_ISSUER = "Abused Goods";
+const PENDING_TWO_FACTOR_MS = 5 * 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
-const ADMIN_SECRET_CODE = "abused";
 
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
@@ -29,6 +41,66 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+export function toPublicUser({ password, totpSecret, totpLastUsedStep, recoveryCodes, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+async function twoFactorSetupRequired(user: SelectUser): Promise<boolean> {
+  if (user.totpEnabled) return false;
+  const settings = await storage.getAppSettings();
+  return settings.requireTwoFactor;
+}
+
+// The signed-in user as returned to the client, with any pending account requirements
+async function sessionUser(user: SelectUser): Promise<PublicUser> {
+  return { ...toPublicUser(user), twoFactorSetupRequired: await twoFactorSetupRequired(user) };
+}
+
+/**
+ * Check a TOTP code, falling back to a recovery code. Both are consumed so
+ * the same code cannot be used twice.
+ */
+async function verifySecondFactor(user: SelectUser, code: string): Promise<boolean> {
+  if (!user.totpEnabled || !user.totpSecret) return false;
+  const step = verifyTotp(user.totpSecret, code);
+  if (step !== null) {
+    return storage.consumeTotpStep(user.id, step);
+  }
+  return storage.consumeRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+export function generateInvitationToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+// Invitation tokens are random, so a fast unsalted hash is enough to keep them out of the database
+export function hashInvitationToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Replaces the old isAdmin check: allows signed-in users with at least the given role
+export function requireRole(role: UserRole) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ message: `${role[0].toUpperCase()}${role.slice(1)} privileges required` });
+    }
+    if (req.user.mustResetPassword) {
+      return res.status(403).json({ message: "Password reset required" });
+    }
+    try {
+      if (await twoFactorSetupRequired(req.user)) {
+        return res.status(403).json({ message: "Two-factor authentication setup required" });
+      }
+    } catch (error) {
+      return next(error);
+    }
+    next();
+  };
+}
+
 export function setupAuth(app: Express) {
   if (!process.env.SESSION_SECRET) {
     throw new Error('SESSION_SECRET environment variable is required');
@@ -68,6 +140,11 @@ export function setupAuth(app: Express) {
           return done(null, false, { message: "Invalid username or password" });
         }
 
+        if (user.disabled) {
+          console.log(`Login for disabled user: ${username}`);
+          return done(null, false, { message: "This account has been disabled" });
+        }
+
         console.log(`Successful login for user: ${username}`);
         return done(null, user);
       } catch (error) {
@@ -81,8 +158,9 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      if (!user) {
-        return done(new Error('User not found'));
+      // Deleted or disabled users are signed out on their next request
+      if (!user || user.disabled) {
+        return done(null, false);
       }
       done(null, user);
     } catch (error) {
@@ -101,45 +179,131 @@ export function setupAuth(app: Express) {
       const users = await storage.getUsers();
       const isFirstUser = users.length === 0;
 
-      // Check if attempting to create an admin account
-      const requestedAdmin = req.body.secretCode === ADMIN_SECRET_CODE;
-
-      // Only allow admin creation for first user or with correct secret code
-      const isAdmin = isFirstUser || requestedAdmin;
+      let user: SelectUser | undefined;
+      if (isFirstUser) {
+        // The first account bootstraps the team as its owner
+        user = await storage.createUser({
+          username: req.body.username,
+          password: await hashPassword(req.body.password),
+          role: "owner",
+        });
+      } else {
+        if (typeof req.body.inviteToken !== "string" || !req.body.inviteToken) {
+          return res.status(400).json({ message: "An invitation is required to register" });
+        }
 
-      // If not first user and trying to register without secret code
-      if (!isFirstUser && !requestedAdmin) {
-        return res.status(400).json({ message: "Secret code is required for registration" });
+        user = await storage.createUserFromInvitation(hashInvitationToken(req.body.inviteToken), {
+          username: req.body.username,
+          password: await hashPassword(req.body.password),
+        });
+        if (!user) {
+          return res.status(400).json({ message: "This invitation is invalid, expired or has already been used" });
+        }
       }
 
-      const user = await storage.createUser({
-        username: req.body.username,
-        password: await hashPassword(req.body.password),
-        isAdmin
-      });
-
-      req.login(user, (err) => {
+      req.login(user!, async (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        try {
+          res.status(201).json(await sessionUser(user!));
+        } catch (error) {
+          next(error);
+        }
       });
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+  const loginThrottle = createLoginThrottle();
+
+  const recordFailure = async (req: Request, username: unknown, reason: string) => {
+    try {
+      await loginThrottle.recordFailure(req, username);
+      await storage.recordFailedLogin({
+        username: String(username ?? ""),
+        ipAddress: req.ip,
+        reason,
+      });
+    } catch (error) {
+      console.error('Error recording failed login:', error);
+    }
+  };
+
+  const completeLogin = (req: Request, res: Response, next: NextFunction, user: SelectUser) => {
+    // Passport regenerates the session here, which also drops any pending 2FA state
+    req.login(user, async (err) => {
+      if (err) return next(err);
+      try {
+        await loginThrottle.recordSuccess(req, user.username);
+        try {
+          await storage.recordLogin(user.id);
+        } catch (error) {
+          // Not worth failing the login over
+          console.error('Error recording login time:', error);
+        }
+        res.status(200).json(await sessionUser(user));
+      } catch (error) {
+        next(error);
+      }
+    });
+  };
+
+  app.post("/api/login", loginThrottle.middleware, (req, res, next) => {
+    passport.authenticate("local", async (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
       if (err) return next(err);
       if (!user) {
-        return res.status(401).json({ message: info?.message || "Authentication failed" });
+        const message = info?.message || "Authentication failed";
+        await recordFailure(req, req.body?.username, message);
+        return res.status(401).json({ message });
       }
-      req.login(user, (err) => {
-        if (err) return next(err);
-        res.status(200).json(user);
-      });
+
+      if (user.totpEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          username: user.username,
+          expiresAt: Date.now() + PENDING_TWO_FACTOR_MS,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
+      completeLogin(req, res, next, user);
     })(req, res, next);
   });
 
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please enter your password again." });
+      }
+
+      // Codes are throttled against the username whose password was just checked
+      const retryAfter = await loginThrottle.retryAfter(req, pending.username);
+      if (retryAfter > 0) return sendTooManyAttempts(res, retryAfter);
+
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.disabled) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Authentication failed" });
+      }
+
+      if (!(await verifySecondFactor(user, parsed.data.code))) {
+        await recordFailure(req, pending.username, "Invalid two-factor code");
+        return res.status(401).json({ message: "Invalid two-factor code" });
+      }
+
+      completeLogin(req, res, next, user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -147,8 +311,129 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    try {
+      res.json(await sessionUser(req.user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/password", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+
+      const parsed = changePasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message ?? "Invalid password data",
+          errors: parsed.error.errors
+        });
+      }
+
+      if (!(await comparePasswords(parsed.data.currentPassword, req.user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUserPassword(req.user.id, await hashPassword(parsed.data.newPassword));
+      const user = await storage.getUser(req.user.id);
+      res.json(await sessionUser(user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor enrollment. These stay reachable while setup is required.
+  app.post("/api/user/2fa/setup", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      if (req.user.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      // The secret is stored now but only trusted once a code from it is confirmed
+      const secret = generateTotpSecret();
+      await storage.updateTwoFactor(req.user.id, { totpSecret: secret, totpLastUsedStep: null });
+
+      const otpauthUrl = totpUri(secret, req.user.username, TOTP_ISSUER);
+      res.json({
+        secret,
+        otpauthUrl,
+        qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/enable", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      if (req.user.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!req.user.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      const step = parsed.success ? verifyTotp(req.user.totpSecret, parsed.data.code) : null;
+      if (step === null) {
+        return res.status(400).json({ message: "That code is not valid. Check the time on your device and try again." });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const user = await storage.updateTwoFactor(req.user.id, {
+        totpEnabled: true,
+        totpLastUsedStep: step,
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      });
+      res.json({ user: await sessionUser(user!), recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/recovery-codes", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success || !(await verifySecondFactor(req.user, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid two-factor code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateTwoFactor(req.user.id, { recoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/disable", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+
+      if (typeof req.body?.password !== "string" || !(await comparePasswords(req.body.password, req.user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+
+      const settings = await storage.getAppSettings();
+      if (settings.requireTwoFactor) {
+        return res.status(400).json({ message: "Two-factor authentication is required for all team members" });
+      }
+
+      const user = await storage.updateTwoFactor(req.user.id, {
+        totpEnabled: false,
+        totpSecret: null,
+        totpLastUsedStep: null,
+        recoveryCodes: [],
+      });
+      res.json(await sessionUser(user!));
+    } catch (error) {
+      next(error);
+    }
   });
 }
\ No newline at end of file
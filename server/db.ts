@@ -1,18 +1,39 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePostgres, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
-neonConfig.webSocketConstructor = ws;
-
-if (!process.env.DATABASE_URL) {
+// The in-memory storage (STORAGE=memory) never opens a connection, so it runs without one
+if (!process.env.DATABASE_URL && process.env.STORAGE !== 'memory') {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
 }
 
-console.log('Initializing database connection...');
-export const pool = new Pool({ 
+export type DatabaseDriver = 'neon' | 'node-postgres';
+
+/**
+ * Neon's serverless driver tunnels Postgres over WebSockets, which only Neon
+ * endpoints accept; any other URL is an ordinary server reached with
+ * node-postgres. DATABASE_DRIVER overrides the choice, e.g. for a Neon proxy
+ * on a custom domain.
+ */
+export function databaseDriverFor(url: string): DatabaseDriver {
+  const override = process.env.DATABASE_DRIVER;
+  if (override === 'neon' || override === 'node-postgres') return override;
+
+  try {
+    return new URL(url).hostname.endsWith('.neon.tech') ? 'neon' : 'node-postgres';
+  } catch {
+    return 'node-postgres';
+  }
+}
+
+export const driver = databaseDriverFor(process.env.DATABASE_URL ?? '');
+
+const poolConfig: pg.PoolConfig = {
   connectionString: process.env.DATABASE_URL,
   ssl: process.env.NODE_ENV === 'production' ? {
     rejectUnauthorized: false,
@@ -22,7 +43,20 @@ export const pool = new Pool({
   connectionTimeoutMillis: 10000, // Increase timeout for production
   keepAlive: true,
   keepAliveInitialDelayMillis: 1000,
-});
+};
+
+console.log(`Initializing database connection (${driver})...`);
+
+// Neon's Pool mirrors node-postgres's, so the rest of the app only sees pg.Pool
+function createPool(): pg.Pool {
+  if (driver === 'neon') {
+    neonConfig.webSocketConstructor = ws;
+    return new NeonPool(poolConfig) as unknown as pg.Pool;
+  }
+  return new pg.Pool(poolConfig);
+}
+
+export const pool = createPool();
 
 // Add error handler for the pool
 pool.on('error', (err) => {
@@ -31,21 +65,60 @@ pool.on('error', (err) => {
   setTimeout(() => {
     console.log('Attempting to reconnect to database...');
     pool.connect()
-      .then(() => console.log('Successfully reconnected to database'))
+      .then(client => {
+        client.release();
+        console.log('Successfully reconnected to database');
+      })
       .catch(error => console.error('Failed to reconnect:', error));
   }, 5000);
 });
 
-// Handle process termination
-process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, closing pool...');
+// Both drivers return node-postgres results, so queries are typed against node-postgres either way
+export const db: NodePgDatabase<typeof schema> = driver === 'neon'
+  ? drizzleNeon(pool as unknown as NeonPool, { schema }) as unknown as NodePgDatabase<typeof schema>
+  : drizzleNodePostgres(pool, { schema });
+
+export interface DatabaseHealth {
+  ok: boolean;
+  driver: DatabaseDriver;
+  latencyMs: number;
+  error?: string;
+}
+
+// Round trip to the database, failing if it takes longer than timeoutMs
+export async function checkDatabaseHealth(timeoutMs = 5000): Promise<DatabaseHealth> {
+  const start = Date.now();
+  let timer: NodeJS.Timeout | undefined;
   try {
-    await pool.end();
-    console.log('Pool closed successfully');
-  } catch (err) {
-    console.error('Error closing pool:', err);
+    await Promise.race([
+      pool.query('SELECT 1'),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`No response within ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+    return { ok: true, driver, latencyMs: Date.now() - start };
+  } catch (error) {
+    return {
+      ok: false,
+      driver,
+      latencyMs: Date.now() - start,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timer);
   }
-  process.exit(0);
-});
+}
+
+let closing: Promise<void> | undefined;
 
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+// Close the pool once, waiting for checked-out clients; later calls share the first
+export function closeDatabase(): Promise<void> {
+  closing ??= pool.end().then(
+    () => console.log('Database pool closed'),
+    (error) => {
+      console.error('Error closing database pool:', error);
+      throw error;
+    },
+  );
+  return closing;
+}
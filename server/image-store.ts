@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+
+export const IMAGE_URL_PREFIX = "/images";
+
+const extensionsByContentType: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+const contentTypesByExtension: Record<string, string> = Object.fromEntries(
+  Object.entries(extensionsByContentType).map(([type, ext]) => [ext, type])
+);
+
+export const SUPPORTED_IMAGE_TYPES = Object.keys(extensionsByContentType);
+
+export interface StoredImage {
+  key: string;
+  url: string;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Backend-agnostic image storage. Keys are derived from the image contents,
+ * so the same bytes always map to the same URL and can be cached forever.
+ */
+export interface ImageStore {
+  put(data: Buffer, contentType: string, key?: string): Promise<StoredImage>;
+  get(key: string): Promise<{ data: Buffer; contentType: string } | undefined>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export function imageKeyFor(data: Buffer, contentType: string): string {
+  const extension = extensionsByContentType[contentType];
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${contentType}`);
+  }
+  const hash = createHash("sha256").update(data).digest("hex");
+  return `${hash}.${extension}`;
+}
+
+export function imageUrlFor(key: string): string {
+  return `${IMAGE_URL_PREFIX}/${key}`;
+}
+
+export function isValidImageKey(key: string): boolean {
+  return /^[a-f0-9]{64}(-(thumb|card|full))?\.(jpg|png|webp|gif)$/.test(key);
+}
+
+export function contentTypeForKey(key: string): string | undefined {
+  return contentTypesByExtension[path.extname(key).slice(1)];
+}
+
+export function parseDataUrl(value: string): { contentType: string; data: Buffer } | null {
+  const match = /^data:([a-z]+\/[a-z0-9.+-]+);base64,([\s\S]*)$/.exec(value);
+  if (!match) return null;
+  return {
+    contentType: match[1],
+    data: Buffer.from(match[2], "base64"),
+  };
+}
+
+export class LocalDiskImageStore implements ImageStore {
+  constructor(private readonly rootDir: string) {
+    fs.mkdirSync(rootDir, { recursive: true });
+  }
+
+  private pathFor(key: string): string {
+    if (!isValidImageKey(key)) {
+      throw new Error(`Invalid image key: ${key}`);
+    }
+    // Fan out into two-character directories to keep folder sizes manageable
+    return path.join(this.rootDir, key.slice(0, 2), key);
+  }
+
+  async put(data: Buffer, contentType: string, key = imageKeyFor(data, contentType)): Promise<StoredImage> {
+    const filePath = this.pathFor(key);
+
+    if (!(await this.exists(key))) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temp file first so readers never see a partial image
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, filePath);
+    }
+
+    return { key, url: imageUrlFor(key), contentType, size: data.length };
+  }
+
+  async get(key: string): Promise<{ data: Buffer; contentType: string } | undefined> {
+    const contentType = contentTypeForKey(key);
+    if (!contentType || !isValidImageKey(key)) return undefined;
+
+    try {
+      const data = await fs.promises.readFile(this.pathFor(key));
+      return { data, contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.pathFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+}
+
+function createImageStore(): ImageStore {
+  const backend = process.env.IMAGE_STORE ?? "local";
+  switch (backend) {
+    case "local":
+      return new LocalDiskImageStore(
+        path.resolve(process.env.IMAGE_STORAGE_DIR ?? path.join("uploads", "images"))
+      );
+    default:
+      throw new Error(`Unknown IMAGE_STORE backend: ${backend}`);
+  }
+}
+
+export const imageStore = createImageStore();
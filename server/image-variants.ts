@@ -0,0 +1,65 @@
+import sharp from "sharp";
+import { IMAGE_VARIANTS, IMAGE_VARIANT_FORMATS, ImageVariant, ImageVariantFormat } from "@shared/images";
+import { imageStore, imageKeyFor, imageUrlFor, StoredImage } from "./image-store";
+
+const variantContentTypes: Record<ImageVariantFormat, string> = {
+  jpg: "image/jpeg",
+  webp: "image/webp",
+};
+
+export interface StoredImageVariant {
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+export type StoredImageWithVariants = StoredImage & {
+  variants: Record<ImageVariant, Record<ImageVariantFormat, StoredImageVariant>>;
+};
+
+async function renderVariant(source: Buffer, maxSize: number, format: ImageVariantFormat) {
+  // rotate() applies the EXIF orientation before metadata is stripped
+  const pipeline = sharp(source)
+    .rotate()
+    .resize({ width: maxSize, height: maxSize, fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" });
+
+  const encoded = format === "webp"
+    ? pipeline.webp({ quality: 75 })
+    : pipeline.jpeg({ quality: 80, progressive: true, mozjpeg: true });
+
+  return encoded.toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * Store an uploaded image along with its resized JPEG and WebP variants.
+ * Variant keys share the original's content hash, e.g. `<hash>-thumb.webp`.
+ */
+export async function storeImageWithVariants(data: Buffer, contentType: string): Promise<StoredImageWithVariants> {
+  // Reject anything sharp cannot decode before it reaches the store
+  await sharp(data).metadata();
+
+  const original = await imageStore.put(data, contentType);
+  const hash = imageKeyFor(data, contentType).split(".")[0];
+
+  const variants = {} as StoredImageWithVariants["variants"];
+  for (const [variant, maxSize] of Object.entries(IMAGE_VARIANTS) as [ImageVariant, number][]) {
+    variants[variant] = {} as Record<ImageVariantFormat, StoredImageVariant>;
+
+    for (const format of IMAGE_VARIANT_FORMATS) {
+      const key = `${hash}-${variant}.${format}`;
+      const { data: output, info } = await renderVariant(data, maxSize, format);
+      await imageStore.put(output, variantContentTypes[format], key);
+
+      variants[variant][format] = {
+        url: imageUrlFor(key),
+        width: info.width,
+        height: info.height,
+        size: info.size,
+      };
+    }
+  }
+
+  return { ...original, variants };
+}
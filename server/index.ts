@@ -2,8 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { createServer } from "http";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { pool } from "./db";
+import { closeDatabase } from "./db";
+import { ensureDatabaseSchema } from "./migrate";
+import { startBackgroundJobs } from "./jobs";
 import cors from "cors";
+import cookieParser from "cookie-parser";
 
 const app = express();
 
@@ -19,6 +22,7 @@ app.use(cors({
 }));
 app.use(express.json({ limit: payloadLimit }));
 app.use(express.urlencoded({ extended: false, limit: payloadLimit }));
+app.use(cookieParser());
 
 // Add CORS headers for all routes
 app.use((req, res, next) => {
@@ -61,6 +65,10 @@ app.use((req, res, next) => {
   let httpServer: ReturnType<typeof createServer>;
   try {
     console.log('Starting server initialization...');
+    if (process.env.STORAGE !== 'memory') {
+      console.log('Checking database migrations...');
+      await ensureDatabaseSchema();
+    }
     console.log('Registering routes...');
     httpServer = await registerRoutes(app);
 
@@ -94,19 +102,20 @@ app.use((req, res, next) => {
     httpServer.keepAliveTimeout = 65000;
     httpServer.headersTimeout = 66000;
 
+    const stopBackgroundJobs = startBackgroundJobs();
+
     // Handle termination signals
     const gracefulShutdown = async (signal: string) => {
       console.log(`${signal} received. Starting graceful shutdown...`);
+      stopBackgroundJobs();
 
       if (httpServer) {
         httpServer.close(async () => {
           console.log('HTTP server closed');
           try {
-            await pool.end();
-            console.log('Database pool closed');
+            await closeDatabase();
             process.exit(0);
-          } catch (error) {
-            console.error('Error closing database pool:', error);
+          } catch {
             process.exit(1);
           }
         });
@@ -157,7 +166,7 @@ app.use((req, res, next) => {
         });
       } catch (error) {
         console.error('Server start error:', error);
-        await pool.end();
+        await closeDatabase().catch(() => {});
         process.exit(1);
       }
     };
@@ -169,7 +178,7 @@ app.use((req, res, next) => {
 
   } catch (error) {
     console.error('Failed to initialize application:', error);
-    await pool.end();
+    await closeDatabase().catch(() => {});
     process.exit(1);
   }
 })();
\ No newline at end of file
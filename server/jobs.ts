@@ -0,0 +1,77 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Failed sign-ins older than this are no longer shown to owners
+const LOGIN_ATTEMPT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Trashed products and categories are purged for good after this many days
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || "30");
+
+interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const jobs: BackgroundJob[] = [
+  {
+    name: "release-expired-reservations",
+    intervalMs: 5 * 60 * 1000,
+    run: async () => {
+      const released = await storage.releaseExpiredReservations();
+      if (released > 0) {
+        log(`Released ${released} expired product holds`, "jobs");
+      }
+    },
+  },
+  {
+    name: "purge-login-attempts",
+    intervalMs: 24 * 60 * 60 * 1000,
+    run: async () => {
+      const purged = await storage.deleteFailedLoginsBefore(new Date(Date.now() - LOGIN_ATTEMPT_RETENTION_MS));
+      if (purged > 0) {
+        log(`Purged ${purged} old failed login records`, "jobs");
+      }
+    },
+  },
+  {
+    name: "purge-trash",
+    intervalMs: 24 * 60 * 60 * 1000,
+    run: async () => {
+      const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const { products, categories } = await storage.purgeDeletedBefore(cutoff);
+      if (products > 0 || categories > 0) {
+        log(`Purged ${products} products and ${categories} categories from the trash`, "jobs");
+      }
+    },
+  },
+];
+
+/**
+ * Run each job once at startup and then on its interval. A failing run is
+ * logged and retried on the next tick. Returns a function that stops all jobs.
+ */
+export function startBackgroundJobs(): () => void {
+  const timers = jobs.map((job) => {
+    let running = false;
+    const tick = async () => {
+      // Skip a tick rather than overlap a slow run
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Background job ${job.name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    void tick();
+    const timer = setInterval(tick, job.intervalMs);
+    timer.unref();
+    return timer;
+  });
+
+  return () => timers.forEach(clearInterval);
+}
@@ -0,0 +1,172 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+
+export interface ThrottleEntry {
+  failures: number;
+  lastFailureAt: number;
+  // Requests before this time (ms since epoch) are rejected
+  blockedUntil: number;
+}
+
+/**
+ * Where failure counters live. Entries only need to survive for their ttl,
+ * so a process-local map is enough for a single server.
+ */
+export interface ThrottleStore {
+  get(key: string): Promise<ThrottleEntry | undefined>;
+  set(key: string, entry: ThrottleEntry, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryThrottleStore implements ThrottleStore {
+  private readonly entries = new Map<string, { entry: ThrottleEntry; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async get(key: string): Promise<ThrottleEntry | undefined> {
+    const stored = this.entries.get(key);
+    if (!stored) return undefined;
+    if (stored.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return stored.entry;
+  }
+
+  async set(key: string, entry: ThrottleEntry, ttlMs: number): Promise<void> {
+    // Sweep now and then so keys that are never read again do not pile up
+    if (this.entries.size >= 10000) this.sweep();
+    this.entries.set(key, { entry, expiresAt: this.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private sweep() {
+    const now = this.now();
+    this.entries.forEach((stored, key) => {
+      if (stored.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+}
+
+interface ThrottlePolicy {
+  // Failures allowed before any delay is applied
+  freeAttempts: number;
+  // Failures after which the key is locked out for lockoutMs
+  lockoutAfter: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  lockoutMs: number;
+  // Failure counts are forgotten this long after the last failure
+  resetAfterMs: number;
+}
+
+const MINUTE = 60 * 1000;
+
+// Usernames are the usual target, so they lock out well before an IP does;
+// the IP limit catches one client spraying many usernames.
+const usernamePolicy: ThrottlePolicy = {
+  freeAttempts: 3,
+  lockoutAfter: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: MINUTE,
+  lockoutMs: 15 * MINUTE,
+  resetAfterMs: 15 * MINUTE,
+};
+
+const ipPolicy: ThrottlePolicy = {
+  freeAttempts: 10,
+  lockoutAfter: 50,
+  baseDelayMs: 1000,
+  maxDelayMs: MINUTE,
+  lockoutMs: 30 * MINUTE,
+  resetAfterMs: 30 * MINUTE,
+};
+
+function blockedUntilAfter(failures: number, policy: ThrottlePolicy, now: number): number {
+  if (failures >= policy.lockoutAfter) return now + policy.lockoutMs;
+  if (failures <= policy.freeAttempts) return 0;
+  // Doubles with each failure past the free attempts: 1s, 2s, 4s, ...
+  const delay = policy.baseDelayMs * 2 ** (failures - policy.freeAttempts - 1);
+  return now + Math.min(delay, policy.maxDelayMs);
+}
+
+export function sendTooManyAttempts(res: Response, retryAfter: number) {
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    message: retryAfter > 60
+      ? `Too many failed login attempts. Try again in ${Math.ceil(retryAfter / 60)} minutes.`
+      : `Too many failed login attempts. Try again in ${retryAfter} seconds.`,
+    retryAfter,
+  });
+}
+
+export interface LoginThrottle {
+  // Rejects the request with 429 while its IP or the username in the body is blocked
+  middleware: RequestHandler;
+  // Seconds until the IP and username may try again, or 0 when not blocked
+  retryAfter(req: Request, username: unknown): Promise<number>;
+  recordFailure(req: Request, username: unknown): Promise<void>;
+  recordSuccess(req: Request, username: unknown): Promise<void>;
+}
+
+export function createLoginThrottle({
+  store = new MemoryThrottleStore(),
+  now = Date.now,
+}: { store?: ThrottleStore; now?: () => number } = {}): LoginThrottle {
+  const keysFor = (req: Request, username: unknown) => {
+    const keys: { key: string; policy: ThrottlePolicy }[] = [
+      { key: `ip:${req.ip ?? "unknown"}`, policy: ipPolicy },
+    ];
+    if (typeof username === "string" && username.trim()) {
+      keys.push({ key: `user:${username.trim().toLowerCase()}`, policy: usernamePolicy });
+    }
+    return keys;
+  };
+
+  const retryAfter = async (req: Request, username: unknown) => {
+    const current = now();
+    let blockedUntil = 0;
+    for (const { key } of keysFor(req, username)) {
+      const entry = await store.get(key);
+      if (entry && entry.blockedUntil > blockedUntil) blockedUntil = entry.blockedUntil;
+    }
+    return blockedUntil > current ? Math.ceil((blockedUntil - current) / 1000) : 0;
+  };
+
+  return {
+    middleware: async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const seconds = await retryAfter(req, req.body?.username);
+        if (seconds > 0) return sendTooManyAttempts(res, seconds);
+        next();
+      } catch (error) {
+        next(error);
+      }
+    },
+
+    retryAfter,
+
+    async recordFailure(req, username) {
+      const current = now();
+      for (const { key, policy } of keysFor(req, username)) {
+        const failures = ((await store.get(key))?.failures ?? 0) + 1;
+        const blockedUntil = blockedUntilAfter(failures, policy, current);
+        await store.set(
+          key,
+          { failures, lastFailureAt: current, blockedUntil },
+          Math.max(policy.resetAfterMs, blockedUntil - current)
+        );
+      }
+    },
+
+    async recordSuccess(req, username) {
+      // Only the username is cleared; the IP keeps its count so one valid
+      // account cannot be used to reset a client that is guessing others.
+      if (typeof username === "string" && username.trim()) {
+        await store.delete(`user:${username.trim().toLowerCase()}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,1449 @@
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { randomBytes } from "crypto";
+import { InsertUser, User, UserRole, UpdateUser, AdminInvitation, LoginAttempt, AuditEvent, AuditEventFilters, AuditEventPage, AppSettings, appSettingsSchema, Product, ProductPage, ProductSort, Trash, Cart, CartContact, InsertCart, Category, InsertCategory, UpdateCategory, CategoryPricePreview, PriceHistoryEntry, PriceHistoryEntityType, Promotion, InsertPromotion, CartItem, Order, InsertOrder, OrderItem, OrderStatus, ProductReservation, orderStatusTimestamps } from "@shared/schema";
+import type { products as productsTable, carts as cartsTable, promotions as promotionsTable, priceHistory as priceHistoryTable } from "@shared/schema";
+import { unitPriceForQuantity, cartTotal } from "@shared/pricing";
+import { type IStorage, type ProductQueryOptions, LastOwnerError, CategoryHierarchyError, ReservationConflictError, RESERVATION_HOLD_MS, contactValues, encodeProductCursor, searchTerms } from "./storage";
+
+const MemoryStore = createMemoryStore(session);
+
+type ProductRow = typeof productsTable.$inferSelect;
+type CartRow = typeof cartsTable.$inferSelect;
+type PromotionRow = typeof promotionsTable.$inferSelect;
+type PriceHistoryRow = typeof priceHistoryTable.$inferSelect;
+
+// Every table MemStorage keeps, as plain rows
+interface MemState {
+  users: User[];
+  appSettings: Record<string, unknown>;
+  loginAttempts: LoginAttempt[];
+  auditEvents: AuditEvent[];
+  invitations: AdminInvitation[];
+  categories: Category[];
+  products: ProductRow[];
+  productCategories: { productId: number; categoryId: number }[];
+  priceHistory: PriceHistoryRow[];
+  promotions: PromotionRow[];
+  promotionCategories: { promotionId: number; categoryId: number }[];
+  promotionProducts: { promotionId: number; productId: number }[];
+  carts: CartRow[];
+  cartItems: CartItem[];
+  reservations: ProductReservation[];
+  orders: Order[];
+  // Last id handed out per table, like the serial columns' sequences
+  sequences: Record<string, number>;
+}
+
+function emptyState(): MemState {
+  return {
+    users: [],
+    appSettings: {},
+    loginAttempts: [],
+    auditEvents: [],
+    invitations: [],
+    categories: [],
+    products: [],
+    productCategories: [],
+    priceHistory: [],
+    promotions: [],
+    promotionCategories: [],
+    promotionProducts: [],
+    carts: [],
+    cartItems: [],
+    reservations: [],
+    orders: [],
+    sequences: {},
+  };
+}
+
+// Errors carrying the Postgres constraint codes the routes already translate:
+// 23503 for a missing referenced row, 23505 for a duplicate
+function constraintError(code: '23503' | '23505', message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+// Only the fields a row actually has, skipping undefined ones the way Drizzle's set() does
+function columnUpdates<T extends object>(row: T, updates: object): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([key, value]) => key !== 'id' && key in row && value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Stand-in for the weighted full-text match: every term has to start a word of
+ * the name or description, and name matches rank above description matches.
+ * Returns null when the product does not match. Words are not stemmed.
+ */
+function searchRank(product: { name: string; description: string }, terms: string[]): number | null {
+  const nameWords = searchTerms(product.name);
+  const descriptionWords = searchTerms(product.description);
+  let rank = 0;
+  for (const term of terms) {
+    if (nameWords.some(word => word.startsWith(term))) {
+      rank += 1;
+    } else if (descriptionWords.some(word => word.startsWith(term))) {
+      rank += 0.4;
+    } else {
+      return null;
+    }
+  }
+  return rank / terms.length;
+}
+
+// Value products are ordered by, mirroring DatabaseStorage's sort keys; ties go by id
+interface ProductSortKey {
+  value: (product: Product) => number | string;
+  type: 'number' | 'text';
+  direction: 'asc' | 'desc';
+}
+
+function productSortKey(sort: ProductSort | undefined, ranks: Map<number, number> | null): ProductSortKey {
+  const createdAt = (product: Product) => product.createdAt.getTime();
+  const price = (product: Product) => product.effectivePrice ?? 0;
+  const name = (product: Product) => product.name;
+  switch (sort) {
+    case "oldest":
+      return { value: createdAt, type: 'number', direction: 'asc' };
+    case "price_asc":
+      return { value: price, type: 'number', direction: 'asc' };
+    case "price_desc":
+      return { value: price, type: 'number', direction: 'desc' };
+    case "name_asc":
+      return { value: name, type: 'text', direction: 'asc' };
+    case "name_desc":
+      return { value: name, type: 'text', direction: 'desc' };
+    case "newest":
+      return { value: createdAt, type: 'number', direction: 'desc' };
+    default:
+      return ranks
+        ? { value: product => ranks.get(product.id) ?? 0, type: 'number', direction: 'desc' }
+        : { value: createdAt, type: 'number', direction: 'desc' };
+  }
+}
+
+function compareSortValues(a: number | string, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * IStorage kept entirely in process memory, for running the app and its API
+ * without a database (STORAGE=memory). It follows DatabaseStorage's rules:
+ * soft deletes, category price rollups, promotions, stock holds and cart
+ * snapshots. Data is lost when the process exits.
+ */
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private state: MemState = emptyState();
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
+  }
+
+  /**
+   * Run `fn` as one unit of work: if it throws, every table is put back the
+   * way it was before. Unlike a database transaction this does not isolate
+   * `fn` from requests running at the same time.
+   */
+  async transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    const snapshot = structuredClone(this.state);
+    try {
+      return await fn(this);
+    } catch (error) {
+      this.state = snapshot;
+      throw error;
+    }
+  }
+
+  private nextId(table: keyof MemState): number {
+    const id = (this.state.sequences[table] ?? 0) + 1;
+    this.state.sequences[table] = id;
+    return id;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.state.users
+      .slice()
+      .sort((a, b) => a.id - b.id)
+      .map(user => ({ ...user }));
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const user = this.state.users.find(user => user.id === id);
+    return user && { ...user };
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = this.state.users.find(user => user.username === username);
+    return user && { ...user };
+  }
+
+  private insertUser(insertUser: Pick<InsertUser, 'username' | 'password'>, role: UserRole): User {
+    if (this.state.users.some(user => user.username === insertUser.username)) {
+      throw constraintError('23505', `Username ${insertUser.username} is taken`);
+    }
+
+    const user: User = {
+      id: this.nextId('users'),
+      username: insertUser.username,
+      password: insertUser.password,
+      isAdmin: role !== 'viewer',
+      role,
+      disabled: false,
+      mustResetPassword: false,
+      lastLoginAt: null,
+      createdAt: new Date(),
+      totpSecret: null,
+      totpEnabled: false,
+      totpLastUsedStep: null,
+      recoveryCodes: [],
+    };
+    this.state.users.push(user);
+    return { ...user };
+  }
+
+  async createUser(insertUser: InsertUser & { role?: UserRole }): Promise<User> {
+    const isFirstUser = this.state.users.length === 0;
+    return this.insertUser(insertUser, insertUser.role ?? (isFirstUser ? 'owner' : 'viewer'));
+  }
+
+  private assertOwnerRemains(userId: number): void {
+    const owners = this.state.users.filter(user => user.role === 'owner' && !user.disabled);
+    if (!owners.some(owner => owner.id !== userId)) {
+      throw new LastOwnerError();
+    }
+  }
+
+  async updateUser(id: number, updates: UpdateUser): Promise<User | undefined> {
+    const existing = this.state.users.find(user => user.id === id);
+    if (!existing) return undefined;
+
+    const losesOwner = existing.role === 'owner' && !existing.disabled &&
+      ((updates.role !== undefined && updates.role !== 'owner') || updates.disabled === true);
+    if (losesOwner) {
+      this.assertOwnerRemains(id);
+    }
+
+    Object.assign(existing, columnUpdates(existing, {
+      ...updates,
+      ...(updates.role !== undefined && { isAdmin: updates.role !== 'viewer' }),
+    }));
+    return { ...existing };
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<void> {
+    const user = this.state.users.find(user => user.id === id);
+    if (user) {
+      user.password = password;
+      user.mustResetPassword = false;
+    }
+  }
+
+  async recordLogin(id: number): Promise<void> {
+    const user = this.state.users.find(user => user.id === id);
+    if (user) {
+      user.lastLoginAt = new Date();
+    }
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const existing = this.state.users.find(user => user.id === id);
+    if (!existing) return false;
+
+    if (existing.role === 'owner' && !existing.disabled) {
+      this.assertOwnerRemains(id);
+    }
+
+    this.state.users = this.state.users.filter(user => user.id !== id);
+    // References to the user are cleared, as ON DELETE SET NULL does
+    this.state.auditEvents.forEach(event => { if (event.userId === id) event.userId = null; });
+    this.state.priceHistory.forEach(entry => { if (entry.changedBy === id) entry.changedBy = null; });
+    this.state.invitations.forEach(invitation => {
+      if (invitation.createdBy === id) invitation.createdBy = null;
+      if (invitation.usedBy === id) invitation.usedBy = null;
+    });
+    return true;
+  }
+
+  async updateTwoFactor(id: number, fields: Partial<Pick<User, 'totpSecret' | 'totpEnabled' | 'totpLastUsedStep' | 'recoveryCodes'>>): Promise<User | undefined> {
+    const user = this.state.users.find(user => user.id === id);
+    if (!user) return undefined;
+    Object.assign(user, columnUpdates(user, fields));
+    return { ...user };
+  }
+
+  // Accept a TOTP time step only if it is newer than the last one used
+  async consumeTotpStep(id: number, step: number): Promise<boolean> {
+    const user = this.state.users.find(user => user.id === id);
+    if (!user || (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step)) return false;
+    user.totpLastUsedStep = step;
+    return true;
+  }
+
+  async consumeRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    const user = this.state.users.find(user => user.id === id);
+    if (!user || !user.recoveryCodes.includes(codeHash)) return false;
+    user.recoveryCodes = user.recoveryCodes.filter(code => code !== codeHash);
+    return true;
+  }
+
+  async getAppSettings(): Promise<AppSettings> {
+    // Missing keys fall back to the schema defaults
+    return appSettingsSchema.parse(this.state.appSettings);
+  }
+
+  async updateAppSettings(updates: Partial<AppSettings>): Promise<AppSettings> {
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined) this.state.appSettings[key] = value;
+    });
+    return this.getAppSettings();
+  }
+
+  async createAuditEvents(events: Omit<AuditEvent, 'id' | 'createdAt'>[]): Promise<void> {
+    const createdAt = new Date();
+    events.forEach(event => {
+      this.state.auditEvents.push({ ...event, id: this.nextId('auditEvents'), createdAt });
+    });
+  }
+
+  async getAuditEvents({ userId, entityType, entityId, from, to, cursor, limit: pageLimit }: AuditEventFilters): Promise<AuditEventPage> {
+    const rows = this.state.auditEvents
+      .filter(event =>
+        (userId === undefined || event.userId === userId) &&
+        (!entityType || event.entityType === entityType) &&
+        (entityId === undefined || event.entityId === entityId) &&
+        (!from || event.createdAt >= from) &&
+        (!to || event.createdAt <= to) &&
+        // Ids increase with time, so the id alone works as a newest-first cursor
+        (cursor === undefined || event.id < cursor))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, pageLimit + 1);
+
+    const data = rows.slice(0, pageLimit).map(event => ({ ...event }));
+    return {
+      data,
+      nextCursor: rows.length > pageLimit ? data[data.length - 1].id : null,
+    };
+  }
+
+  async recordFailedLogin(attempt: { username: string; ipAddress?: string; reason: string }): Promise<void> {
+    this.state.loginAttempts.push({
+      id: this.nextId('loginAttempts'),
+      username: attempt.username.slice(0, 255),
+      ipAddress: attempt.ipAddress ?? null,
+      reason: attempt.reason,
+      createdAt: new Date(),
+    });
+  }
+
+  async getFailedLogins(limit = 100): Promise<LoginAttempt[]> {
+    return this.state.loginAttempts
+      .slice()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit)
+      .map(attempt => ({ ...attempt }));
+  }
+
+  async deleteFailedLoginsBefore(cutoff: Date): Promise<number> {
+    const before = this.state.loginAttempts.length;
+    this.state.loginAttempts = this.state.loginAttempts.filter(attempt => attempt.createdAt >= cutoff);
+    return before - this.state.loginAttempts.length;
+  }
+
+  async getInvitations(): Promise<AdminInvitation[]> {
+    return this.state.invitations
+      .slice()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(invitation => ({ ...invitation }));
+  }
+
+  async createInvitation(invitation: { tokenHash: string; role: UserRole; createdBy: number; expiresAt: Date }): Promise<AdminInvitation> {
+    if (this.state.invitations.some(existing => existing.tokenHash === invitation.tokenHash)) {
+      throw constraintError('23505', 'Invitation token already exists');
+    }
+
+    const created: AdminInvitation = {
+      id: this.nextId('invitations'),
+      ...invitation,
+      usedAt: null,
+      usedBy: null,
+      createdAt: new Date(),
+    };
+    this.state.invitations.push(created);
+    return { ...created };
+  }
+
+  async deleteInvitation(id: number): Promise<boolean> {
+    const count = this.state.invitations.length;
+    this.state.invitations = this.state.invitations.filter(invitation => invitation.id !== id);
+    return this.state.invitations.length < count;
+  }
+
+  async createUserFromInvitation(tokenHash: string, insertUser: Pick<InsertUser, 'username' | 'password'>): Promise<User | undefined> {
+    const now = new Date();
+    const invitation = this.state.invitations.find(invitation =>
+      invitation.tokenHash === tokenHash && invitation.usedAt === null && invitation.expiresAt > now
+    );
+    if (!invitation) return undefined;
+
+    // Creating the user first leaves the invitation unused if the username is taken
+    const user = this.insertUser(insertUser, invitation.role as UserRole);
+    invitation.usedAt = now;
+    invitation.usedBy = user.id;
+    return user;
+  }
+
+  // Live categories a product is assigned to
+  private productCategoriesOf(productId: number): Category[] {
+    return this.state.productCategories
+      .filter(assignment => assignment.productId === productId)
+      .map(assignment => this.state.categories.find(category => category.id === assignment.categoryId))
+      .filter((category): category is Category => category !== undefined && category.deletedAt === null)
+      .map(category => ({ ...category }));
+  }
+
+  // The given categories and all of their live subcategories
+  private categorySubtree(rootIds: number[]): number[] {
+    const ids = this.state.categories.filter(category => rootIds.includes(category.id)).map(category => category.id);
+    for (let i = 0; i < ids.length; i++) {
+      this.state.categories.forEach(category => {
+        if (category.parentId === ids[i] && category.deletedAt === null && !ids.includes(category.id)) {
+          ids.push(category.id);
+        }
+      });
+    }
+    return ids;
+  }
+
+  // Largest running promotion on the product or on any of its categories and their live parents
+  private discountPercent(productId: number, categories: Category[], now: Date): number {
+    const tree = categories.map(category => category.id);
+    for (let i = 0; i < tree.length; i++) {
+      const parentId = this.state.categories.find(category => category.id === tree[i])?.parentId;
+      const parent = this.state.categories.find(category => category.id === parentId && category.deletedAt === null);
+      if (parent && !tree.includes(parent.id)) {
+        tree.push(parent.id);
+      }
+    }
+
+    const running = this.state.promotions.filter(promotion =>
+      promotion.startsAt <= now && promotion.endsAt > now && (
+        this.state.promotionProducts.some(target => target.promotionId === promotion.id && target.productId === productId) ||
+        this.state.promotionCategories.some(target => target.promotionId === promotion.id && tree.includes(target.categoryId))
+      )
+    );
+    return running.reduce((max, promotion) => Math.max(max, promotion.percentOff), 0);
+  }
+
+  // Units not held by an unexpired reservation
+  private availableQuantity(product: ProductRow, now: Date): number {
+    const held = this.state.reservations
+      .filter(reservation => reservation.productId === product.id && reservation.expiresAt > now)
+      .reduce((sum, reservation) => sum + reservation.quantity, 0);
+    return Math.max(product.stockQuantity - held, 0);
+  }
+
+  // A product row with its live categories and the prices DatabaseStorage computes in SQL
+  private toProduct(row: ProductRow, now: Date = new Date()): Product {
+    const categories = this.productCategoriesOf(row.id);
+    const regularPrice = row.customPrice ??
+      (categories.length > 0 ? Math.min(...categories.map(category => category.defaultPrice)) : 0);
+    const discountPercent = this.discountPercent(row.id, categories, now);
+    return {
+      ...row,
+      effectivePrice: unitPriceForQuantity({ regularPrice, discountPercent }, 1),
+      regularPrice,
+      discountPercent,
+      availableQuantity: this.availableQuantity(row, now),
+      categories,
+    };
+  }
+
+  async getProducts({ cursor, limit: pageLimit = 12, categoryIds, isAvailable, search, sort, minPrice, maxPrice, addedSince }: ProductQueryOptions = {}): Promise<ProductPage> {
+    const limit = Math.max(1, Math.min(100, pageLimit));
+    const now = new Date();
+    const inCategories = categoryIds && categoryIds.length > 0 ? this.categorySubtree(categoryIds) : null;
+    const terms = search ? searchTerms(search) : [];
+    const ranks = terms.length > 0 ? new Map<number, number>() : null;
+
+    // Trashed products are never listed
+    const matching = this.state.products
+      .filter(row => {
+        if (row.deletedAt !== null) return false;
+        if (isAvailable !== undefined && row.isAvailable !== isAvailable) return false;
+        if (addedSince && row.createdAt < addedSince) return false;
+        if (inCategories && !this.state.productCategories.some(assignment =>
+          assignment.productId === row.id && inCategories.includes(assignment.categoryId))) {
+          return false;
+        }
+        if (ranks) {
+          const rank = searchRank(row, terms);
+          if (rank === null) return false;
+          ranks.set(row.id, rank);
+        }
+        return true;
+      })
+      .map(row => this.toProduct(row, now))
+      .filter(product =>
+        (minPrice === undefined || product.effectivePrice! >= minPrice) &&
+        (maxPrice === undefined || product.effectivePrice! <= maxPrice));
+
+    const sortKey = productSortKey(sort, ranks);
+    const direction = sortKey.direction === 'asc' ? 1 : -1;
+    const compare = (product: Product, value: number | string, id: number) =>
+      direction * (compareSortValues(sortKey.value(product), value) || product.id - id);
+    matching.sort((a, b) => compare(a, sortKey.value(b), b.id));
+
+    // Keyset condition: rows strictly after the last (sort value, id) of the previous page
+    const cursorValue = cursor && (sortKey.type === 'number' ? Number(cursor.value) : cursor.value);
+    const after = cursor && cursorValue !== undefined
+      ? matching.filter(product => compare(product, cursorValue, cursor.id) > 0)
+      : matching;
+
+    const data = after.slice(0, limit);
+    const lastProduct = data[data.length - 1];
+    const nextCursor = after.length > limit && lastProduct
+      ? encodeProductCursor({ value: String(sortKey.value(lastProduct)), id: lastProduct.id })
+      : null;
+
+    return { data, nextCursor, totalCount: matching.length };
+  }
+
+  async getProduct(id: number, { includeDeleted = false }: { includeDeleted?: boolean } = {}): Promise<Product | undefined> {
+    const row = this.state.products.find(product => product.id === id);
+    if (!row || (!includeDeleted && row.deletedAt !== null)) return undefined;
+    return this.toProduct(row);
+  }
+
+  async createProduct(insertProduct: Omit<Product, 'id'> & { categories?: number[] }): Promise<Product> {
+    const { categories: categoryIds, ...productData } = insertProduct;
+    const now = new Date();
+    const product: ProductRow = {
+      id: this.nextId('products'),
+      name: productData.name,
+      description: productData.description,
+      images: productData.images || [],
+      fullImages: productData.fullImages || [],
+      customPrice: null,
+      categoryPrice: null,
+      isAvailable: productData.isAvailable ?? true,
+      stockQuantity: productData.stockQuantity ?? 1,
+      priceTiers: productData.priceTiers ?? [],
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+    };
+    this.state.products.push(product);
+
+    if (categoryIds && categoryIds.length > 0) {
+      await this.addProductCategories(product.id, categoryIds);
+    }
+
+    return (await this.getProduct(product.id))!;
+  }
+
+  // Assign products to categories, failing like the product_categories foreign keys and primary key
+  private insertProductCategories(values: { productId: number; categoryId: number }[]): void {
+    values.forEach(value => {
+      if (!this.state.products.some(product => product.id === value.productId)) {
+        throw constraintError('23503', `Product ${value.productId} does not exist`);
+      }
+      if (!this.state.categories.some(category => category.id === value.categoryId)) {
+        throw constraintError('23503', `Category ${value.categoryId} does not exist`);
+      }
+      if (this.state.productCategories.some(existing =>
+        existing.productId === value.productId && existing.categoryId === value.categoryId)) {
+        throw constraintError('23505', `Product ${value.productId} is already in category ${value.categoryId}`);
+      }
+      this.state.productCategories.push({ ...value });
+    });
+  }
+
+  async updateProduct(id: number, updates: Partial<Product> & { categories?: number[] }, changedBy: number | null = null): Promise<Product> {
+    await this.transaction(async () => {
+      const { categories: categoryIds, ...productUpdates } = updates;
+      const product = this.state.products.find(product => product.id === id);
+      if (!product) {
+        throw new Error('Product not found');
+      }
+      const previousCustomPrice = product.customPrice;
+
+      // The cached category price follows explicit category changes, and is kept
+      // otherwise
+      let categoryPrice: number | null = null;
+      if (categoryIds !== undefined) {
+        const prices = this.state.categories
+          .filter(category => categoryIds.includes(category.id))
+          .map(category => category.defaultPrice);
+        if (prices.length > 0) {
+          categoryPrice = Math.min(...prices);
+        }
+      } else {
+        categoryPrice = product.categoryPrice;
+      }
+
+      Object.assign(product, columnUpdates(product, productUpdates), {
+        categoryPrice,
+        updatedAt: new Date(),
+      });
+
+      if (product.customPrice !== previousCustomPrice) {
+        this.recordPriceChange('product', id, previousCustomPrice, product.customPrice, changedBy);
+      }
+
+      if (categoryIds !== undefined) {
+        this.state.productCategories = this.state.productCategories.filter(assignment => assignment.productId !== id);
+        this.insertProductCategories(categoryIds.map((categoryId: number) => ({ productId: id, categoryId })));
+      }
+    });
+
+    const updatedProduct = await this.getProduct(id);
+    if (!updatedProduct) {
+      throw new Error('Failed to fetch updated product');
+    }
+    return updatedProduct;
+  }
+
+  // Moves the product to the trash; purgeProduct removes it for good
+  async deleteProduct(id: number): Promise<void> {
+    const product = this.state.products.find(product => product.id === id && product.deletedAt === null);
+    if (product) {
+      product.deletedAt = new Date();
+    }
+  }
+
+  async restoreProduct(id: number): Promise<boolean> {
+    const product = this.state.products.find(product => product.id === id && product.deletedAt !== null);
+    if (!product) return false;
+    product.deletedAt = null;
+    product.updatedAt = new Date();
+    return true;
+  }
+
+  // Drop products along with everything that references them
+  private removeProducts(ids: number[]): void {
+    this.state.products = this.state.products.filter(product => !ids.includes(product.id));
+    this.state.productCategories = this.state.productCategories.filter(assignment => !ids.includes(assignment.productId));
+    this.state.promotionProducts = this.state.promotionProducts.filter(target => !ids.includes(target.productId));
+    this.state.reservations = this.state.reservations.filter(reservation => !ids.includes(reservation.productId));
+  }
+
+  // Only trashed products can be purged
+  async purgeProduct(id: number): Promise<boolean> {
+    if (!this.state.products.some(product => product.id === id && product.deletedAt !== null)) return false;
+    this.removeProducts([id]);
+    return true;
+  }
+
+  // A cart with its items; drafts show what their products sell for now at the quantity held
+  private toCart(cart: CartRow): Cart {
+    const items = this.state.cartItems
+      .filter(item => item.cartId === cart.id)
+      .sort((a, b) => a.id - b.id)
+      .map(item => {
+        const product = cart.status === 'draft'
+          ? this.state.products.find(product => product.id === item.productId)
+          : undefined;
+        return product
+          ? { ...item, price: unitPriceForQuantity(this.toProduct(product), item.quantity) }
+          : { ...item };
+      });
+    return { ...cart, items, total: cartTotal(items) };
+  }
+
+  async getCarts(limit: number = 50, search?: string): Promise<Cart[]> {
+    const needle = search?.toLowerCase();
+    // Drafts are still being filled in by customers
+    return this.state.carts
+      .filter(cart => cart.status !== 'draft')
+      .filter(cart => !needle || [cart.customerName, cart.customerEmail, cart.customerPhone, cart.notes]
+        .some(field => field?.toLowerCase().includes(needle)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, Math.min(limit, 100))
+      .map(cart => this.toCart(cart));
+  }
+
+  async getCart(id: number): Promise<Cart | undefined> {
+    const cart = this.state.carts.find(cart => cart.id === id);
+    return cart && this.toCart(cart);
+  }
+
+  private insertCart(values: Partial<CartRow>): CartRow {
+    const now = new Date();
+    const cart: CartRow = {
+      id: this.nextId('carts'),
+      customerName: '',
+      customerEmail: null,
+      customerPhone: null,
+      fulfillmentMethod: null,
+      notes: null,
+      status: 'submitted',
+      token: null,
+      submittedAt: null,
+      holdExpiresAt: null,
+      createdAt: now,
+      updatedAt: now,
+      ...values,
+    };
+    this.state.carts.push(cart);
+    return cart;
+  }
+
+  private insertCartItem(cartId: number, product: Product, quantity: number, price: number, isAvailable: boolean): CartItem {
+    if (!this.state.carts.some(cart => cart.id === cartId)) {
+      throw constraintError('23503', `Cart ${cartId} does not exist`);
+    }
+
+    const item: CartItem = {
+      id: this.nextId('cartItems'),
+      cartId,
+      productId: product.id,
+      name: product.name,
+      description: product.description,
+      images: product.images,
+      fullImages: product.fullImages || [],
+      price,
+      quantity,
+      isAvailable,
+      createdAt: new Date(),
+    };
+    this.state.cartItems.push(item);
+    return { ...item };
+  }
+
+  /**
+   * Place a submitted cart from product IDs. Each item is snapshotted from the
+   * product as it is now and priced for its quantity; products that are sold,
+   * deleted or missing are reported through a ReservationConflictError.
+   */
+  async createCart(insertCart: InsertCart): Promise<Cart> {
+    return this.transaction(async () => {
+      const now = new Date();
+      const holdExpiresAt = new Date(now.getTime() + RESERVATION_HOLD_MS);
+      const cart = this.insertCart({
+        ...contactValues(insertCart),
+        status: 'submitted',
+        submittedAt: now,
+        holdExpiresAt,
+      });
+
+      // A conflict rolls the whole cart back
+      this.reserveProducts(cart.id, insertCart.items, holdExpiresAt);
+
+      const products = await Promise.all(insertCart.items.map(item => this.getProduct(item.productId)));
+      const items = insertCart.items.map((item, index) => {
+        const product = products[index]!;
+        return this.insertCartItem(cart.id, product, item.quantity, unitPriceForQuantity(product, item.quantity), true);
+      });
+
+      return { ...cart, items, total: cartTotal(items) };
+    });
+  }
+
+  /**
+   * Hold units of products for a cart until `expiresAt`. Lapsed holds are
+   * cleared first; any product that is sold, deleted or does not have enough
+   * stock left beside other carts' holds is reported through a
+   * ReservationConflictError.
+   */
+  private reserveProducts(cartId: number, lines: { productId: number; quantity: number }[], expiresAt: Date): void {
+    const requested = new Map<number, number>();
+    lines.forEach(line => requested.set(line.productId, (requested.get(line.productId) ?? 0) + line.quantity));
+    const ids = Array.from(requested.keys());
+    if (ids.length === 0) return;
+
+    const now = new Date();
+    this.state.reservations = this.state.reservations.filter(reservation =>
+      !(ids.includes(reservation.productId) && reservation.expiresAt <= now)
+    );
+
+    const conflicts = ids.filter(id => {
+      const product = this.state.products.find(product => product.id === id);
+      if (!product || !product.isAvailable || product.deletedAt !== null) return true;
+      const heldElsewhere = this.state.reservations
+        .filter(reservation => reservation.productId === id && reservation.cartId !== cartId)
+        .reduce((sum, reservation) => sum + reservation.quantity, 0);
+      return product.stockQuantity - heldElsewhere < requested.get(id)!;
+    });
+    if (conflicts.length > 0) {
+      throw new ReservationConflictError(conflicts);
+    }
+
+    ids.forEach(productId => {
+      const quantity = requested.get(productId)!;
+      const existing = this.state.reservations.find(reservation =>
+        reservation.productId === productId && reservation.cartId === cartId
+      );
+      if (existing) {
+        existing.quantity = quantity;
+        existing.expiresAt = expiresAt;
+      } else {
+        this.state.reservations.push({
+          id: this.nextId('reservations'),
+          productId,
+          cartId,
+          quantity,
+          expiresAt,
+          createdAt: now,
+        });
+      }
+    });
+  }
+
+  // Take sold units out of stock, marking the product unavailable when none are left
+  private applyStockDeduction(product: ProductRow, quantity: number, now: Date): void {
+    product.isAvailable = product.isAvailable && product.stockQuantity > quantity;
+    product.stockQuantity = Math.max(product.stockQuantity - quantity, 0);
+    product.updatedAt = now;
+  }
+
+  async deductStock(productId: number, quantity: number): Promise<Product> {
+    const product = this.state.products.find(product => product.id === productId);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    this.applyStockDeduction(product, quantity, new Date());
+    return this.toProduct(product);
+  }
+
+  async markCartSold(cartId: number): Promise<Cart | undefined> {
+    const cart = this.state.carts.find(cart => cart.id === cartId && cart.status === 'submitted');
+    if (!cart) {
+      return undefined;
+    }
+
+    Object.assign(cart, { status: 'sold', holdExpiresAt: null, updatedAt: new Date() });
+    this.state.reservations = this.state.reservations.filter(reservation => reservation.cartId !== cartId);
+    return this.toCart(cart);
+  }
+
+  async releaseExpiredReservations(): Promise<number> {
+    const now = new Date();
+    const before = this.state.reservations.length;
+    this.state.reservations = this.state.reservations.filter(reservation => reservation.expiresAt > now);
+    return before - this.state.reservations.length;
+  }
+
+  // Items and reservations go with the cart, as the CASCADE foreign keys do
+  private removeCart(id: number): void {
+    this.state.carts = this.state.carts.filter(cart => cart.id !== id);
+    this.state.cartItems = this.state.cartItems.filter(item => item.cartId !== id);
+    this.state.reservations = this.state.reservations.filter(reservation => reservation.cartId !== id);
+  }
+
+  async deleteCart(id: number): Promise<void> {
+    this.removeCart(id);
+  }
+
+  async updateCart(id: number, updates: Partial<Cart>): Promise<Cart> {
+    const cart = this.state.carts.find(cart => cart.id === id);
+    if (!cart) {
+      throw new Error('Cart not found');
+    }
+    Object.assign(cart, columnUpdates(cart, updates), { updatedAt: new Date() });
+    return this.toCart(cart);
+  }
+
+  async getCategories(): Promise<Category[]> {
+    return this.state.categories
+      .filter(category => category.deletedAt === null)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(category => ({ ...category }));
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    const category = this.state.categories.find(category => category.id === id && category.deletedAt === null);
+    return category && { ...category };
+  }
+
+  // A category's parent must be a live category that is not the category itself or one of its descendants
+  private assertValidParent(categoryId: number | null, parentId: number): void {
+    const parent = this.state.categories.find(category => category.id === parentId && category.deletedAt === null);
+    if (!parent) {
+      throw new CategoryHierarchyError('Parent category not found');
+    }
+
+    const ancestorIds = [parent.id];
+    for (let i = 0; i < ancestorIds.length; i++) {
+      const next = this.state.categories.find(category => category.id === ancestorIds[i])?.parentId;
+      if (next != null && !ancestorIds.includes(next)) {
+        ancestorIds.push(next);
+      }
+    }
+    if (categoryId !== null && ancestorIds.includes(categoryId)) {
+      throw new CategoryHierarchyError('A category cannot be placed inside itself or one of its subcategories');
+    }
+  }
+
+  // Position after the last category under the same parent
+  private nextSortOrder(parentId: number | null): number {
+    const siblings = this.state.categories.filter(category => category.parentId === parentId);
+    return siblings.length === 0 ? 0 : Math.max(...siblings.map(category => category.sortOrder)) + 1;
+  }
+
+  // Names stay reserved while a category sits in the trash
+  private assertCategoryNameFree(name: string, categoryId: number | null): void {
+    if (this.state.categories.some(category => category.name === name && category.id !== categoryId)) {
+      throw constraintError('23505', `Category ${name} already exists`);
+    }
+  }
+
+  private recordPriceChange(entityType: PriceHistoryEntityType, entityId: number, oldPrice: number | null, newPrice: number | null, changedBy: number | null): void {
+    this.state.priceHistory.push({
+      id: this.nextId('priceHistory'),
+      entityType,
+      entityId,
+      oldPrice,
+      newPrice,
+      changedBy,
+      changedAt: new Date(),
+    });
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    const parentId = category.parentId ?? null;
+    if (parentId !== null) {
+      this.assertValidParent(null, parentId);
+    }
+    this.assertCategoryNameFree(category.name, null);
+
+    const created: Category = {
+      id: this.nextId('categories'),
+      name: category.name,
+      defaultPrice: category.defaultPrice ?? 0,
+      parentId,
+      sortOrder: this.nextSortOrder(parentId),
+      createdAt: new Date(),
+      deletedAt: null,
+    };
+    this.state.categories.push(created);
+    return { ...created };
+  }
+
+  async updateCategory(id: number, updates: UpdateCategory, changedBy: number | null = null): Promise<Category | undefined> {
+    const existing = this.state.categories.find(category => category.id === id && category.deletedAt === null);
+    if (!existing) return undefined;
+
+    const movesParent = updates.parentId !== undefined && updates.parentId !== existing.parentId;
+    if (movesParent && updates.parentId != null) {
+      this.assertValidParent(id, updates.parentId);
+    }
+    if (updates.name !== undefined) {
+      this.assertCategoryNameFree(updates.name, id);
+    }
+
+    const previousPrice = existing.defaultPrice;
+    Object.assign(existing, columnUpdates(existing, {
+      ...updates,
+      // A moved category goes to the end of its new siblings
+      ...(movesParent && { sortOrder: this.nextSortOrder(updates.parentId ?? null) }),
+    }));
+
+    if (existing.defaultPrice !== previousPrice) {
+      this.recordPriceChange('category', id, previousPrice, existing.defaultPrice, changedBy);
+
+      // Keep the cached cheapest category price on the category's products in step
+      this.state.productCategories
+        .filter(assignment => assignment.categoryId === id)
+        .forEach(assignment => {
+          const product = this.state.products.find(product => product.id === assignment.productId);
+          if (!product) return;
+          const prices = this.productCategoriesOf(product.id).map(category => category.defaultPrice);
+          product.categoryPrice = prices.length > 0 ? Math.min(...prices) : null;
+        });
+    }
+
+    return { ...existing };
+  }
+
+  async reorderCategories(categoryIds: number[]): Promise<void> {
+    const siblings = this.state.categories.filter(category =>
+      categoryIds.includes(category.id) && category.deletedAt === null
+    );
+
+    if (siblings.length !== new Set(categoryIds).size) {
+      throw new CategoryHierarchyError('Category not found');
+    }
+    if (new Set(siblings.map(sibling => sibling.parentId)).size > 1) {
+      throw new CategoryHierarchyError('Only categories with the same parent can be reordered together');
+    }
+
+    categoryIds.forEach((id, index) => {
+      siblings.find(sibling => sibling.id === id)!.sortOrder = index;
+    });
+  }
+
+  // Which available products would sell at a different price if the category's default price changed
+  async previewCategoryPriceChange(id: number, newPrice: number): Promise<CategoryPricePreview | undefined> {
+    const category = await this.getCategory(id);
+    if (!category) return undefined;
+
+    const priced = this.state.products
+      .filter(product => product.isAvailable && product.deletedAt === null)
+      .filter(product => this.state.productCategories.some(assignment =>
+        assignment.productId === product.id && assignment.categoryId === id))
+      .map(product => {
+        const categories = this.productCategoriesOf(product.id);
+        const currentPrice = categories.length > 0 ? Math.min(...categories.map(c => c.defaultPrice)) : null;
+        const changedPrice = categories.length > 0
+          ? Math.min(...categories.map(c => (c.id === id ? newPrice : c.defaultPrice)))
+          : null;
+        return { id: product.id, affected: product.customPrice === null && currentPrice !== changedPrice };
+      });
+
+    const affectedIds = priced.filter(product => product.affected).map(product => product.id);
+    const draftCartIds = this.state.carts.filter(cart => cart.status === 'draft').map(cart => cart.id);
+    const affectedCartIds = new Set(
+      this.state.cartItems
+        .filter(item => affectedIds.includes(item.productId) && draftCartIds.includes(item.cartId))
+        .map(item => item.cartId)
+    );
+
+    return {
+      categoryId: id,
+      currentPrice: category.defaultPrice,
+      newPrice,
+      affectedProductCount: affectedIds.length,
+      unaffectedProductCount: priced.length - affectedIds.length,
+      affectedCartCount: affectedCartIds.size,
+    };
+  }
+
+  async getPriceHistory(entityType: PriceHistoryEntityType, entityId: number): Promise<PriceHistoryEntry[]> {
+    return this.state.priceHistory
+      .filter(entry => entry.entityType === entityType && entry.entityId === entityId)
+      .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime() || b.id - a.id)
+      .map(entry => ({
+        ...entry,
+        changedByUsername: this.state.users.find(user => user.id === entry.changedBy)?.username ?? null,
+      }));
+  }
+
+  // A promotion with the ids of the categories and products it targets
+  private toPromotion(row: PromotionRow): Promotion {
+    return {
+      ...row,
+      categoryIds: this.state.promotionCategories
+        .filter(target => target.promotionId === row.id)
+        .map(target => target.categoryId),
+      products: this.state.promotionProducts
+        .filter(target => target.promotionId === row.id)
+        .map(target => this.state.products.find(product => product.id === target.productId))
+        .filter((product): product is ProductRow => product !== undefined)
+        .map(({ id, name }) => ({ id, name })),
+    };
+  }
+
+  private replacePromotionTargets(promotionId: number, promotion: InsertPromotion): void {
+    const categoryIds = Array.from(new Set(promotion.categoryIds));
+    const productIds = Array.from(new Set(promotion.productIds));
+    if (categoryIds.some(id => !this.state.categories.some(category => category.id === id)) ||
+        productIds.some(id => !this.state.products.some(product => product.id === id))) {
+      throw constraintError('23503', 'Promotion target does not exist');
+    }
+
+    this.state.promotionCategories = this.state.promotionCategories
+      .filter(target => target.promotionId !== promotionId)
+      .concat(categoryIds.map(categoryId => ({ promotionId, categoryId })));
+    this.state.promotionProducts = this.state.promotionProducts
+      .filter(target => target.promotionId !== promotionId)
+      .concat(productIds.map(productId => ({ promotionId, productId })));
+  }
+
+  // Newest first by start date
+  async getPromotions(): Promise<Promotion[]> {
+    return this.state.promotions
+      .slice()
+      .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime() || b.id - a.id)
+      .map(row => this.toPromotion(row));
+  }
+
+  async getPromotion(id: number): Promise<Promotion | undefined> {
+    const row = this.state.promotions.find(promotion => promotion.id === id);
+    return row && this.toPromotion(row);
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    return this.transaction(async () => {
+      const row: PromotionRow = {
+        id: this.nextId('promotions'),
+        name: promotion.name,
+        percentOff: promotion.percentOff,
+        startsAt: promotion.startsAt,
+        endsAt: promotion.endsAt,
+        createdAt: new Date(),
+      };
+      this.state.promotions.push(row);
+      this.replacePromotionTargets(row.id, promotion);
+      return this.toPromotion(row);
+    });
+  }
+
+  async updatePromotion(id: number, promotion: InsertPromotion): Promise<Promotion | undefined> {
+    return this.transaction(async () => {
+      const row = this.state.promotions.find(existing => existing.id === id);
+      if (!row) return undefined;
+
+      Object.assign(row, {
+        name: promotion.name,
+        percentOff: promotion.percentOff,
+        startsAt: promotion.startsAt,
+        endsAt: promotion.endsAt,
+      });
+      this.replacePromotionTargets(id, promotion);
+      return this.toPromotion(row);
+    });
+  }
+
+  async deletePromotion(id: number): Promise<boolean> {
+    if (!this.state.promotions.some(promotion => promotion.id === id)) return false;
+    this.state.promotions = this.state.promotions.filter(promotion => promotion.id !== id);
+    this.state.promotionCategories = this.state.promotionCategories.filter(target => target.promotionId !== id);
+    this.state.promotionProducts = this.state.promotionProducts.filter(target => target.promotionId !== id);
+    return true;
+  }
+
+  // Moves the category to the trash. Product assignments are kept so a
+  // restore brings back the category prices of its products.
+  async deleteCategory(id: number): Promise<void> {
+    const category = this.state.categories.find(category => category.id === id && category.deletedAt === null);
+    if (category) {
+      category.deletedAt = new Date();
+    }
+  }
+
+  async restoreCategory(id: number): Promise<boolean> {
+    const category = this.state.categories.find(category => category.id === id && category.deletedAt !== null);
+    if (!category) return false;
+    category.deletedAt = null;
+    return true;
+  }
+
+  // Drop categories with their assignments; their children move to the top level
+  private removeCategories(ids: number[]): void {
+    this.state.categories = this.state.categories.filter(category => !ids.includes(category.id));
+    this.state.categories.forEach(category => {
+      if (category.parentId !== null && ids.includes(category.parentId)) category.parentId = null;
+    });
+    this.state.productCategories = this.state.productCategories.filter(assignment => !ids.includes(assignment.categoryId));
+    this.state.promotionCategories = this.state.promotionCategories.filter(target => !ids.includes(target.categoryId));
+  }
+
+  // Only trashed categories can be purged; this removes their product assignments too
+  async purgeCategory(id: number): Promise<boolean> {
+    if (!this.state.categories.some(category => category.id === id && category.deletedAt !== null)) return false;
+    this.removeCategories([id]);
+    return true;
+  }
+
+  async getTrash(): Promise<Trash> {
+    const byDeletedAt = (a: { deletedAt: Date | null }, b: { deletedAt: Date | null }) =>
+      b.deletedAt!.getTime() - a.deletedAt!.getTime();
+
+    return {
+      products: this.state.products
+        .filter(product => product.deletedAt !== null)
+        .sort(byDeletedAt)
+        .map(product => this.toProduct(product)),
+      categories: this.state.categories
+        .filter(category => category.deletedAt !== null)
+        .sort(byDeletedAt)
+        .map(category => ({
+          ...category,
+          productCount: this.state.productCategories.filter(assignment => assignment.categoryId === category.id).length,
+        })),
+    };
+  }
+
+  async purgeDeletedBefore(cutoff: Date): Promise<{ products: number; categories: number }> {
+    const productIds = this.state.products
+      .filter(product => product.deletedAt !== null && product.deletedAt < cutoff)
+      .map(product => product.id);
+    this.removeProducts(productIds);
+
+    const categoryIds = this.state.categories
+      .filter(category => category.deletedAt !== null && category.deletedAt < cutoff)
+      .map(category => category.id);
+    this.removeCategories(categoryIds);
+
+    return { products: productIds.length, categories: categoryIds.length };
+  }
+
+  async addProductCategories(productId: number, categoryIds: number[]): Promise<void> {
+    await this.addBulkProductCategories([productId], categoryIds);
+  }
+
+  async removeProductCategories(productId: number, categoryIds: number[]): Promise<void> {
+    this.state.productCategories = this.state.productCategories.filter(assignment =>
+      !(assignment.productId === productId && categoryIds.includes(assignment.categoryId))
+    );
+  }
+
+  async getProductCategories(productId: number): Promise<Category[]> {
+    return this.productCategoriesOf(productId);
+  }
+
+  async getCategoriesWithCounts(countAvailableOnly: boolean = false): Promise<(Category & { productCount: number })[]> {
+    // Each category counts the distinct products assigned to it or to any of its live subcategories
+    return this.state.categories
+      .filter(category => category.deletedAt === null)
+      .map(category => {
+        const subtree = this.categorySubtree([category.id]);
+        const productIds = new Set(
+          this.state.productCategories
+            .filter(assignment => subtree.includes(assignment.categoryId))
+            .map(assignment => this.state.products.find(product => product.id === assignment.productId))
+            .filter((product): product is ProductRow =>
+              product !== undefined && product.deletedAt === null && (!countAvailableOnly || product.isAvailable))
+            .map(product => product.id)
+        );
+        return { ...category, productCount: productIds.size };
+      })
+      .sort((a, b) => a.sortOrder - b.sortOrder || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  }
+
+  /**
+   * Replace the categories of several products, setting the cached category
+   * price of those without a custom price
+   */
+  async addBulkProductCategories(productIds: number[], categoryIds: number[]): Promise<void> {
+    const validCategories = this.state.categories.filter(category =>
+      categoryIds.includes(category.id) && category.deletedAt === null
+    );
+    if (validCategories.length === 0) {
+      throw new Error("No valid categories found");
+    }
+
+    await this.transaction(async () => {
+      this.state.productCategories = this.state.productCategories.filter(assignment =>
+        !productIds.includes(assignment.productId)
+      );
+      this.insertProductCategories(
+        productIds.flatMap(productId => categoryIds.map(categoryId => ({ productId, categoryId })))
+      );
+
+      const lowestCategoryPrice = Math.min(...validCategories.map(category => category.defaultPrice));
+      this.state.products
+        .filter(product => productIds.includes(product.id) && !product.customPrice)
+        .forEach(product => {
+          product.categoryPrice = lowestCategoryPrice;
+          product.updatedAt = new Date();
+        });
+    });
+  }
+
+  // Trashed and purged products count as unavailable
+  async refreshCartItems(cartId: number): Promise<void> {
+    if (!this.state.carts.some(cart => cart.id === cartId)) {
+      throw new Error("Cart not found");
+    }
+
+    this.state.cartItems
+      .filter(item => item.cartId === cartId)
+      .forEach(item => {
+        const product = this.state.products.find(product => product.id === item.productId);
+        item.isAvailable = !!product && product.isAvailable && product.deletedAt === null;
+      });
+  }
+
+  async deleteCartItem(cartId: number, itemId: number): Promise<void> {
+    const item = this.state.cartItems.find(item => item.cartId === cartId && item.id === itemId);
+    if (!item) {
+      throw new Error(`Cart item ${itemId} not found in cart ${cartId}`);
+    }
+
+    this.state.cartItems = this.state.cartItems.filter(existing => existing !== item);
+    // Let other carts claim the product again
+    this.state.reservations = this.state.reservations.filter(reservation =>
+      !(reservation.cartId === cartId && reservation.productId === item.productId)
+    );
+  }
+
+  async getCartByToken(token: string): Promise<Cart | undefined> {
+    const cart = this.state.carts.find(cart => cart.token === token);
+    return cart && this.toCart(cart);
+  }
+
+  async createDraftCart(): Promise<Cart> {
+    const cart = this.insertCart({
+      status: 'draft',
+      token: randomBytes(24).toString('base64url'),
+    });
+    return { ...cart, items: [], total: 0 };
+  }
+
+  private touchCart(cartId: number): void {
+    const cart = this.state.carts.find(cart => cart.id === cartId);
+    if (cart) {
+      cart.updatedAt = new Date();
+    }
+  }
+
+  // Snapshot a product into a cart at its current unit price for the quantity
+  async addCartItem(cartId: number, product: Product, quantity: number): Promise<CartItem> {
+    const item = this.insertCartItem(cartId, product, quantity, unitPriceForQuantity(product, quantity), product.isAvailable);
+    this.touchCart(cartId);
+    return item;
+  }
+
+  // Draft carts price items when they are read, so only the quantity is stored here
+  async setCartItemQuantity(cartId: number, itemId: number, quantity: number): Promise<CartItem | undefined> {
+    const item = this.state.cartItems.find(item => item.cartId === cartId && item.id === itemId);
+    if (!item) return undefined;
+    item.quantity = quantity;
+    this.touchCart(cartId);
+    return { ...item };
+  }
+
+  async clearCartItems(cartId: number): Promise<void> {
+    this.state.cartItems = this.state.cartItems.filter(item => item.cartId !== cartId);
+  }
+
+  /**
+   * Hand a draft cart over to the admin, freezing item prices and holding
+   * their stock. The token is cleared so the customer's cookie and any share
+   * links stop reaching it.
+   */
+  async submitCart(cartId: number, contact: CartContact): Promise<Cart> {
+    await this.transaction(async () => {
+      const cart = this.state.carts.find(cart => cart.id === cartId && cart.status === 'draft');
+      if (!cart) {
+        throw new Error('Draft cart not found');
+      }
+
+      const now = new Date();
+      const holdExpiresAt = new Date(now.getTime() + RESERVATION_HOLD_MS);
+      Object.assign(cart, {
+        ...contactValues(contact),
+        status: 'submitted',
+        token: null,
+        submittedAt: now,
+        holdExpiresAt,
+        updatedAt: now,
+      });
+
+      const items = this.state.cartItems.filter(item =>
+        item.cartId === cartId && this.state.products.some(product => product.id === item.productId)
+      );
+      items.forEach(item => {
+        const product = this.toProduct(this.state.products.find(product => product.id === item.productId)!, now);
+        item.price = unitPriceForQuantity(product, item.quantity);
+      });
+
+      // A conflict rolls back the submission, leaving the draft intact
+      this.reserveProducts(cartId, items, holdExpiresAt);
+    });
+
+    return (await this.getCart(cartId))!;
+  }
+
+  async getOrders(limit: number = 50): Promise<Order[]> {
+    return this.state.orders
+      .slice()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, Math.min(limit, 100))
+      .map(order => ({ ...order }));
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    const order = this.state.orders.find(order => order.id === id);
+    return order && { ...order };
+  }
+
+  private insertOrder(values: Pick<Order, 'cartId' | 'customerName' | 'customerEmail' | 'items' | 'status'>): Order {
+    const now = new Date();
+    const order: Order = {
+      id: this.nextId('orders'),
+      ...values,
+      confirmedAt: null,
+      packedAt: null,
+      shippedAt: null,
+      completedAt: null,
+      cancelledAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.state.orders.push(order);
+    return { ...order };
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    return this.insertOrder({
+      cartId: insertOrder.cartId ?? null,
+      customerName: insertOrder.customerName,
+      customerEmail: insertOrder.customerEmail ?? null,
+      items: insertOrder.items,
+      status: 'pending',
+    });
+  }
+
+  async updateOrderStatus(id: number, from: OrderStatus, to: OrderStatus): Promise<Order | undefined> {
+    const order = this.state.orders.find(order => order.id === id && order.status === from);
+    if (!order) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const timestampField = to !== 'pending' ? orderStatusTimestamps[to] : undefined;
+    Object.assign(order, {
+      status: to,
+      ...(timestampField ? { [timestampField]: now } : {}),
+      updatedAt: now,
+    });
+    return { ...order };
+  }
+
+  async deleteOrder(id: number): Promise<void> {
+    this.state.orders = this.state.orders.filter(order => order.id !== id);
+  }
+
+  /**
+   * Snapshot a submitted or sold cart into a pending order, take the units out
+   * of stock unless the cart was already sold, and remove the cart
+   */
+  async convertCartToOrder(cartId: number): Promise<Order | undefined> {
+    const cart = this.state.carts.find(cart => cart.id === cartId);
+    if (!cart || (cart.status !== 'submitted' && cart.status !== 'sold')) {
+      return undefined;
+    }
+
+    const items = this.state.cartItems.filter(item => item.cartId === cartId);
+    if (items.length === 0) {
+      throw new Error('Cannot convert an empty cart to an order');
+    }
+
+    const orderItems: OrderItem[] = items.map(item => ({
+      productId: item.productId,
+      name: item.name,
+      description: item.description,
+      images: item.images,
+      fullImages: item.fullImages,
+      price: item.price,
+      quantity: item.quantity,
+    }));
+
+    const order = this.insertOrder({
+      cartId: cart.id,
+      customerName: cart.customerName,
+      customerEmail: cart.customerEmail,
+      items: orderItems,
+      status: 'pending',
+    });
+
+    // A sold cart's units already left stock when it was marked sold
+    if (cart.status !== 'sold') {
+      items.forEach(item => {
+        const product = this.state.products.find(product => product.id === item.productId);
+        if (product) {
+          this.applyStockDeduction(product, item.quantity, order.createdAt);
+        }
+      });
+    }
+
+    this.removeCart(cartId);
+    return order;
+  }
+}
@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { readMigrationFiles, type MigrationMeta } from "drizzle-orm/migrator";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { and, eq, sql } from "drizzle-orm";
+import { users } from "@shared/schema";
+import { db } from "./db";
+
+// server/ and the bundled dist/ both sit beside migrations/
+export const MIGRATIONS_FOLDER = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "migrations");
+
+// Where drizzle's migrator records the migrations it has applied
+const MIGRATIONS_TABLE = sql`"drizzle"."__drizzle_migrations"`;
+
+// Thrown when the database's migration history does not match the files in migrations/
+export class SchemaDriftError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Database schema does not match the migrations:\n- ${problems.join('\n- ')}`);
+    this.name = 'SchemaDriftError';
+  }
+}
+
+export interface MigrationStatus {
+  applied: number;
+  // Tags of migrations that would run next, e.g. "0001_catch_up_schema"
+  pending: string[];
+  problems: string[];
+}
+
+interface NamedMigration extends MigrationMeta {
+  tag: string;
+}
+
+// Migrations in journal order, named by the tag drizzle-kit gave them
+function readMigrations(): NamedMigration[] {
+  const journal = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf8")) as {
+    entries: { tag: string }[];
+  };
+  return readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER })
+    .map((migration, index) => ({ ...migration, tag: journal.entries[index].tag }));
+}
+
+async function tableExists(name: string): Promise<boolean> {
+  const result = await db.execute(sql`SELECT to_regclass(${name}) IS NOT NULL AS "exists"`);
+  return (result.rows[0] as { exists: boolean }).exists;
+}
+
+/**
+ * Compare the migrations recorded in the database with the files on disk.
+ * Drizzle applies every file newer than the last recorded one, so an edited,
+ * missing or out-of-order file is reported as a problem rather than pending.
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const migrations = readMigrations();
+  const applied = await tableExists('drizzle.__drizzle_migrations')
+    ? (await db.execute(sql`SELECT hash, created_at FROM ${MIGRATIONS_TABLE} ORDER BY created_at`))
+        .rows.map(row => ({ hash: String(row.hash), createdAt: Number(row.created_at) }))
+    : [];
+
+  const problems: string[] = [];
+  if (applied.length === 0 && await tableExists('public.products')) {
+    problems.push(
+      'The database has tables but no migration history, so it was probably created with db:push. ' +
+      'Once it matches the current schema, run `npm run db:migrate -- --baseline` to record the migrations as applied.'
+    );
+  }
+
+  applied.forEach(row => {
+    const migration = migrations.find(migration => migration.folderMillis === row.createdAt);
+    if (!migration) {
+      problems.push(`The database has a migration from ${new Date(row.createdAt).toISOString()} that is not in migrations/`);
+    } else if (migration.hash !== row.hash) {
+      problems.push(`Migration ${migration.tag} was edited after it was applied`);
+    }
+  });
+
+  const lastApplied = applied.length > 0 ? applied[applied.length - 1].createdAt : -1;
+  migrations
+    .filter(migration => migration.folderMillis <= lastApplied && !applied.some(row => row.createdAt === migration.folderMillis))
+    .forEach(migration => problems.push(`Migration ${migration.tag} is older than the last applied one and would never run`));
+
+  return {
+    applied: applied.length,
+    pending: migrations.filter(migration => migration.folderMillis > lastApplied).map(migration => migration.tag),
+    problems,
+  };
+}
+
+// Apply pending migrations in one transaction, refusing to touch a database that has drifted
+export async function runMigrations(): Promise<string[]> {
+  const status = await getMigrationStatus();
+  if (status.problems.length > 0) {
+    throw new SchemaDriftError(status.problems);
+  }
+  if (status.pending.length > 0) {
+    await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  }
+  return status.pending;
+}
+
+export interface BaselineResult {
+  // Tags of the migrations recorded as applied
+  recorded: string[];
+  // Legacy admins promoted to owner, see baselineMigrations
+  promotedOwners: number;
+}
+
+/**
+ * Record every migration as applied without running it, for a database whose
+ * tables were created by db:push and already match the schema. The data
+ * changes those migrations would have made are applied here instead: admins
+ * from before roles existed still have the 'viewer' default next to is_admin,
+ * and are promoted to owner as 0001_catch_up_schema does, and the cached
+ * category prices are recomputed as 0002_cache_cheapest_category_price does.
+ */
+export async function baselineMigrations(): Promise<BaselineResult> {
+  const status = await getMigrationStatus();
+  if (status.applied > 0) {
+    throw new Error('The database already has a migration history');
+  }
+
+  const migrations = readMigrations();
+  const promoted = await db.transaction(async (tx) => {
+    await tx.execute(sql`CREATE SCHEMA IF NOT EXISTS "drizzle"`);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+        id SERIAL PRIMARY KEY,
+        hash text NOT NULL,
+        created_at bigint
+      )
+    `);
+    for (const migration of migrations) {
+      await tx.execute(sql`INSERT INTO ${MIGRATIONS_TABLE} (hash, created_at) VALUES (${migration.hash}, ${migration.folderMillis})`);
+    }
+    await tx.execute(sql`
+      UPDATE products SET category_price = (
+        SELECT MIN(c.default_price) FROM product_categories pc
+        INNER JOIN categories c ON c.id = pc.category_id
+        WHERE pc.product_id = products.id AND c.deleted_at IS NULL
+      )
+    `);
+    // New accounts keep is_admin in sync with role, so only legacy admins match
+    return tx
+      .update(users)
+      .set({ role: 'owner' })
+      .where(and(eq(users.isAdmin, true), eq(users.role, 'viewer')))
+      .returning({ id: users.id });
+  });
+  return { recorded: migrations.map(migration => migration.tag), promotedOwners: promoted.length };
+}
+
+/**
+ * Make sure the database matches the code before serving requests. Pending
+ * migrations are applied unless MIGRATE_ON_STARTUP=false, in which case they
+ * must be run with `npm run db:migrate` first. A drifted database never boots.
+ */
+export async function ensureDatabaseSchema(): Promise<void> {
+  if (process.env.MIGRATE_ON_STARTUP === 'false') {
+    const status = await getMigrationStatus();
+    const problems = status.pending.length > 0
+      ? [...status.problems, `${status.pending.length} pending migrations (${status.pending.join(', ')}); run \`npm run db:migrate\``]
+      : status.problems;
+    if (problems.length > 0) {
+      throw new SchemaDriftError(problems);
+    }
+    return;
+  }
+
+  const applied = await runMigrations();
+  if (applied.length > 0) {
+    console.log(`Applied migrations: ${applied.join(', ')}`);
+  }
+}
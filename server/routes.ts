@@ -1,32 +1,76 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { insertProductSchema, insertCartSchema, insertCategorySchema } from "@shared/schema";
+import { setupAuth, requireRole, toPublicUser, generateInvitationToken, hashInvitationToken } from "./auth";
+import { storage, decodeProductCursor, ReservationConflictError, LastOwnerError, CategoryHierarchyError } from "./storage";
+import { imageStore, IMAGE_URL_PREFIX, SUPPORTED_IMAGE_TYPES } from "./image-store";
+import { storeImageWithVariants } from "./image-variants";
+import { recordAudit, productSnapshot, cartSnapshot } from "./audit";
+import { TRASH_RETENTION_DAYS } from "./jobs";
+import { checkDatabaseHealth } from "./db";
+import { insertProductSchema, insertCartSchema, insertCategorySchema, insertOrderSchema, updateOrderStatusSchema, canTransitionOrderStatus, productSortSchema, productSorts, addCartItemSchema, updateCartItemQuantitySchema, updateProductSchema, submitCartSchema, createInvitationSchema, updateUserSchema, updateAppSettingsSchema, auditEventFiltersSchema, updateCategorySchema, reorderCategoriesSchema, categoryPricePreviewSchema, promotionSchema, type AdminInvitation, type Cart, type CartItemDiff, type InsertCart, type OrderStatus } from "@shared/schema";
 import { and, eq } from "drizzle-orm";
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  setupAuth(app);
+const CART_COOKIE = "cart_token";
+
+// 409 body listing the cart items another cart or a sale got to first
+function reservationConflictResponse(error: ReservationConflictError, items: { productId: number; name?: string }[]) {
+  const unavailableItems = error.productIds.map(productId => ({
+    productId,
+    name: items.find(item => item.productId === productId)?.name ?? `Product #${productId}`,
+  }));
+
+  return {
+    message: `Some items are no longer available: ${unavailableItems.map(item => item.name).join(', ')}`,
+    unavailableItems,
+  };
+}
+
+// Compare what the client showed for each item with what the server stored
+function cartItemDiffs(requested: InsertCart["items"], cart: Cart): CartItemDiff[] {
+  return requested.flatMap(item => {
+    const stored = cart.items.find(cartItem => cartItem.productId === item.productId);
+    if (!stored) return [];
 
-  // Protected admin routes
-  const requireAdmin = (req: any, res: any, next: any) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
+    const diff: CartItemDiff = { productId: item.productId };
+    if (item.name !== undefined && item.name !== stored.name) {
+      diff.name = { expected: item.name, actual: stored.name };
     }
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ message: "Admin privileges required" });
+    if (item.price !== undefined && item.price !== stored.price) {
+      diff.price = { expected: item.price, actual: stored.price };
     }
-    next();
-  };
+    return diff.name || diff.price ? [diff] : [];
+  });
+}
 
-  // Add user info endpoint
-  app.get("/api/user", (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
+const cartCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === 'production',
+  maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+};
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Readiness probe for load balancers; registered before auth so it never touches sessions
+  app.get("/api/health", async (_req, res) => {
+    if (process.env.STORAGE === 'memory') {
+      return res.json({ status: "ok", storage: "memory" });
     }
-    res.json(req.user);
+
+    const database = await checkDatabaseHealth();
+    res.status(database.ok ? 200 : 503).json({
+      status: database.ok ? "ok" : "unavailable",
+      storage: "database",
+      database,
+    });
   });
 
+  setupAuth(app);
+
+  // Protected admin routes: viewers can read, staff can make changes, owners manage the team
+  const requireViewer = requireRole("viewer");
+  const requireStaff = requireRole("staff");
+  const requireOwner = requireRole("owner");
+
   // Cart routes
   app.post("/api/carts", async (req, res) => {
     try {
@@ -40,27 +84,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Ensure each item has a valid price stored as a number with 2 decimal precision
-      const cartItems = parsed.data.items.map(item => {
-        const price = typeof item.price === 'number' ? Math.floor(item.price) : Math.floor(Number(item.price));
-        if (isNaN(price)) {
-          throw new Error(`Invalid price for item: ${item.name}`);
-        }
-        return {
-          ...item,
-          price: price // Store as integer
-        };
-      });
-
-      const cart = await storage.createCart({
-        customerName: parsed.data.customerName,
-        items: cartItems
-      });
+      // Only product IDs and quantities are trusted; the server prices and snapshots each product
+      const cart = await storage.createCart(parsed.data);
+      const diff = cartItemDiffs(parsed.data.items, cart);
 
       console.log('Cart created successfully:', cart);
-      res.status(201).json(cart);
+      res.status(201).json({ ...cart, diff });
 
     } catch (error) {
+      if (error instanceof ReservationConflictError) {
+        return res.status(409).json(reservationConflictResponse(error, req.body.items));
+      }
       console.error('Error creating cart:', error);
       res.status(500).json({ 
         message: "Failed to create cart",
@@ -69,12 +103,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/carts", requireAdmin, async (req, res) => {
+  app.get("/api/carts", requireViewer, async (req, res) => {
     try {
       const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const search = typeof req.query.q === 'string' && req.query.q.trim()
+        ? req.query.q.trim().slice(0, 200)
+        : undefined;
       console.log(`Fetching carts with limit ${limit}...`);
 
-      const carts = await storage.getCarts(limit);
+      const carts = await storage.getCarts(limit, search);
       console.log(`Successfully retrieved ${carts.length} carts with data:`, carts);
 
       res.json({
@@ -91,6 +128,281 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
+  // Customer draft cart routes. The visitor's draft is found through the
+  // cart token cookie; share links carry the same token to another device.
+  const getDraftCart = async (token: unknown) => {
+    if (typeof token !== 'string' || !token) return undefined;
+    const cart = await storage.getCartByToken(token);
+    return cart?.status === 'draft' ? cart : undefined;
+  };
+
+  app.get("/api/cart", async (req, res) => {
+    try {
+      const cart = await getDraftCart(req.cookies?.[CART_COOKIE]);
+      res.json(cart ?? null);
+    } catch (error) {
+      console.error('Error fetching draft cart:', error);
+      res.status(500).json({
+        message: "Failed to fetch cart",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.post("/api/cart/items", async (req, res) => {
+    try {
+      const parsed = addCartItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid cart item",
+          errors: parsed.error.errors
+        });
+      }
+
+      const product = await storage.getProduct(parsed.data.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (!product.isAvailable) {
+        return res.status(409).json({ message: "Product is no longer available" });
+      }
+
+      let cart = await getDraftCart(req.cookies?.[CART_COOKIE]);
+      const existing = cart?.items.find(item => item.productId === product.id);
+      const quantity = (existing?.quantity ?? 0) + parsed.data.quantity;
+      const available = product.availableQuantity ?? 0;
+      if (quantity > available) {
+        return res.status(409).json({
+          message: available === 0
+            ? "Product is on hold for other customers"
+            : `Only ${available} of this product ${available === 1 ? "is" : "are"} available`,
+          availableQuantity: available,
+        });
+      }
+
+      if (!cart) {
+        cart = await storage.createDraftCart();
+        res.cookie(CART_COOKIE, cart.token, cartCookieOptions);
+      }
+
+      // Adding a product that is already in the cart buys more of it
+      if (existing) {
+        await storage.setCartItemQuantity(cart.id, existing.id, quantity);
+      } else {
+        await storage.addCartItem(cart.id, product, quantity);
+      }
+      res.status(201).json(await storage.getCart(cart.id));
+    } catch (error) {
+      console.error('Error adding item to cart:', error);
+      res.status(500).json({
+        message: "Failed to add item to cart",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.patch("/api/cart/items/:productId", async (req, res) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "Invalid product ID" });
+      }
+
+      const parsed = updateCartItemQuantitySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid quantity",
+          errors: parsed.error.errors
+        });
+      }
+
+      const cart = await getDraftCart(req.cookies?.[CART_COOKIE]);
+      const item = cart?.items.find(item => item.productId === productId);
+      if (!cart || !item) {
+        return res.status(404).json({ message: "Item not found in cart" });
+      }
+
+      // Lowering a quantity is always allowed; raising it needs stock no one else holds
+      if (parsed.data.quantity > item.quantity) {
+        const product = await storage.getProduct(productId);
+        const available = product?.isAvailable ? product.availableQuantity ?? 0 : 0;
+        if (parsed.data.quantity > available) {
+          return res.status(409).json({
+            message: `Only ${available} of this product ${available === 1 ? "is" : "are"} available`,
+            availableQuantity: available,
+          });
+        }
+      }
+
+      await storage.setCartItemQuantity(cart.id, item.id, parsed.data.quantity);
+      res.json(await storage.getCart(cart.id));
+    } catch (error) {
+      console.error('Error updating cart item quantity:', error);
+      res.status(500).json({
+        message: "Failed to update cart item",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/cart/items/:productId", async (req, res) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "Invalid product ID" });
+      }
+
+      const cart = await getDraftCart(req.cookies?.[CART_COOKIE]);
+      const item = cart?.items.find(item => item.productId === productId);
+      if (!cart || !item) {
+        return res.status(404).json({ message: "Item not found in cart" });
+      }
+
+      await storage.deleteCartItem(cart.id, item.id);
+      res.json(await storage.getCart(cart.id));
+    } catch (error) {
+      console.error('Error removing item from cart:', error);
+      res.status(500).json({
+        message: "Failed to remove item from cart",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/cart/items", async (req, res) => {
+    try {
+      const cart = await getDraftCart(req.cookies?.[CART_COOKIE]);
+      if (!cart) {
+        return res.status(404).json({ message: "Cart not found" });
+      }
+
+      await storage.clearCartItems(cart.id);
+      res.json({ ...cart, items: [], total: 0 });
+    } catch (error) {
+      console.error('Error clearing cart:', error);
+      res.status(500).json({
+        message: "Failed to clear cart",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.post("/api/cart/submit", async (req, res) => {
+    try {
+      const parsed = submitCartSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid cart data",
+          errors: parsed.error.errors
+        });
+      }
+
+      const cart = await getDraftCart(req.cookies?.[CART_COOKIE]);
+      if (!cart) {
+        return res.status(404).json({ message: "Cart not found" });
+      }
+      if (cart.items.length === 0) {
+        return res.status(400).json({ message: "Cannot submit an empty cart" });
+      }
+
+      try {
+        const submitted = await storage.submitCart(cart.id, parsed.data);
+        res.clearCookie(CART_COOKIE, { ...cartCookieOptions, maxAge: undefined });
+        res.json(submitted);
+      } catch (error) {
+        if (error instanceof ReservationConflictError) {
+          return res.status(409).json(reservationConflictResponse(error, cart.items));
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error submitting cart:', error);
+      res.status(500).json({
+        message: "Failed to submit cart",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  // Open a shared draft cart on this device
+  app.post("/api/cart/resume/:token", async (req, res) => {
+    try {
+      const cart = await getDraftCart(req.params.token);
+      if (!cart) {
+        return res.status(404).json({ message: "This cart link has expired or was already submitted" });
+      }
+
+      res.cookie(CART_COOKIE, cart.token, cartCookieOptions);
+      res.json(cart);
+    } catch (error) {
+      console.error('Error resuming cart:', error);
+      res.status(500).json({
+        message: "Failed to open cart",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  // Image routes
+  app.post(
+    "/api/images",
+    requireStaff,
+    express.raw({ type: SUPPORTED_IMAGE_TYPES, limit: '10mb' }),
+    async (req, res) => {
+      try {
+        const contentType = req.headers['content-type']?.split(';')[0].trim() ?? '';
+        if (!SUPPORTED_IMAGE_TYPES.includes(contentType)) {
+          return res.status(415).json({
+            message: `Unsupported image type. Expected one of: ${SUPPORTED_IMAGE_TYPES.join(', ')}`
+          });
+        }
+
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Image data is required" });
+        }
+
+        let image;
+        try {
+          image = await storeImageWithVariants(req.body, contentType);
+        } catch (error) {
+          console.error('Error processing uploaded image:', error);
+          return res.status(400).json({ message: "Uploaded file is not a valid image" });
+        }
+
+        console.log(`Stored image ${image.key} (${image.size} bytes) with variants`);
+        res.status(201).json(image);
+      } catch (error) {
+        console.error('Error uploading image:', error);
+        res.status(500).json({
+          message: "Failed to upload image",
+          error: error instanceof Error ? error.message : "Unknown error occurred"
+        });
+      }
+    }
+  );
+
+  app.get(`${IMAGE_URL_PREFIX}/:key`, async (req, res) => {
+    try {
+      const image = await imageStore.get(req.params.key);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      // Keys are content hashes, so an image at a given URL never changes
+      res.set({
+        'Content-Type': image.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      });
+      res.send(image.data);
+    } catch (error) {
+      console.error('Error serving image:', error);
+      res.status(500).json({
+        message: "Failed to load image",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
   // Category routes
   app.get("/api/categories", async (req, res) => {
     try {
@@ -106,7 +418,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", requireAdmin, async (req, res) => {
+  app.post("/api/categories", requireStaff, async (req, res) => {
     try {
       // Detailed request logging
       console.log('Category Creation Request:');
@@ -120,7 +432,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('Raw request body:', req.body);
       const categoryData = {
         name: String(req.body.name).trim(),
-        defaultPrice: Number(req.body.defaultPrice)
+        defaultPrice: Number(req.body.defaultPrice),
+        parentId: req.body.parentId
       };
       console.log('Processed category data:', {
         data: categoryData,
@@ -165,12 +478,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const category = await storage.createCategory({
         name: parsed.data.name,
-        defaultPrice: parsed.data.defaultPrice // Already validated as number by schema
+        defaultPrice: parsed.data.defaultPrice, // Already validated as number by schema
+        parentId: parsed.data.parentId
       });
 
       console.log('Successfully created category:', category);
+      await recordAudit(req, {
+        action: "create",
+        entityType: "category",
+        entityId: category.id,
+        summary: `Created category ${category.name}`,
+        after: category,
+      });
       res.status(201).json(category);
     } catch (error) {
+      if (error instanceof CategoryHierarchyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      // Names stay reserved while a category sits in the trash
+      if ((error as { code?: string })?.code === '23505') {
+        return res.status(409).json({
+          message: "A category with this name already exists (it may be in the trash)"
+        });
+      }
       console.error('Category creation failed:', {
         error,
         stack: error instanceof Error ? error.stack : undefined,
@@ -186,15 +516,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/categories/:id", requireAdmin, async (req, res) => {
+  app.patch("/api/categories/:id", requireStaff, async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+
+      const parsed = updateCategorySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid category data",
+          errors: parsed.error.errors
+        });
+      }
+
+      const previous = await storage.getCategory(categoryId);
+      const category = await storage.updateCategory(categoryId, parsed.data, req.user?.id);
+      if (!previous || !category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      await recordAudit(req, {
+        action: "update",
+        entityType: "category",
+        entityId: categoryId,
+        summary: `Updated category ${category.name}`,
+        before: previous,
+        after: category,
+      });
+      res.json(category);
+    } catch (error) {
+      if (error instanceof CategoryHierarchyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if ((error as { code?: string })?.code === '23505') {
+        return res.status(409).json({
+          message: "A category with this name already exists (it may be in the trash)"
+        });
+      }
+      console.error('Error updating category:', error);
+      res.status(500).json({
+        message: "Failed to update category",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.post("/api/categories/reorder", requireStaff, async (req, res) => {
+    try {
+      const parsed = reorderCategoriesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid category order",
+          errors: parsed.error.errors
+        });
+      }
+
+      const before = await storage.getCategoriesWithCounts();
+      await storage.reorderCategories(parsed.data.categoryIds);
+
+      const names = new Map(before.map(category => [category.id, category.name]));
+      const siblingIds = new Set(parsed.data.categoryIds);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "category",
+        summary: `Reordered ${parsed.data.categoryIds.length} categories`,
+        before: { order: before.filter(category => siblingIds.has(category.id)).map(category => category.name) },
+        after: { order: parsed.data.categoryIds.map(id => names.get(id) ?? `#${id}`) },
+      });
+      res.json({ message: "Categories reordered" });
+    } catch (error) {
+      if (error instanceof CategoryHierarchyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error reordering categories:', error);
+      res.status(500).json({
+        message: "Failed to reorder categories",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  // How many products and carts a new default price would affect, without saving it
+  app.get("/api/categories/:id/price-preview", requireStaff, async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+
+      const parsed = categoryPricePreviewSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid price",
+          errors: parsed.error.errors
+        });
+      }
+
+      const preview = await storage.previewCategoryPriceChange(categoryId, parsed.data.defaultPrice);
+      if (!preview) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(preview);
+    } catch (error) {
+      console.error('Error previewing category price change:', error);
+      res.status(500).json({
+        message: "Failed to preview price change",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.get("/api/categories/:id/price-history", requireViewer, async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+
+      res.json(await storage.getPriceHistory("category", categoryId));
+    } catch (error) {
+      console.error('Error fetching category price history:', error);
+      res.status(500).json({
+        message: "Failed to fetch price history",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/categories/:id", requireStaff, async (req, res) => {
     try {
       const categoryId = parseInt(req.params.id);
       if (isNaN(categoryId)) {
         return res.status(400).json({ message: "Invalid category ID" });
       }
 
+      const category = await storage.getCategory(categoryId);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
       await storage.deleteCategory(categoryId);
-      res.json({ message: "Category deleted successfully" });
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "category",
+        entityId: categoryId,
+        summary: `Moved category ${category.name} to the trash`,
+        before: category,
+      });
+      res.json({ message: "Category moved to the trash" });
     } catch (error) {
       console.error('Error deleting category:', error);
       res.status(500).json({ 
@@ -205,7 +676,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Products routes with pagination - Make GET public, but keep POST/PATCH/DELETE protected
-  app.post("/api/products", requireAdmin, async (req, res) => {
+  app.post("/api/products", requireStaff, async (req, res) => {
     try {
       console.log('Creating new product with data:', req.body);
       const parsed = insertProductSchema.safeParse(req.body);
@@ -220,11 +691,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         images: parsed.data.images,
         fullImages: parsed.data.fullImages || [],
         isAvailable: parsed.data.isAvailable ?? true,
+        stockQuantity: parsed.data.stockQuantity ?? 1,
+        priceTiers: parsed.data.priceTiers ?? [],
         createdAt: new Date(),
         categories: parsed.data.categories
       });
 
       console.log('Successfully created product:', product);
+      await recordAudit(req, {
+        action: "create",
+        entityType: "product",
+        entityId: product.id,
+        summary: `Created product ${product.name}`,
+        after: productSnapshot(await storage.getProduct(product.id)),
+      });
       res.status(201).json(product);
     } catch (error) {
       console.error('Error creating product:', error);
@@ -236,7 +716,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add new bulk category assignment endpoint
-  app.post("/api/products/bulk-assign-category", requireAdmin, async (req, res) => {
+  app.post("/api/products/bulk-assign-category", requireStaff, async (req, res) => {
     try {
       const { productIds, categoryId } = req.body;
       console.log('Bulk assigning category:', { productIds, categoryId });
@@ -262,6 +742,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Applying category ${category.name} with price ${category.defaultPrice} to ${productIds.length} products`);
 
       try {
+        const previousProducts = await Promise.all(
+          productIds.map(productId => storage.getProduct(productId))
+        );
+
         // Process in bulk
         await storage.addBulkProductCategories(productIds, [categoryId]);
 
@@ -270,6 +754,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           productIds.map(productId => storage.getProduct(productId))
         );
 
+        await recordAudit(req, updatedProducts.flatMap((product, index) => product ? [{
+          action: "update" as const,
+          entityType: "product" as const,
+          entityId: product.id,
+          summary: `Assigned category ${category.name} to ${product.name}`,
+          before: productSnapshot(previousProducts[index]),
+          after: productSnapshot(product),
+        }] : []));
+
         console.log(`Successfully assigned category ${categoryId} to ${updatedProducts.length} products`);
 
         res.json({
@@ -296,8 +789,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Update GET /api/products to handle category filtering and pricing
   app.get("/api/products", async (req, res) => {
     try {
-      const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 12;
+      const cursor = typeof req.query.cursor === 'string' ? decodeProductCursor(req.query.cursor) : undefined;
+      if (cursor === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
       const isAvailable = req.query.isAvailable === 'true' ? true : 
                          (req.query.isAvailable === 'false' ? false : undefined);
       const categoryId = req.query.categoryId ? 
@@ -305,13 +801,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
           req.query.categoryId.map(id => parseInt(id as string)) :
           [parseInt(req.query.categoryId as string)] 
         : undefined;
-      const offset = (page - 1) * limit;
+      const search = typeof req.query.q === 'string' && req.query.q.trim()
+        ? req.query.q.trim().slice(0, 200)
+        : undefined;
+      const sort = req.query.sort ? productSortSchema.safeParse(req.query.sort) : undefined;
+      if (sort && !sort.success) {
+        return res.status(400).json({ message: `Invalid sort, expected one of: ${productSorts.join(", ")}` });
+      }
+      const minPrice = req.query.minPrice ? Number(req.query.minPrice) : undefined;
+      const maxPrice = req.query.maxPrice ? Number(req.query.maxPrice) : undefined;
+      if ((minPrice !== undefined && isNaN(minPrice)) || (maxPrice !== undefined && isNaN(maxPrice))) {
+        return res.status(400).json({ message: "Invalid price range" });
+      }
+      const addedSince = req.query.addedSince ? new Date(req.query.addedSince as string) : undefined;
+      if (addedSince && isNaN(addedSince.getTime())) {
+        return res.status(400).json({ message: "Invalid addedSince date" });
+      }
 
-      console.log(`Fetching products page ${page} with limit ${limit}, categoryId: ${categoryId}, isAvailable: ${isAvailable}`);
-      const products = await storage.getProducts(offset, limit, categoryId, isAvailable);
+      console.log(`Fetching products after cursor ${req.query.cursor ?? '(start)'} with limit ${limit}, categoryId: ${categoryId}, isAvailable: ${isAvailable}, q: ${search}, sort: ${sort?.data}`);
+      const { data: products, nextCursor, totalCount } = await storage.getProducts({
+        cursor,
+        limit,
+        categoryIds: categoryId,
+        isAvailable,
+        search,
+        sort: sort?.data,
+        minPrice,
+        maxPrice,
+        addedSince,
+      });
       
       // Log more detailed information for debugging
-      console.log(`Found ${products.length} products in categories:`, categoryId);
+      console.log(`Found ${products.length} of ${totalCount} products in categories:`, categoryId);
       if (categoryId && isAvailable !== undefined) {
         const availableCount = products.filter(p => p.isAvailable === true).length;
         console.log(`Available products: ${availableCount}/${products.length}`);
@@ -321,9 +842,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       res.json({
-        data: products || [],
-        nextPage: products && products.length === limit ? page + 1 : undefined,
-        lastPage: !products || products.length < limit
+        data: products,
+        nextCursor,
+        totalCount,
       });
     } catch (error) {
       console.error('Error fetching products:', error);
@@ -334,19 +855,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/products/:id", requireAdmin, async (req, res) => {
+  app.get("/api/products/:id/price-history", requireViewer, async (req, res) => {
     try {
       const productId = parseInt(req.params.id);
       if (isNaN(productId)) {
         return res.status(400).json({ message: "Invalid product ID" });
       }
 
-      console.log('Updating product:', {
-        productId,
-        body: req.body,
-        categories: req.body.categories,
-        customPrice: req.body.customPrice
+      res.json(await storage.getPriceHistory("product", productId));
+    } catch (error) {
+      console.error('Error fetching product price history:', error);
+      res.status(500).json({
+        message: "Failed to fetch price history",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
       });
+    }
+  });
+
+  app.patch("/api/products/:id", requireStaff, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "Invalid product ID" });
+      }
+
+      console.log('Updating product:', {
+        productId,
+        body: req.body,
+        categories: req.body.categories,
+        customPrice: req.body.customPrice
+      });
+
+      const previousProduct = await storage.getProduct(productId);
+      if (!previousProduct) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const fields = updateProductSchema.safeParse(req.body);
+      if (!fields.success) {
+        return res.status(400).json({
+          message: "Invalid product data",
+          errors: fields.error.errors
+        });
+      }
 
       // Get existing product categories if we're setting a custom price but not changing categories
       let existingCategories = [];
@@ -367,38 +918,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Handle category updates
-      const categories = req.body.categories || req.body.categoryIds;
-      if (categories || existingCategories.length > 0) {
-        let categoryIds = categories;
+      // Replacing the categories and updating the fields commit together
+      await storage.transaction(async (tx) => {
+        // Handle category updates
+        const categories = req.body.categories || req.body.categoryIds;
+        if (categories || existingCategories.length > 0) {
+          let categoryIds = categories;
         
-        // If we're setting a custom price but not changing categories, use existing categories
-        if (!categories && existingCategories.length > 0) {
-          categoryIds = existingCategories.map(c => c.id);
-        }
+          // If we're setting a custom price but not changing categories, use existing categories
+          if (!categories && existingCategories.length > 0) {
+            categoryIds = existingCategories.map(c => c.id);
+          }
         
-        if (categoryIds) {
-          console.log('Updating product categories:', {productId, categoryIds});
+          if (categoryIds) {
+            console.log('Updating product categories:', {productId, categoryIds});
 
-          // Remove existing categories first
-          const currentCategories = await storage.getProductCategories(productId);
-          if (currentCategories.length > 0) {
-            await storage.removeProductCategories(productId, currentCategories.map(c => c.id));
-          }
+            // Remove existing categories first
+            const currentCategories = await tx.getProductCategories(productId);
+            if (currentCategories.length > 0) {
+              await tx.removeProductCategories(productId, currentCategories.map(c => c.id));
+            }
 
-          // Add new or preserved categories
-          if (categoryIds.length > 0) {
-            await storage.addProductCategories(productId, categoryIds);
+            // Add new or preserved categories
+            if (categoryIds.length > 0) {
+              await tx.addProductCategories(productId, categoryIds);
+            }
           }
         }
-      }
 
-      // Update other product fields excluding category fields
-      const {categories: _, categoryIds: __, ...updateFields} = req.body;
-      const product = await storage.updateProduct(productId, updateFields);
+        // Only validated fields reach the product row; categories were handled above
+        await tx.updateProduct(productId, fields.data, req.user?.id);
+      });
 
       // Fetch updated product with categories
       const updatedProduct = await storage.getProduct(productId);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "product",
+        entityId: productId,
+        summary: `Updated product ${updatedProduct?.name ?? previousProduct.name}`,
+        before: productSnapshot(previousProduct),
+        after: productSnapshot(updatedProduct),
+      });
       res.json(updatedProduct);
     } catch (error) {
       console.error('Error updating product:', error);
@@ -409,14 +970,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/products/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/products/:id", requireStaff, async (req, res) => {
     try {
       const productId = parseInt(req.params.id);
       if (isNaN(productId)) {
         return res.status(400).json({ message: "Invalid product ID" });
       }
 
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
       await storage.deleteProduct(productId);
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "product",
+        entityId: productId,
+        summary: `Moved product ${product.name} to the trash`,
+        before: productSnapshot(product),
+      });
       res.sendStatus(200);
     } catch (error) {
       console.error('Error deleting product:', error);
@@ -427,7 +1000,254 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/carts/:id", requireAdmin, async (req, res) => {
+  // Promotions: time-boxed percentage discounts
+  app.get("/api/promotions", requireViewer, async (req, res) => {
+    try {
+      res.json(await storage.getPromotions());
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+      res.status(500).json({
+        message: "Failed to fetch promotions",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.post("/api/promotions", requireStaff, async (req, res) => {
+    try {
+      const parsed = promotionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid promotion data",
+          errors: parsed.error.errors
+        });
+      }
+
+      const promotion = await storage.createPromotion(parsed.data);
+      await recordAudit(req, {
+        action: "create",
+        entityType: "promotion",
+        entityId: promotion.id,
+        summary: `Created promotion ${promotion.name} (${promotion.percentOff}% off)`,
+        after: promotion,
+      });
+      res.status(201).json(promotion);
+    } catch (error) {
+      if ((error as { code?: string })?.code === '23503') {
+        return res.status(400).json({ message: "A chosen category or product no longer exists" });
+      }
+      console.error('Error creating promotion:', error);
+      res.status(500).json({
+        message: "Failed to create promotion",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.patch("/api/promotions/:id", requireStaff, async (req, res) => {
+    try {
+      const promotionId = parseInt(req.params.id);
+      if (isNaN(promotionId)) {
+        return res.status(400).json({ message: "Invalid promotion ID" });
+      }
+
+      const parsed = promotionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid promotion data",
+          errors: parsed.error.errors
+        });
+      }
+
+      const previous = await storage.getPromotion(promotionId);
+      const promotion = await storage.updatePromotion(promotionId, parsed.data);
+      if (!previous || !promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+
+      await recordAudit(req, {
+        action: "update",
+        entityType: "promotion",
+        entityId: promotionId,
+        summary: `Updated promotion ${promotion.name}`,
+        before: previous,
+        after: promotion,
+      });
+      res.json(promotion);
+    } catch (error) {
+      if ((error as { code?: string })?.code === '23503') {
+        return res.status(400).json({ message: "A chosen category or product no longer exists" });
+      }
+      console.error('Error updating promotion:', error);
+      res.status(500).json({
+        message: "Failed to update promotion",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/promotions/:id", requireStaff, async (req, res) => {
+    try {
+      const promotionId = parseInt(req.params.id);
+      if (isNaN(promotionId)) {
+        return res.status(400).json({ message: "Invalid promotion ID" });
+      }
+
+      const promotion = await storage.getPromotion(promotionId);
+      if (!promotion || !(await storage.deletePromotion(promotionId))) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "promotion",
+        entityId: promotionId,
+        summary: `Deleted promotion ${promotion.name}`,
+        before: promotion,
+      });
+      res.json({ message: "Promotion deleted" });
+    } catch (error) {
+      console.error('Error deleting promotion:', error);
+      res.status(500).json({
+        message: "Failed to delete promotion",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  // Trash: soft-deleted products and categories
+  app.get("/api/admin/trash", requireStaff, async (req, res) => {
+    try {
+      // The retention lets the page show when each item will be purged
+      res.json({ ...(await storage.getTrash()), retentionDays: TRASH_RETENTION_DAYS });
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      res.status(500).json({
+        message: "Failed to fetch trash",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.post("/api/admin/trash/products/:id/restore", requireStaff, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "Invalid product ID" });
+      }
+
+      if (!(await storage.restoreProduct(productId))) {
+        return res.status(404).json({ message: "Product not found in the trash" });
+      }
+
+      const product = await storage.getProduct(productId);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "product",
+        entityId: productId,
+        summary: `Restored product ${product?.name ?? `#${productId}`} from the trash`,
+        before: { deleted: true },
+        after: { deleted: false },
+      });
+      res.json(product);
+    } catch (error) {
+      console.error('Error restoring product:', error);
+      res.status(500).json({
+        message: "Failed to restore product",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/admin/trash/products/:id", requireStaff, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "Invalid product ID" });
+      }
+
+      const product = await storage.getProduct(productId, { includeDeleted: true });
+      if (!(await storage.purgeProduct(productId))) {
+        return res.status(404).json({ message: "Product not found in the trash" });
+      }
+
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "product",
+        entityId: productId,
+        summary: `Permanently deleted product ${product?.name ?? `#${productId}`}`,
+        before: productSnapshot(product),
+      });
+      res.json({ message: "Product permanently deleted" });
+    } catch (error) {
+      console.error('Error purging product:', error);
+      res.status(500).json({
+        message: "Failed to permanently delete product",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.post("/api/admin/trash/categories/:id/restore", requireStaff, async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+
+      if (!(await storage.restoreCategory(categoryId))) {
+        return res.status(404).json({ message: "Category not found in the trash" });
+      }
+
+      const category = await storage.getCategory(categoryId);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "category",
+        entityId: categoryId,
+        summary: `Restored category ${category?.name ?? `#${categoryId}`} from the trash`,
+        before: { deleted: true },
+        after: { deleted: false },
+      });
+      res.json(category);
+    } catch (error) {
+      console.error('Error restoring category:', error);
+      res.status(500).json({
+        message: "Failed to restore category",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/admin/trash/categories/:id", requireStaff, async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+
+      const trashed = (await storage.getTrash()).categories.find(category => category.id === categoryId);
+      if (!(await storage.purgeCategory(categoryId))) {
+        return res.status(404).json({ message: "Category not found in the trash" });
+      }
+
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "category",
+        entityId: categoryId,
+        summary: `Permanently deleted category ${trashed?.name ?? `#${categoryId}`}`,
+        before: trashed,
+      });
+      res.json({ message: "Category permanently deleted" });
+    } catch (error) {
+      console.error('Error purging category:', error);
+      res.status(500).json({
+        message: "Failed to permanently delete category",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/carts/:id", requireStaff, async (req, res) => {
     try {
       const cartId = parseInt(req.params.id);
       if (isNaN(cartId)) {
@@ -440,6 +1260,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.deleteCart(cartId);
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "cart",
+        entityId: cartId,
+        summary: `Deleted cart #${cartId} for ${cart.customerName || "an unnamed customer"}`,
+        before: cartSnapshot(cart),
+      });
       res.json({ message: "Cart deleted successfully" });
     } catch (error) {
       console.error('Error deleting cart:', error);
@@ -450,7 +1277,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/carts/:id/make-items-unavailable", requireAdmin, async (req, res) => {
+  app.post("/api/carts/:id/make-items-unavailable", requireStaff, async (req, res) => {
     try {
       const cartId = parseInt(req.params.id);
       if (isNaN(cartId)) {
@@ -462,52 +1289,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Cart not found" });
       }
 
-      console.log(`Making items unavailable for cart ${cartId}`);
-      const cartItems = cart.items;
+      if (cart.status !== 'submitted') {
+        return res.status(409).json({ message: "Only submitted carts can be sold" });
+      }
 
-      if (cartItems.length === 0) {
+      if (cart.items.length === 0) {
         return res.status(400).json({ message: "No items in cart to update" });
       }
 
-      // Extract all product IDs from cart
-      const productIds = cartItems.map(item => item.productId);
-      console.log(`Updating availability for ${productIds.length} products: ${productIds.join(', ')}`);
-
-      // Process all products in a single batch
-      const results = [];
-      const maxRetries = 3;
-
-      // Process all products together for better performance
-      for (const productId of productIds) {
-        let retryCount = 0;
-        let success = false;
-
-        while (!success && retryCount < maxRetries) {
-          try {
-            const updated = await storage.updateProduct(productId, { isAvailable: false });
-            console.log(`Successfully updated product ${productId} to unavailable`);
-            results.push({ productId, success: true, product: updated });
-            success = true;
-          } catch (error) {
-            retryCount++;
-            console.error(`Failed attempt ${retryCount} for product ${productId}:`, error);
-
-            if (retryCount >= maxRetries) {
-              results.push({ 
-                productId, 
-                success: false, 
-                error: error instanceof Error ? error.message : 'Unknown error' 
-              });
-            } else {
-              // Short delay before retry
-              await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
-            }
-          }
+      console.log(`Taking ${cart.items.length} products out of stock for cart ${cartId}`);
+
+      // One unit of work: every product loses its units and the cart is marked
+      // sold, releasing its holds, or nothing changes at all
+      const updates = await storage.transaction(async (tx) => {
+        const sold = await tx.markCartSold(cartId);
+        if (!sold) return undefined;
+
+        const results = [];
+        for (const { productId, quantity } of sold.items) {
+          const previous = await tx.getProduct(productId, { includeDeleted: true });
+          const product = await tx.deductStock(productId, quantity);
+          results.push({ productId, quantity, previous, product });
         }
+        return results;
+      });
+
+      if (!updates) {
+        return res.status(409).json({ message: "Only submitted carts can be sold" });
       }
 
-      const successfulUpdates = results.filter(update => update.success);
-      const failedUpdates = results.filter(update => !update.success);
+      await recordAudit(req, updates.map(update => ({
+        action: "update" as const,
+        entityType: "product" as const,
+        entityId: update.productId,
+        summary: `Sold ${update.quantity} of ${update.product.name} from cart #${cartId}`,
+        before: { stockQuantity: update.previous?.stockQuantity, isAvailable: update.previous?.isAvailable },
+        after: { stockQuantity: update.product.stockQuantity, isAvailable: update.product.isAvailable },
+      })));
 
       // Update cart items in background
       storage.refreshCartItems(cartId)
@@ -518,11 +1336,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.error('Error refreshing cart items:', refreshError);
         });
 
-      // Return results immediately
       res.json({
-        message: `Successfully updated ${successfulUpdates.length} products${failedUpdates.length > 0 ? `, failed to update ${failedUpdates.length} products` : ''}`,
-        updatedProducts: successfulUpdates.map(u => u.product),
-        failedProducts: failedUpdates.map(f => f.productId)
+        message: `Successfully updated ${updates.length} products`,
+        updatedProducts: updates.map(update => update.product),
       });
     } catch (error) {
       console.error('Error updating cart items:', error);
@@ -533,7 +1349,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/carts/:cartId/items/:itemId", requireAdmin, async (req, res) => {
+  app.post("/api/carts/:id/convert-to-order", requireStaff, async (req, res) => {
+    try {
+      const cartId = parseInt(req.params.id);
+      if (isNaN(cartId)) {
+        return res.status(400).json({ message: "Invalid cart ID" });
+      }
+
+      const cart = await storage.getCart(cartId);
+      if (!cart) {
+        return res.status(404).json({ message: "Cart not found" });
+      }
+
+      if (cart.status !== 'submitted' && cart.status !== 'sold') {
+        return res.status(409).json({ message: "Only submitted carts can be converted to orders" });
+      }
+
+      if (cart.items.length === 0) {
+        return res.status(400).json({ message: "No items in cart to convert" });
+      }
+
+      const order = await storage.convertCartToOrder(cartId);
+      if (!order) {
+        return res.status(409).json({ message: "Cart was converted or changed by another request; reload and try again" });
+      }
+      await recordAudit(req, [
+        {
+          action: "create",
+          entityType: "order",
+          entityId: order.id,
+          summary: `Created order #${order.id} from cart #${cartId}`,
+          after: order,
+        },
+        {
+          action: "delete",
+          entityType: "cart",
+          entityId: cartId,
+          summary: `Converted cart #${cartId} to order #${order.id}`,
+          before: cartSnapshot(cart),
+        },
+      ]);
+      res.status(201).json(order);
+    } catch (error) {
+      console.error('Error converting cart to order:', error);
+      res.status(500).json({
+        message: "Failed to convert cart to order",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/carts/:cartId/items/:itemId", requireStaff, async (req, res) => {
     try {
       const cartId = parseInt(req.params.cartId);
       const itemId = parseInt(req.params.itemId);
@@ -548,6 +1414,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.deleteCartItem(cartId, itemId);
+      const item = cart.items.find(cartItem => cartItem.id === itemId);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "cart",
+        entityId: cartId,
+        summary: `Removed ${item?.name ?? `item #${itemId}`} from cart #${cartId}`,
+        before: cartSnapshot(cart),
+        after: cartSnapshot(await storage.getCart(cartId)),
+      });
       res.json({ message: "Cart item removed successfully" });
     } catch (error) {
       console.error('Error removing cart item:', error);
@@ -558,6 +1433,403 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Order routes
+  app.get("/api/orders", requireViewer, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const orders = await storage.getOrders(limit);
+      res.json(orders);
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+      res.status(500).json({
+        message: "Failed to fetch orders",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.get("/api/orders/:id", requireViewer, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      if (isNaN(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+
+      const order = await storage.getOrder(orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      res.json(order);
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      res.status(500).json({
+        message: "Failed to fetch order",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.post("/api/orders", requireStaff, async (req, res) => {
+    try {
+      const parsed = insertOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid order data",
+          errors: parsed.error.errors
+        });
+      }
+
+      const order = await storage.createOrder(parsed.data);
+      console.log(`Created order ${order.id} for ${order.customerName}`);
+      await recordAudit(req, {
+        action: "create",
+        entityType: "order",
+        entityId: order.id,
+        summary: `Created order #${order.id} for ${order.customerName}`,
+        after: order,
+      });
+      res.status(201).json(order);
+    } catch (error) {
+      console.error('Error creating order:', error);
+      res.status(500).json({
+        message: "Failed to create order",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.patch("/api/orders/:id/status", requireStaff, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      if (isNaN(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+
+      const parsed = updateOrderStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid order status",
+          errors: parsed.error.errors
+        });
+      }
+
+      const existing = await storage.getOrder(orderId);
+      if (!existing) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (!canTransitionOrderStatus(existing.status, parsed.data.status)) {
+        return res.status(409).json({
+          message: `Cannot change order status from ${existing.status} to ${parsed.data.status}`
+        });
+      }
+
+      const order = await storage.updateOrderStatus(orderId, existing.status as OrderStatus, parsed.data.status);
+      if (!order) {
+        return res.status(409).json({
+          message: "Order status was changed by another request; reload and try again"
+        });
+      }
+      console.log(`Order ${orderId} status changed from ${existing.status} to ${order.status}`);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "order",
+        entityId: orderId,
+        summary: `Changed order #${orderId} status from ${existing.status} to ${order.status}`,
+        before: existing,
+        after: order,
+      });
+      res.json(order);
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      res.status(500).json({
+        message: "Failed to update order status",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/orders/:id", requireStaff, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      if (isNaN(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+
+      const order = await storage.getOrder(orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      await storage.deleteOrder(orderId);
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "order",
+        entityId: orderId,
+        summary: `Deleted order #${orderId} for ${order.customerName}`,
+        before: order,
+      });
+      res.json({ message: "Order deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting order:', error);
+      res.status(500).json({
+        message: "Failed to delete order",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  // Admin invitation routes
+  const withoutTokenHash = ({ tokenHash, ...invitation }: AdminInvitation) => invitation;
+
+  app.get("/api/admin/invitations", requireOwner, async (req, res) => {
+    try {
+      const invitations = await storage.getInvitations();
+      res.json(invitations.map(withoutTokenHash));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      res.status(500).json({
+        message: "Failed to fetch invitations",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.post("/api/admin/invitations", requireOwner, async (req, res) => {
+    try {
+      const parsed = createInvitationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid invitation data",
+          errors: parsed.error.errors
+        });
+      }
+
+      // The plain token is only ever returned here
+      const token = generateInvitationToken();
+      const invitation = await storage.createInvitation({
+        tokenHash: hashInvitationToken(token),
+        role: parsed.data.role,
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + parsed.data.expiresInHours * 60 * 60 * 1000),
+      });
+
+      await recordAudit(req, {
+        action: "create",
+        entityType: "invitation",
+        entityId: invitation.id,
+        summary: `Invited a new ${invitation.role}`,
+        after: withoutTokenHash(invitation),
+      });
+      res.status(201).json({ ...withoutTokenHash(invitation), token });
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      res.status(500).json({
+        message: "Failed to create invitation",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/admin/invitations/:id", requireOwner, async (req, res) => {
+    try {
+      const invitationId = parseInt(req.params.id);
+      if (isNaN(invitationId)) {
+        return res.status(400).json({ message: "Invalid invitation ID" });
+      }
+
+      const revoked = await storage.deleteInvitation(invitationId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "invitation",
+        entityId: invitationId,
+        summary: `Revoked invitation #${invitationId}`,
+      });
+      res.json({ message: "Invitation revoked" });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      res.status(500).json({
+        message: "Failed to revoke invitation",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  // Admin user management routes
+  app.get("/api/admin/users", requireOwner, async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({
+        message: "Failed to fetch users",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.patch("/api/admin/users/:id", requireOwner, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const parsed = updateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid user data",
+          errors: parsed.error.errors
+        });
+      }
+
+      const previousUser = await storage.getUser(userId);
+      const user = await storage.updateUser(userId, parsed.data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAudit(req, {
+        action: "update",
+        entityType: "user",
+        entityId: userId,
+        summary: `Updated user ${user.username}`,
+        before: previousUser && toPublicUser(previousUser),
+        after: toPublicUser(user),
+      });
+
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof LastOwnerError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Error updating user:', error);
+      res.status(500).json({
+        message: "Failed to update user",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.delete("/api/admin/users/:id", requireOwner, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const user = await storage.getUser(userId);
+      const deleted = await storage.deleteUser(userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "user",
+        entityId: userId,
+        summary: `Deleted user ${user?.username ?? `#${userId}`}`,
+        before: user && toPublicUser(user),
+      });
+
+      res.json({ message: "User deleted successfully" });
+    } catch (error) {
+      if (error instanceof LastOwnerError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Error deleting user:', error);
+      res.status(500).json({
+        message: "Failed to delete user",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  // Team-wide settings
+  app.get("/api/admin/settings", requireOwner, async (req, res) => {
+    try {
+      res.json(await storage.getAppSettings());
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      res.status(500).json({
+        message: "Failed to fetch settings",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.patch("/api/admin/settings", requireOwner, async (req, res) => {
+    try {
+      const parsed = updateAppSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid settings",
+          errors: parsed.error.errors
+        });
+      }
+
+      // Otherwise the owner making the change would be sent straight to 2FA setup
+      if (parsed.data.requireTwoFactor && !req.user!.totpEnabled) {
+        return res.status(400).json({ message: "Enable two-factor authentication on your own account first" });
+      }
+
+      const previousSettings = await storage.getAppSettings();
+      const settings = await storage.updateAppSettings(parsed.data);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "settings",
+        summary: "Updated team settings",
+        before: previousSettings,
+        after: settings,
+      });
+      res.json(settings);
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      res.status(500).json({
+        message: "Failed to update settings",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.get("/api/admin/audit", requireOwner, async (req, res) => {
+    try {
+      const parsed = auditEventFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid audit log filters",
+          errors: parsed.error.errors
+        });
+      }
+
+      res.json(await storage.getAuditEvents(parsed.data));
+    } catch (error) {
+      console.error('Error fetching audit events:', error);
+      res.status(500).json({
+        message: "Failed to fetch audit events",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
+  app.get("/api/admin/login-attempts", requireOwner, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      res.json(await storage.getFailedLogins(limit));
+    } catch (error) {
+      console.error('Error fetching login attempts:', error);
+      res.status(500).json({
+        message: "Failed to fetch login attempts",
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    }
+  });
+
   console.log('Creating HTTP server...');
   const httpServer = createServer(app);
 
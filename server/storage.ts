@@ -1,24 +1,158 @@
-import { InsertUser, User, Product, Cart, InsertCart, Category, InsertCategory, CartItem, cartItems, InsertCartItem } from "@shared/schema";
-import { users, products as productsTable, carts as cartsTable, categories as categoriesTable, productCategories } from "@shared/schema";
+import { InsertUser, User, UserRole, UpdateUser, AdminInvitation, LoginAttempt, AuditEvent, AuditEventFilters, AuditEventPage, AppSettings, appSettingsSchema, Product, ProductPage, ProductSort, Trash, Cart, CartContact, InsertCart, Category, InsertCategory, UpdateCategory, CategoryPricePreview, PriceHistoryEntry, PriceHistoryEntityType, Promotion, InsertPromotion, CartItem, cartItems, InsertCartItem, Order, InsertOrder, OrderItem, OrderStatus, orderStatusTimestamps } from "@shared/schema";
+import { users, adminInvitations, loginAttempts, appSettings, auditEvents, products as productsTable, carts as cartsTable, categories as categoriesTable, productCategories, priceHistory, orders as ordersTable, productReservations, productSearchVector, productEffectivePrice, productRegularPrice, productDiscountPercent, productAvailableQuantity, promotions as promotionsTable, promotionCategories, promotionProducts } from "@shared/schema";
 import session from "express-session";
-import { db, pool } from "./db";
-import { eq, desc, and, inArray, sql } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { db as defaultDb, pool } from "./db";
+import { eq, asc, desc, and, or, gt, gte, lt, lte, ilike, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import connectPg from "connect-pg-simple";
+import { unitPriceForQuantity, cartTotal } from "@shared/pricing";
+import { MemStorage } from "./mem-storage";
 
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof defaultDb.transaction>[0]>[0];
+// What storage queries run through: the pool-backed database or an open transaction
+type Executor = typeof defaultDb | Transaction;
+
+// How long a submitted cart holds its products before they are released
+export const RESERVATION_HOLD_MS = Number(process.env.RESERVATION_HOLD_HOURS || 48) * 60 * 60 * 1000;
+
+// Cart columns for the buyer's contact details; omitted fields are stored as null
+export function contactValues(contact: CartContact) {
+  return {
+    customerName: contact.customerName,
+    customerEmail: contact.customerEmail ?? null,
+    customerPhone: contact.customerPhone ?? null,
+    fulfillmentMethod: contact.fulfillmentMethod ?? null,
+    notes: contact.notes ?? null,
+  };
+}
+
+// Update that takes sold units out of stock, marking the product unavailable when none are left
+function stockDeduction(quantity: number, now: Date) {
+  return {
+    stockQuantity: sql`GREATEST(${productsTable.stockQuantity} - ${quantity}, 0)`,
+    isAvailable: sql`${productsTable.isAvailable} AND ${productsTable.stockQuantity} > ${quantity}`,
+    updatedAt: now,
+  };
+}
+
+// Thrown when a change would leave the team without an active owner
+export class LastOwnerError extends Error {
+  constructor() {
+    super('At least one active owner is required');
+    this.name = 'LastOwnerError';
+  }
+}
+
+// Thrown when a category's parent is missing or would create a loop, or when
+// categories being reordered do not share a parent
+export class CategoryHierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategoryHierarchyError';
+  }
+}
+
+// Thrown when a cart claims products that are sold or whose stock other carts already hold
+export class ReservationConflictError extends Error {
+  constructor(public readonly productIds: number[]) {
+    super(`Products already claimed: ${productIds.join(', ')}`);
+    this.name = 'ReservationConflictError';
+  }
+}
+
+// Position after the last product of a page: its sort value (as text) and id
+export interface ProductCursor {
+  value: string;
+  id: number;
+}
+
+export function encodeProductCursor(cursor: ProductCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+export function decodeProductCursor(encoded: string): ProductCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || typeof decoded[0] !== 'string' || !Number.isInteger(decoded[1])) {
+      return null;
+    }
+    return { value: decoded[0], id: decoded[1] };
+  } catch {
+    return null;
+  }
+}
+
+export interface ProductQueryOptions {
+  cursor?: ProductCursor;
+  limit?: number;
+  categoryIds?: number[];
+  isAvailable?: boolean;
+  // Free-text search over product name and description
+  search?: string;
+  // Defaults to search relevance when searching, otherwise newest first
+  sort?: ProductSort;
+  // Inclusive bounds on the effective price
+  minPrice?: number;
+  maxPrice?: number;
+  addedSince?: Date;
+}
+
+// Unicode letters and digits; built with the constructor since the compile target predates the `u` flag
+const SEARCH_TERM_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+// Lower-cased words of a search, keeping only letters and digits
+export function searchTerms(search: string): string[] {
+  return search.toLowerCase().match(SEARCH_TERM_PATTERN) ?? [];
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery, e.g. "red jack" -> "red:* & jack:*".
+ * Only letters and digits are kept so user input can never produce a tsquery syntax error.
+ */
+export function toPrefixTsQuery(search: string): string | null {
+  const terms = searchTerms(search);
+  if (terms.length === 0) return null;
+  return terms.map(term => `${term}:*`).join(' & ');
+}
+
 export interface IStorage {
   sessionStore: session.Store;
+  // Run fn against a storage whose calls all commit or roll back together
+  transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T>;
   getUsers(): Promise<User[]>;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser & { isAdmin?: boolean }): Promise<User>;
-  getProducts(offset?: number, limit?: number, categoryIds?: number[]): Promise<Product[]>;
-  getProduct(id: number): Promise<Product | undefined>;
+  createUser(user: InsertUser & { role?: UserRole }): Promise<User>;
+  updateUser(id: number, updates: UpdateUser): Promise<User | undefined>;
+  updateUserPassword(id: number, password: string): Promise<void>;
+  recordLogin(id: number): Promise<void>;
+  deleteUser(id: number): Promise<boolean>;
+  updateTwoFactor(id: number, fields: Partial<Pick<User, 'totpSecret' | 'totpEnabled' | 'totpLastUsedStep' | 'recoveryCodes'>>): Promise<User | undefined>;
+  consumeTotpStep(id: number, step: number): Promise<boolean>;
+  consumeRecoveryCode(id: number, codeHash: string): Promise<boolean>;
+  getAppSettings(): Promise<AppSettings>;
+  updateAppSettings(updates: Partial<AppSettings>): Promise<AppSettings>;
+  createAuditEvents(events: Omit<AuditEvent, 'id' | 'createdAt'>[]): Promise<void>;
+  getAuditEvents(filters: AuditEventFilters): Promise<AuditEventPage>;
+  recordFailedLogin(attempt: { username: string; ipAddress?: string; reason: string }): Promise<void>;
+  getFailedLogins(limit?: number): Promise<LoginAttempt[]>;
+  deleteFailedLoginsBefore(cutoff: Date): Promise<number>;
+  getInvitations(): Promise<AdminInvitation[]>;
+  createInvitation(invitation: { tokenHash: string; role: UserRole; createdBy: number; expiresAt: Date }): Promise<AdminInvitation>;
+  // False when there was no such invitation
+  deleteInvitation(id: number): Promise<boolean>;
+  createUserFromInvitation(tokenHash: string, user: Pick<InsertUser, 'username' | 'password'>): Promise<User | undefined>;
+  getProducts(options?: ProductQueryOptions): Promise<ProductPage>;
+  getProduct(id: number, options?: { includeDeleted?: boolean }): Promise<Product | undefined>;
   createProduct(product: Omit<Product, 'id'> & { categories?: number[] }): Promise<Product>;
-  updateProduct(id: number, product: Partial<Product> & { categories?: number[] }): Promise<Product>;
+  updateProduct(id: number, product: Partial<Product> & { categories?: number[] }, changedBy?: number | null): Promise<Product>;
   deleteProduct(id: number): Promise<void>;
-  getCarts(limit?: number): Promise<Cart[]>;
+  restoreProduct(id: number): Promise<boolean>;
+  purgeProduct(id: number): Promise<boolean>;
+  getCarts(limit?: number, search?: string): Promise<Cart[]>;
   createCart(cart: InsertCart): Promise<Cart>;
   updateCart(id: number, cart: Partial<Cart>): Promise<Cart>;
   deleteCart(id: number): Promise<void>;
@@ -26,7 +160,20 @@ export interface IStorage {
   getCategories(): Promise<Category[]>;
   getCategory(id: number): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: number, updates: UpdateCategory, changedBy?: number | null): Promise<Category | undefined>;
+  reorderCategories(categoryIds: number[]): Promise<void>;
+  previewCategoryPriceChange(id: number, newPrice: number): Promise<CategoryPricePreview | undefined>;
+  getPriceHistory(entityType: PriceHistoryEntityType, entityId: number): Promise<PriceHistoryEntry[]>;
+  getPromotions(): Promise<Promotion[]>;
+  getPromotion(id: number): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: number, promotion: InsertPromotion): Promise<Promotion | undefined>;
+  deletePromotion(id: number): Promise<boolean>;
   deleteCategory(id: number): Promise<void>;
+  restoreCategory(id: number): Promise<boolean>;
+  purgeCategory(id: number): Promise<boolean>;
+  getTrash(): Promise<Trash>;
+  purgeDeletedBefore(cutoff: Date): Promise<{ products: number; categories: number }>;
   addProductCategories(productId: number, categoryIds: number[]): Promise<void>;
   removeProductCategories(productId: number, categoryIds: number[]): Promise<void>;
   getProductCategories(productId: number): Promise<Category[]>;
@@ -34,73 +181,522 @@ export interface IStorage {
   addBulkProductCategories(productIds: number[], categoryIds: number[]): Promise<void>;
   refreshCartItems(cartId: number): Promise<void>;
   deleteCartItem(cartId: number, itemId: number): Promise<void>;
+  getCartByToken(token: string): Promise<Cart | undefined>;
+  createDraftCart(): Promise<Cart>;
+  addCartItem(cartId: number, product: Product, quantity: number): Promise<CartItem>;
+  setCartItemQuantity(cartId: number, itemId: number, quantity: number): Promise<CartItem | undefined>;
+  clearCartItems(cartId: number): Promise<void>;
+  submitCart(cartId: number, contact: CartContact): Promise<Cart>;
+  releaseExpiredReservations(): Promise<number>;
+  deductStock(productId: number, quantity: number): Promise<Product>;
+  // Undefined when the cart is missing or not submitted, e.g. already sold
+  markCartSold(cartId: number): Promise<Cart | undefined>;
+  getOrders(limit?: number): Promise<Order[]>;
+  getOrder(id: number): Promise<Order | undefined>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  // Undefined when the order no longer has status `from`, e.g. a concurrent change got there first
+  updateOrderStatus(id: number, from: OrderStatus, to: OrderStatus): Promise<Order | undefined>;
+  deleteOrder(id: number): Promise<void>;
+  // Undefined when the cart is gone or not submitted or sold, e.g. a concurrent convert got there first
+  convertCartToOrder(cartId: number): Promise<Order | undefined>;
+}
+
+// Sessions live in Postgres beside the app data; every storage instance shares one store
+function createSessionStore(): session.Store {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL environment variable is required");
+  }
+  const store = new PostgresSessionStore({
+    conObject: {
+      connectionString: process.env.DATABASE_URL,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    },
+    tableName: 'session_store',
+    createTableIfMissing: true,
+    pruneSessionInterval: false,
+    errorLog: console.error,
+  });
+
+  // Create session store table if it doesn't exist
+  pool.query(`
+    CREATE TABLE IF NOT EXISTS "session_store" (
+      "sid" varchar NOT NULL COLLATE "default" PRIMARY KEY NOT DEFERRABLE INITIALLY IMMEDIATE,
+      "sess" json NOT NULL,
+      "expire" timestamp(6) NOT NULL
+    )
+  `).catch(err => console.error('Error creating session table:', err));
+
+  return store;
 }
 
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
-  constructor() {
-    if (!process.env.DATABASE_URL) {
-      throw new Error("DATABASE_URL environment variable is required");
-    }
-    this.sessionStore = new PostgresSessionStore({
-      conObject: {
-        connectionString: process.env.DATABASE_URL,
-        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
-      },
-      tableName: 'session_store',
-      createTableIfMissing: true,
-      pruneSessionInterval: false,
-      errorLog: console.error,
-    });
-
-    // Create session store table if it doesn't exist
-    pool.query(`
-      CREATE TABLE IF NOT EXISTS "session_store" (
-        "sid" varchar NOT NULL COLLATE "default" PRIMARY KEY NOT DEFERRABLE INITIALLY IMMEDIATE,
-        "sess" json NOT NULL,
-        "expire" timestamp(6) NOT NULL
-      )
-    `).catch(err => console.error('Error creating session table:', err));
+  /**
+   * Queries run through `db`: the shared connection pool by default, or
+   * a transaction when the storage was handed out by `transaction()`.
+   */
+  constructor(private readonly db: Executor = defaultDb, sessionStore?: session.Store) {
+    this.sessionStore = sessionStore ?? createSessionStore();
+  }
+
+  /**
+   * Run `fn` as one unit of work. Every call on the storage it receives shares
+   * a single transaction, which is rolled back if `fn` throws. Nested calls use
+   * savepoints.
+   */
+  async transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(tx => fn(new DatabaseStorage(tx, this.sessionStore)));
   }
 
   async getUsers(): Promise<User[]> {
-    return await db.select().from(users);
+    return await this.db.select().from(users).orderBy(asc(users.id));
   }
 
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user;
   }
 
-  async createUser(insertUser: InsertUser & { isAdmin?: boolean }): Promise<User> {
+  async createUser(insertUser: InsertUser & { role?: UserRole }): Promise<User> {
     const existingUsers = await this.getUsers();
     const isFirstUser = existingUsers.length === 0;
+    const role = insertUser.role ?? (isFirstUser ? 'owner' : 'viewer');
 
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values({
         username: insertUser.username,
         password: insertUser.password,
-        isAdmin: insertUser.isAdmin ?? isFirstUser,
+        role,
+        isAdmin: role !== 'viewer',
       })
       .returning();
     return user;
   }
 
-  async getProducts(pageOffset = 0, pageLimit = 12, categoryIds?: number[], isAvailable?: boolean): Promise<Product[]> {
+  /**
+   * Lock the active owners and make sure at least one remains once the given
+   * user stops being one. Locking keeps two owners from demoting each other
+   * at the same time.
+   */
+  private async assertOwnerRemains(tx: Transaction, userId: number): Promise<void> {
+    const owners = await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.role, 'owner'), eq(users.disabled, false)))
+      .for('update');
+
+    if (!owners.some(owner => owner.id !== userId)) {
+      throw new LastOwnerError();
+    }
+  }
+
+  async updateUser(id: number, updates: UpdateUser): Promise<User | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [existing] = await tx.select().from(users).where(eq(users.id, id));
+        if (!existing) return undefined;
+
+        const losesOwner = existing.role === 'owner' && !existing.disabled &&
+          ((updates.role !== undefined && updates.role !== 'owner') || updates.disabled === true);
+        if (losesOwner) {
+          await this.assertOwnerRemains(tx, id);
+        }
+
+        const [user] = await tx
+          .update(users)
+          .set({
+            ...updates,
+            ...(updates.role !== undefined && { isAdmin: updates.role !== 'viewer' }),
+          })
+          .where(eq(users.id, id))
+          .returning();
+        return user;
+      });
+    } catch (error) {
+      console.error(`Database error in updateUser(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<void> {
+    try {
+      await this.db
+        .update(users)
+        .set({ password, mustResetPassword: false })
+        .where(eq(users.id, id));
+    } catch (error) {
+      console.error(`Database error in updateUserPassword(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async recordLogin(id: number): Promise<void> {
     try {
-      console.log(`Fetching products with offset: ${pageOffset}, limit: ${pageLimit}, categories: ${categoryIds}, isAvailable: ${isAvailable}`);
+      await this.db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, id));
+    } catch (error) {
+      console.error(`Database error in recordLogin(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [existing] = await tx.select().from(users).where(eq(users.id, id));
+        if (!existing) return false;
+
+        if (existing.role === 'owner' && !existing.disabled) {
+          await this.assertOwnerRemains(tx, id);
+        }
+
+        await tx.delete(users).where(eq(users.id, id));
+        return true;
+      });
+    } catch (error) {
+      console.error(`Database error in deleteUser(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async updateTwoFactor(id: number, fields: Partial<Pick<User, 'totpSecret' | 'totpEnabled' | 'totpLastUsedStep' | 'recoveryCodes'>>): Promise<User | undefined> {
+    try {
+      const [user] = await this.db.update(users).set(fields).where(eq(users.id, id)).returning();
+      return user;
+    } catch (error) {
+      console.error(`Database error in updateTwoFactor(${id}):`, error);
+      throw error;
+    }
+  }
+
+  // Accept a TOTP time step only if it is newer than the last one used
+  async consumeTotpStep(id: number, step: number): Promise<boolean> {
+    try {
+      const updated = await this.db
+        .update(users)
+        .set({ totpLastUsedStep: step })
+        .where(and(
+          eq(users.id, id),
+          or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+        ))
+        .returning({ id: users.id });
+      return updated.length > 0;
+    } catch (error) {
+      console.error(`Database error in consumeTotpStep(${id}):`, error);
+      throw error;
+    }
+  }
+
+  // Remove a recovery code in the same statement that checks for it, so it can only be used once
+  async consumeRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    try {
+      const updated = await this.db
+        .update(users)
+        .set({ recoveryCodes: sql`${users.recoveryCodes} - ${codeHash}::text` })
+        .where(and(
+          eq(users.id, id),
+          sql`${users.recoveryCodes} @> ${JSON.stringify([codeHash])}::jsonb`
+        ))
+        .returning({ id: users.id });
+      return updated.length > 0;
+    } catch (error) {
+      console.error(`Database error in consumeRecoveryCode(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async getAppSettings(): Promise<AppSettings> {
+    try {
+      const rows = await this.db.select().from(appSettings);
+      // Missing keys fall back to the schema defaults
+      return appSettingsSchema.parse(Object.fromEntries(rows.map(row => [row.key, row.value])));
+    } catch (error) {
+      console.error('Database error in getAppSettings:', error);
+      throw error;
+    }
+  }
+
+  async updateAppSettings(updates: Partial<AppSettings>): Promise<AppSettings> {
+    try {
+      for (const [key, value] of Object.entries(updates)) {
+        if (value === undefined) continue;
+        await this.db
+          .insert(appSettings)
+          .values({ key, value, updatedAt: new Date() })
+          .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } });
+      }
+      return await this.getAppSettings();
+    } catch (error) {
+      console.error('Database error in updateAppSettings:', error);
+      throw error;
+    }
+  }
+
+  async createAuditEvents(events: Omit<AuditEvent, 'id' | 'createdAt'>[]): Promise<void> {
+    if (events.length === 0) return;
+    try {
+      const createdAt = new Date();
+      await this.db.insert(auditEvents).values(events.map(event => ({ ...event, createdAt })));
+    } catch (error) {
+      console.error('Database error in createAuditEvents:', error);
+      throw error;
+    }
+  }
+
+  async getAuditEvents({ userId, entityType, entityId, from, to, cursor, limit: pageLimit }: AuditEventFilters): Promise<AuditEventPage> {
+    try {
+      const conditions: SQL[] = [];
+      if (userId !== undefined) conditions.push(eq(auditEvents.userId, userId));
+      if (entityType) conditions.push(eq(auditEvents.entityType, entityType));
+      if (entityId !== undefined) conditions.push(eq(auditEvents.entityId, entityId));
+      if (from) conditions.push(gte(auditEvents.createdAt, from));
+      if (to) conditions.push(lte(auditEvents.createdAt, to));
+      // Ids increase with time, so the id alone works as a newest-first cursor
+      if (cursor !== undefined) conditions.push(lt(auditEvents.id, cursor));
+
+      const rows = await this.db
+        .select()
+        .from(auditEvents)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(auditEvents.id))
+        .limit(pageLimit + 1);
+
+      const data = rows.slice(0, pageLimit);
+      return {
+        data,
+        nextCursor: rows.length > pageLimit ? data[data.length - 1].id : null,
+      };
+    } catch (error) {
+      console.error('Database error in getAuditEvents:', error);
+      throw error;
+    }
+  }
+
+  async recordFailedLogin(attempt: { username: string; ipAddress?: string; reason: string }): Promise<void> {
+    try {
+      await this.db.insert(loginAttempts).values({
+        username: attempt.username.slice(0, 255),
+        ipAddress: attempt.ipAddress ?? null,
+        reason: attempt.reason,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      console.error('Database error in recordFailedLogin:', error);
+      throw error;
+    }
+  }
+
+  async getFailedLogins(limit = 100): Promise<LoginAttempt[]> {
+    try {
+      return await this.db
+        .select()
+        .from(loginAttempts)
+        .orderBy(desc(loginAttempts.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('Database error in getFailedLogins:', error);
+      throw error;
+    }
+  }
+
+  async deleteFailedLoginsBefore(cutoff: Date): Promise<number> {
+    try {
+      const deleted = await this.db
+        .delete(loginAttempts)
+        .where(lt(loginAttempts.createdAt, cutoff))
+        .returning({ id: loginAttempts.id });
+      return deleted.length;
+    } catch (error) {
+      console.error('Database error in deleteFailedLoginsBefore:', error);
+      throw error;
+    }
+  }
+
+  async getInvitations(): Promise<AdminInvitation[]> {
+    try {
+      return await this.db
+        .select()
+        .from(adminInvitations)
+        .orderBy(desc(adminInvitations.createdAt));
+    } catch (error) {
+      console.error('Database error in getInvitations:', error);
+      throw error;
+    }
+  }
+
+  async createInvitation(invitation: { tokenHash: string; role: UserRole; createdBy: number; expiresAt: Date }): Promise<AdminInvitation> {
+    try {
+      const [created] = await this.db
+        .insert(adminInvitations)
+        .values({ ...invitation, createdAt: new Date() })
+        .returning();
+      return created;
+    } catch (error) {
+      console.error('Database error in createInvitation:', error);
+      throw error;
+    }
+  }
+
+  async deleteInvitation(id: number): Promise<boolean> {
+    try {
+      const deleted = await this.db
+        .delete(adminInvitations)
+        .where(eq(adminInvitations.id, id))
+        .returning({ id: adminInvitations.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error(`Database error in deleteInvitation(${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim an unused, unexpired invitation and create the invited user with its
+   * role. Returns undefined when the invitation cannot be used.
+   */
+  async createUserFromInvitation(tokenHash: string, insertUser: Pick<InsertUser, 'username' | 'password'>): Promise<User | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const now = new Date();
+        // Marking the invitation used first means two concurrent sign-ups cannot both claim it
+        const [invitation] = await tx
+          .update(adminInvitations)
+          .set({ usedAt: now })
+          .where(and(
+            eq(adminInvitations.tokenHash, tokenHash),
+            isNull(adminInvitations.usedAt),
+            gt(adminInvitations.expiresAt, now)
+          ))
+          .returning();
+
+        if (!invitation) return undefined;
+
+        const [user] = await tx
+          .insert(users)
+          .values({
+            username: insertUser.username,
+            password: insertUser.password,
+            role: invitation.role,
+            isAdmin: invitation.role !== 'viewer',
+          })
+          .returning();
+
+        await tx
+          .update(adminInvitations)
+          .set({ usedBy: user.id })
+          .where(eq(adminInvitations.id, invitation.id));
+
+        return user;
+      });
+    } catch (error) {
+      console.error('Database error in createUserFromInvitation:', error);
+      throw error;
+    }
+  }
+
+  async getProducts({ cursor, limit: pageLimit = 12, categoryIds, isAvailable, search, sort, minPrice, maxPrice, addedSince }: ProductQueryOptions = {}): Promise<ProductPage> {
+    try {
+      console.log(`Fetching products with cursor: ${JSON.stringify(cursor)}, limit: ${pageLimit}, categories: ${categoryIds}, isAvailable: ${isAvailable}, search: ${search}, sort: ${sort}`);
 
       const limit = Math.max(1, Math.min(100, pageLimit));
 
-      // Build the base query
-      let query = db
+      // Create an array of conditions to be combined later; trashed products are never listed
+      const conditions: SQL[] = [isNull(productsTable.deletedAt)];
+
+      // Add availability filter if provided
+      if (isAvailable !== undefined) {
+        conditions.push(eq(productsTable.isAvailable, isAvailable));
+      }
+
+      // Add category filter if categoryIds is provided
+      if (categoryIds && categoryIds.length > 0) {
+        // Use a subquery to filter products by category, including its live subcategories
+        const selectedCategoryIds = sql.join(categoryIds.map(id => sql`${id}`), sql`, `);
+        const productsInCategories = this.db
+          .select({ productId: productCategories.productId })
+          .from(productCategories)
+          .where(inArray(productCategories.categoryId, sql`(
+            WITH RECURSIVE subtree AS (
+              SELECT id FROM categories WHERE id IN (${selectedCategoryIds})
+              UNION
+              SELECT c.id FROM categories c
+              INNER JOIN subtree s ON c.parent_id = s.id
+              WHERE c.deleted_at IS NULL
+            )
+            SELECT id FROM subtree
+          )`));
+
+        conditions.push(inArray(productsTable.id, productsInCategories));
+      }
+
+      // Add full-text search filter, ranking name matches above description matches
+      const tsQuery = search ? toPrefixTsQuery(search) : null;
+      const searchVector = productSearchVector(productsTable);
+      if (tsQuery) {
+        conditions.push(sql`${searchVector} @@ to_tsquery('english', ${tsQuery})`);
+      }
+
+      // Add price range and date filters
+      const effectivePrice = productEffectivePrice(productsTable);
+      if (minPrice !== undefined) {
+        conditions.push(gte(effectivePrice, minPrice));
+      }
+      if (maxPrice !== undefined) {
+        conditions.push(lte(effectivePrice, maxPrice));
+      }
+      if (addedSince) {
+        conditions.push(gte(productsTable.createdAt, addedSince));
+      }
+
+      const sortKey = this.productSortKey(sort, tsQuery ? sql`ts_rank(${searchVector}, to_tsquery('english', ${tsQuery}))` : null);
+      const order = sortKey.direction === "asc" ? asc : desc;
+
+      // Keyset condition: rows strictly after the last (sort value, id) of the previous page
+      const pageConditions = [...conditions];
+      if (cursor) {
+        const comparison = sql.raw(sortKey.direction === "asc" ? ">" : "<");
+        pageConditions.push(
+          sql`(${sortKey.value}, ${productsTable.id}) ${comparison} (${cursor.value}::${sql.raw(sortKey.type)}, ${cursor.id})`
+        );
+      }
+
+      // Page through products alone first; joining categories before the limit
+      // would let a product with several categories take up several rows
+      const [pageRows, [{ totalCount }]] = await Promise.all([
+        this.db
+          .select({
+            id: productsTable.id,
+            // Carried as text so the cursor round-trips without losing timestamp precision
+            sortValue: sql<string>`(${sortKey.value})::text`,
+          })
+          .from(productsTable)
+          .where(and(...pageConditions))
+          .orderBy(order(sortKey.value), order(productsTable.id))
+          .limit(limit + 1),
+        this.db
+          .select({ totalCount: sql<number>`count(*)`.mapWith(Number) })
+          .from(productsTable)
+          .where(and(...conditions)),
+      ]);
+
+      const hasMore = pageRows.length > limit;
+      const page = pageRows.slice(0, limit);
+      const lastRow = page[page.length - 1];
+      const nextCursor = hasMore && lastRow
+        ? encodeProductCursor({ value: lastRow.sortValue, id: lastRow.id })
+        : null;
+
+      if (page.length === 0) {
+        return { data: [], nextCursor: null, totalCount };
+      }
+
+      const result = await this.db
         .select({
           id: productsTable.id,
           name: productsTable.name,
@@ -110,8 +706,15 @@ export class DatabaseStorage implements IStorage {
           customPrice: productsTable.customPrice,
           categoryPrice: productsTable.categoryPrice,
           isAvailable: productsTable.isAvailable,
+          stockQuantity: productsTable.stockQuantity,
+          priceTiers: productsTable.priceTiers,
           createdAt: productsTable.createdAt,
           updatedAt: productsTable.updatedAt,
+          deletedAt: productsTable.deletedAt,
+          effectivePrice: productEffectivePrice(productsTable),
+          regularPrice: productRegularPrice(productsTable),
+          discountPercent: productDiscountPercent(productsTable),
+          availableQuantity: productAvailableQuantity(productsTable),
           categories: categoriesTable,
         })
         .from(productsTable)
@@ -121,37 +724,9 @@ export class DatabaseStorage implements IStorage {
         )
         .leftJoin(
           categoriesTable,
-          eq(productCategories.categoryId, categoriesTable.id)
-        );
-
-      // Create an array of conditions to be combined later
-      const conditions = [];
-
-      // Add availability filter if provided
-      if (isAvailable !== undefined) {
-        conditions.push(eq(productsTable.isAvailable, isAvailable));
-      }
-
-      // Add category filter if categoryIds is provided
-      if (categoryIds && categoryIds.length > 0) {
-        // Use a subquery to filter products by category
-        const productsInCategories = db
-          .select({ productId: productCategories.productId })
-          .from(productCategories)
-          .where(inArray(productCategories.categoryId, categoryIds));
-
-        conditions.push(inArray(productsTable.id, productsInCategories));
-      }
-
-      // Apply all conditions if any exist
-      if (conditions.length > 0) {
-        query = query.where(and(...conditions));
-      }
-
-      const result = await query
-        .orderBy(desc(productsTable.createdAt))
-        .offset(pageOffset)
-        .limit(limit);
+          and(eq(productCategories.categoryId, categoriesTable.id), isNull(categoriesTable.deletedAt))
+        )
+        .where(inArray(productsTable.id, page.map(row => row.id)));
 
       // Group the results by product
       const productsMap = new Map<number, Product & { categories: Category[] }>();
@@ -173,18 +748,50 @@ export class DatabaseStorage implements IStorage {
         }
       });
 
-      return Array.from(productsMap.values());
+      // Restore the order of the page query
+      const data = page
+        .map(row => productsMap.get(row.id))
+        .filter((product): product is Product & { categories: Category[] } => product !== undefined);
+
+      return { data, nextCursor, totalCount };
     } catch (error) {
       console.error('Error in getProducts:', error);
       throw error;
     }
   }
 
-  async getProduct(id: number): Promise<Product | undefined> {
+  // Expression products are ordered by, with its Postgres type for casting cursor values back.
+  // Ties are broken by id in the same direction so (value, id) can be compared as a row.
+  private productSortKey(sort: ProductSort | undefined, searchRank: SQL | null): { value: SQL | AnyPgColumn; type: string; direction: "asc" | "desc" } {
+    switch (sort) {
+      case "oldest":
+        return { value: productsTable.createdAt, type: "timestamp", direction: "asc" };
+      case "price_asc":
+        return { value: productEffectivePrice(productsTable), type: "integer", direction: "asc" };
+      case "price_desc":
+        return { value: productEffectivePrice(productsTable), type: "integer", direction: "desc" };
+      case "name_asc":
+        return { value: productsTable.name, type: "text", direction: "asc" };
+      case "name_desc":
+        return { value: productsTable.name, type: "text", direction: "desc" };
+      case "newest":
+        return { value: productsTable.createdAt, type: "timestamp", direction: "desc" };
+      default:
+        return searchRank
+          ? { value: searchRank, type: "real", direction: "desc" }
+          : { value: productsTable.createdAt, type: "timestamp", direction: "desc" };
+    }
+  }
+
+  async getProduct(id: number, { includeDeleted = false }: { includeDeleted?: boolean } = {}): Promise<Product | undefined> {
     try {
-      const result = await db
+      const result = await this.db
         .select({
           product: productsTable,
+          effectivePrice: productEffectivePrice(productsTable),
+          regularPrice: productRegularPrice(productsTable),
+          discountPercent: productDiscountPercent(productsTable),
+          availableQuantity: productAvailableQuantity(productsTable),
           category: categoriesTable,
         })
         .from(productsTable)
@@ -194,9 +801,12 @@ export class DatabaseStorage implements IStorage {
         )
         .leftJoin(
           categoriesTable,
-          eq(productCategories.categoryId, categoriesTable.id)
+          and(eq(productCategories.categoryId, categoriesTable.id), isNull(categoriesTable.deletedAt))
         )
-        .where(eq(productsTable.id, id));
+        .where(and(
+          eq(productsTable.id, id),
+          includeDeleted ? undefined : isNull(productsTable.deletedAt)
+        ));
 
       if (result.length === 0) return undefined;
 
@@ -208,6 +818,10 @@ export class DatabaseStorage implements IStorage {
 
       return {
         ...product,
+        effectivePrice: result[0].effectivePrice,
+        regularPrice: result[0].regularPrice,
+        discountPercent: result[0].discountPercent,
+        availableQuantity: result[0].availableQuantity,
         categories,
       };
     } catch (error) {
@@ -221,7 +835,7 @@ export class DatabaseStorage implements IStorage {
       console.log('Creating product with data:', insertProduct);
       const { categories: categoryIds, ...productData } = insertProduct;
 
-      const [product] = await db
+      const [product] = await this.db
         .insert(productsTable)
         .values({
           name: productData.name,
@@ -229,6 +843,8 @@ export class DatabaseStorage implements IStorage {
           images: productData.images || [],
           fullImages: productData.fullImages || [],
           isAvailable: productData.isAvailable ?? true,
+          stockQuantity: productData.stockQuantity ?? 1,
+          priceTiers: productData.priceTiers ?? [],
           createdAt: new Date()
         })
         .returning();
@@ -244,85 +860,99 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateProduct(id: number, updates: Partial<Product> & { categories?: number[] }): Promise<Product> {
-    const client = await pool.connect();
+  async updateProduct(id: number, updates: Partial<Product> & { categories?: number[] }, changedBy: number | null = null): Promise<Product> {
     try {
-      await client.query('BEGIN');
       console.log('Updating product with data:', { id, updates });
 
-      const { categories: categoryIds, ...productUpdates } = updates;
-      let categoryPrice = null;
-
-      // Calculate the new category price if either:
-      // 1. Categories are being explicitly updated
-      // 2. Categories aren't being updated but we need to maintain the current category price
-      if (categoryIds !== undefined) {
-        if (categoryIds.length > 0) {
-          // Get the highest default price from assigned categories
-          const categoryPrices = await db
-            .select({ defaultPrice: categoriesTable.defaultPrice })
-            .from(categoriesTable)
-            .where(inArray(categoriesTable.id, categoryIds));
-  
-          if (categoryPrices.length > 0) {
-            categoryPrice = Math.max(...categoryPrices.map(c => Number(c.defaultPrice)));
-          }
-        }
-      } else if (productUpdates.customPrice !== undefined) {
-        // If setting a custom price but not changing categories, preserve the current category price
-        const currentProduct = await db
-          .select()
+      await this.db.transaction(async (tx) => {
+        const { categories: categoryIds, ...productUpdates } = updates;
+        let categoryPrice = null;
+
+        const [previous] = await tx
+          .select({ customPrice: productsTable.customPrice })
           .from(productsTable)
           .where(eq(productsTable.id, id))
           .limit(1);
+
+        // Calculate the new category price if either:
+        // 1. Categories are being explicitly updated
+        // 2. Categories aren't being updated but we need to maintain the current category price
+        if (categoryIds !== undefined) {
+          if (categoryIds.length > 0) {
+            // Cache the cheapest default price, as productRegularPrice charges it
+            const categoryPrices = await tx
+              .select({ defaultPrice: categoriesTable.defaultPrice })
+              .from(categoriesTable)
+              .where(inArray(categoriesTable.id, categoryIds));
+  
+            if (categoryPrices.length > 0) {
+              categoryPrice = Math.min(...categoryPrices.map(c => Number(c.defaultPrice)));
+            }
+          }
+        } else {
+          // Categories are not changing, so neither is the cached category price
+          const currentProduct = await tx
+            .select()
+            .from(productsTable)
+            .where(eq(productsTable.id, id))
+            .limit(1);
           
-        if (currentProduct.length > 0) {
-          categoryPrice = currentProduct[0].categoryPrice;
+          if (currentProduct.length > 0) {
+            categoryPrice = currentProduct[0].categoryPrice;
+          }
         }
-      }
 
-      // Update product details including the new category price
-      const [product] = await db
-        .update(productsTable)
-        .set({
-          ...productUpdates,
-          categoryPrice: categoryPrice,
-          updatedAt: new Date(),
-        })
-        .where(eq(productsTable.id, id))
-        .returning();
+        // Update product details including the new category price
+        const [product] = await tx
+          .update(productsTable)
+          .set({
+            ...productUpdates,
+            categoryPrice: categoryPrice,
+            updatedAt: new Date(),
+          })
+          .where(eq(productsTable.id, id))
+          .returning();
 
-      if (!product) {
-        throw new Error('Product not found');
-      }
+        if (!product) {
+          throw new Error('Product not found');
+        }
 
-      // Update category assignments if provided
-      if (categoryIds !== undefined) {
-        console.log('Updating product categories:', categoryIds);
-
-        // Remove existing categories first
-        await db
-          .delete(productCategories)
-          .where(eq(productCategories.productId, id));
-
-        if (categoryIds.length > 0) {
-          // Add new categories
-          const categoryEntries = categoryIds.map(categoryId => ({
-            productId: id,
-            categoryId,
-          }));
-
-          await db
-            .insert(productCategories)
-            .values(categoryEntries);
+        if (previous && product.customPrice !== previous.customPrice) {
+          await tx.insert(priceHistory).values({
+            entityType: 'product',
+            entityId: id,
+            oldPrice: previous.customPrice,
+            newPrice: product.customPrice,
+            changedBy,
+          });
         }
-      } else if (productUpdates.customPrice !== undefined) {
-        // If we're just updating the custom price, make sure we don't lose category assignments
-        console.log('Setting custom price while preserving categories');
-        // No need to modify categories if not explicitly provided
-      }
 
-      await client.query('COMMIT');
+        // Update category assignments if provided
+        if (categoryIds !== undefined) {
+          console.log('Updating product categories:', categoryIds);
+
+          // Remove existing categories first
+          await tx
+            .delete(productCategories)
+            .where(eq(productCategories.productId, id));
+
+          if (categoryIds.length > 0) {
+            // Add new categories
+            const categoryEntries = categoryIds.map(categoryId => ({
+              productId: id,
+              categoryId,
+            }));
+
+            await tx
+              .insert(productCategories)
+              .values(categoryEntries);
+          }
+        } else if (productUpdates.customPrice !== undefined) {
+          // If we're just updating the custom price, make sure we don't lose category assignments
+          console.log('Setting custom price while preserving categories');
+          // No need to modify categories if not explicitly provided
+        }
+      });
 
       // Fetch updated product with categories
       const updatedProduct = await this.getProduct(id);
@@ -334,36 +964,78 @@ export class DatabaseStorage implements IStorage {
       return updatedProduct;
 
     } catch (error) {
-      await client.query('ROLLBACK');
       console.error(`Database error in updateProduct(${id}):`, error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 
+  // Moves the product to the trash; purgeProduct removes it for good
   async deleteProduct(id: number): Promise<void> {
     try {
-      await db.delete(productsTable).where(eq(productsTable.id, id));
+      await this.db
+        .update(productsTable)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(productsTable.id, id), isNull(productsTable.deletedAt)));
     } catch (error) {
       console.error(`Database error in deleteProduct(${id}):`, error);
       throw error;
     }
   }
 
-  async getCarts(limit: number = 50): Promise<Cart[]> {
+  async restoreProduct(id: number): Promise<boolean> {
+    try {
+      const restored = await this.db
+        .update(productsTable)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(and(eq(productsTable.id, id), isNotNull(productsTable.deletedAt)))
+        .returning({ id: productsTable.id });
+      return restored.length > 0;
+    } catch (error) {
+      console.error(`Database error in restoreProduct(${id}):`, error);
+      throw error;
+    }
+  }
+
+  // Only trashed products can be purged
+  async purgeProduct(id: number): Promise<boolean> {
     try {
-      console.log(`Fetching carts with limit ${limit} from PostgreSQL...`);
+      const purged = await this.db
+        .delete(productsTable)
+        .where(and(eq(productsTable.id, id), isNotNull(productsTable.deletedAt)))
+        .returning({ id: productsTable.id });
+      return purged.length > 0;
+    } catch (error) {
+      console.error(`Database error in purgeProduct(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async getCarts(limit: number = 50, search?: string): Promise<Cart[]> {
+    try {
+      console.log(`Fetching carts with limit ${limit}${search ? ` matching "${search}"` : ''} from PostgreSQL...`);
 
-      const carts = await db
+      // Match any contact field; escape LIKE wildcards so they are searched literally
+      const pattern = search ? `%${search.replace(/[\\%_]/g, '\\$&')}%` : undefined;
+
+      // Drafts are still being filled in by customers
+      const carts = await this.db
         .select()
         .from(cartsTable)
+        .where(and(
+          inArray(cartsTable.status, ['submitted', 'sold']),
+          pattern ? or(
+            ilike(cartsTable.customerName, pattern),
+            ilike(cartsTable.customerEmail, pattern),
+            ilike(cartsTable.customerPhone, pattern),
+            ilike(cartsTable.notes, pattern)
+          ) : undefined
+        ))
         .orderBy(desc(cartsTable.createdAt))
         .limit(Math.min(limit, 100));
 
       const cartsWithItems = await Promise.all(
         carts.map(async (cart) => {
-          const items = await db
+          const items = await this.db
             .select({
               id: cartItems.id,
               cartId: cartItems.cartId,
@@ -373,6 +1045,7 @@ export class DatabaseStorage implements IStorage {
               images: cartItems.images,
               fullImages: cartItems.fullImages,
               price: cartItems.price,
+              quantity: cartItems.quantity,
               isAvailable: cartItems.isAvailable,
               createdAt: cartItems.createdAt,
             })
@@ -381,173 +1054,724 @@ export class DatabaseStorage implements IStorage {
 
           return {
             ...cart,
-            items: items || []
+            items: items || [],
+            total: cartTotal(items || []),
           };
         })
       );
 
       return cartsWithItems;
     } catch (error) {
-      console.error('Database error in getCarts:', error);
-      throw new Error('Failed to fetch carts: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      console.error('Database error in getCarts:', error);
+      throw new Error('Failed to fetch carts: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  async getCart(id: number): Promise<Cart | undefined> {
+    try {
+      const result = await this.db
+        .select({
+          cart: cartsTable,
+          items: cartItems,
+          regularPrice: sql<number | null>`CASE WHEN ${productsTable.id} IS NULL THEN NULL ELSE ${productRegularPrice(productsTable)} END`,
+          discountPercent: sql<number | null>`CASE WHEN ${productsTable.id} IS NULL THEN NULL ELSE ${productDiscountPercent(productsTable)} END`,
+          priceTiers: productsTable.priceTiers,
+        })
+        .from(cartsTable)
+        .leftJoin(cartItems, eq(cartsTable.id, cartItems.cartId))
+        .leftJoin(productsTable, eq(productsTable.id, cartItems.productId))
+        .where(eq(cartsTable.id, id));
+
+      if (result.length === 0) return undefined;
+
+      const cart = result[0].cart;
+      // Filter out null items and ensure type safety. Drafts show what their
+      // products sell for now at the quantity held; prices are frozen when the cart is submitted.
+      const items = result
+        .filter((r): r is typeof r & { items: NonNullable<typeof r.items> } => r.items !== null)
+        .map(r => cart.status === 'draft' && r.regularPrice !== null
+          ? {
+              ...r.items,
+              price: unitPriceForQuantity({
+                regularPrice: Number(r.regularPrice),
+                discountPercent: Number(r.discountPercent),
+                priceTiers: r.priceTiers,
+              }, r.items.quantity),
+            }
+          : r.items);
+
+      return {
+        ...cart,
+        items,
+        total: cartTotal(items),
+      };
+    } catch (error) {
+      console.error(`Database error in getCart(${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Place a submitted cart from product IDs. Each item is snapshotted from the
+   * product as it is now and priced for its quantity; products that are sold,
+   * deleted or missing are reported through a ReservationConflictError.
+   */
+  async createCart(insertCart: InsertCart): Promise<Cart> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const now = new Date();
+        const holdExpiresAt = new Date(now.getTime() + RESERVATION_HOLD_MS);
+
+        // 1. Create the cart
+        const [cart] = await tx
+          .insert(cartsTable)
+          .values({
+            ...contactValues(insertCart),
+            status: 'submitted',
+            submittedAt: now,
+            holdExpiresAt,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .returning();
+
+        if (!cart) {
+          throw new Error('Failed to create cart');
+        }
+
+        // 2. Hold the products; a conflict rolls the whole cart back
+        await this.reserveProducts(tx, cart.id, insertCart.items, holdExpiresAt);
+
+        // 3. Read the products under the lock taken by the reservation, so the
+        // snapshot matches what was reserved
+        const scoped = new DatabaseStorage(tx, this.sessionStore);
+        const products = await Promise.all(insertCart.items.map(item => scoped.getProduct(item.productId)));
+
+        // 4. Snapshot each product at the unit price it sells for in that quantity
+        const itemsToInsert = insertCart.items.map((item, index) => {
+          const product = products[index]!;
+          return {
+            cartId: cart.id,
+            productId: product.id,
+            name: product.name,
+            description: product.description,
+            images: product.images,
+            fullImages: product.fullImages || [],
+            price: unitPriceForQuantity(product, item.quantity),
+            quantity: item.quantity,
+            isAvailable: true,
+            createdAt: now
+          };
+        });
+
+        // 5. Insert all cart items
+        const items = await tx
+          .insert(cartItems)
+          .values(itemsToInsert)
+          .returning();
+
+        // 6. Return complete cart with items
+        return {
+          ...cart,
+          items,
+          total: cartTotal(items),
+        };
+      });
+    } catch (error) {
+      console.error('Error creating cart:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hold units of products for a cart until `expiresAt`. Lapsed holds are
+   * cleared first; any product that is sold, deleted or does not have enough
+   * stock left beside other carts' holds is reported through a
+   * ReservationConflictError.
+   */
+  private async reserveProducts(tx: Transaction, cartId: number, lines: { productId: number; quantity: number }[], expiresAt: Date): Promise<void> {
+    const requested = new Map<number, number>();
+    lines.forEach(line => requested.set(line.productId, (requested.get(line.productId) ?? 0) + line.quantity));
+    const ids = Array.from(requested.keys());
+    if (ids.length === 0) return;
+
+    await tx
+      .delete(productReservations)
+      .where(and(
+        inArray(productReservations.productId, ids),
+        lte(productReservations.expiresAt, new Date())
+      ));
+
+    // Locking the product rows makes carts competing for the same stock take turns
+    const available = await tx
+      .select({ id: productsTable.id, stockQuantity: productsTable.stockQuantity })
+      .from(productsTable)
+      .where(and(
+        inArray(productsTable.id, ids),
+        eq(productsTable.isAvailable, true),
+        isNull(productsTable.deletedAt)
+      ))
+      .for('update');
+
+    const heldElsewhere = await tx
+      .select({
+        productId: productReservations.productId,
+        quantity: sql<number>`SUM(${productReservations.quantity})`.mapWith(Number),
+      })
+      .from(productReservations)
+      .where(and(
+        inArray(productReservations.productId, ids),
+        sql`${productReservations.cartId} <> ${cartId}`
+      ))
+      .groupBy(productReservations.productId);
+
+    const held = new Map(heldElsewhere.map(row => [row.productId, row.quantity]));
+    const reservable = available.filter(product =>
+      product.stockQuantity - (held.get(product.id) ?? 0) >= requested.get(product.id)!
+    );
+
+    const reservableIds = new Set(reservable.map(product => product.id));
+    const conflicts = ids.filter(id => !reservableIds.has(id));
+    if (conflicts.length > 0) {
+      throw new ReservationConflictError(conflicts);
+    }
+
+    await tx
+      .insert(productReservations)
+      .values(reservable.map(product => ({ productId: product.id, cartId, quantity: requested.get(product.id)!, expiresAt })))
+      .onConflictDoUpdate({
+        target: [productReservations.productId, productReservations.cartId],
+        set: { quantity: sql`excluded.quantity`, expiresAt: sql`excluded.expires_at` },
+      });
+  }
+
+  // Record units sold outside an order; the product goes unavailable once its stock runs out
+  async deductStock(productId: number, quantity: number): Promise<Product> {
+    try {
+      const [product] = await this.db
+        .update(productsTable)
+        .set(stockDeduction(quantity, new Date()))
+        .where(eq(productsTable.id, productId))
+        .returning({ id: productsTable.id });
+
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      return (await this.getProduct(productId, { includeDeleted: true }))!;
+    } catch (error) {
+      console.error(`Database error in deductStock(${productId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that a submitted cart's units were sold outside an order. Its
+   * reservations go in the same step, so the sold units are not also held.
+   */
+  async markCartSold(cartId: number): Promise<Cart | undefined> {
+    try {
+      const sold = await this.db.transaction(async (tx) => {
+        const [cart] = await tx
+          .update(cartsTable)
+          .set({ status: 'sold', holdExpiresAt: null, updatedAt: new Date() })
+          .where(and(eq(cartsTable.id, cartId), eq(cartsTable.status, 'submitted')))
+          .returning({ id: cartsTable.id });
+        if (!cart) return false;
+
+        await tx.delete(productReservations).where(eq(productReservations.cartId, cartId));
+        return true;
+      });
+
+      return sold ? this.getCart(cartId) : undefined;
+    } catch (error) {
+      console.error(`Database error in markCartSold(${cartId}):`, error);
+      throw error;
+    }
+  }
+
+  async releaseExpiredReservations(): Promise<number> {
+    try {
+      const released = await this.db
+        .delete(productReservations)
+        .where(lte(productReservations.expiresAt, new Date()))
+        .returning({ id: productReservations.id });
+      return released.length;
+    } catch (error) {
+      console.error('Database error in releaseExpiredReservations:', error);
+      throw error;
+    }
+  }
+
+  async deleteCart(id: number): Promise<void> {
+    try {
+      // Items and reservations go with the cart through CASCADE, in the same statement
+      await this.db.delete(cartsTable).where(eq(cartsTable.id, id));
+    } catch (error) {
+      console.error(`Database error in deleteCart(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async getCategories(): Promise<Category[]> {
+    try {
+      const categories = await this.db
+        .select()
+        .from(categoriesTable)
+        .where(isNull(categoriesTable.deletedAt))
+        .orderBy(desc(categoriesTable.createdAt));
+
+      return categories.filter((category): category is Category => category !== null);
+    } catch (error) {
+      console.error('Error in getCategories:', error);
+      throw error;
+    }
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    try {
+      const [category] = await this.db
+        .select()
+        .from(categoriesTable)
+        .where(and(eq(categoriesTable.id, id), isNull(categoriesTable.deletedAt)))
+        .limit(1);
+      return category || undefined;
+    } catch (error) {
+      console.error(`Error in getCategory(${id}):`, error);
+      throw error;
+    }
+  }
+
+  // A category's parent must be a live category that is not the category itself or one of its descendants
+  private async assertValidParent(tx: Transaction, categoryId: number | null, parentId: number): Promise<void> {
+    const result = await tx.execute(sql`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id FROM categories WHERE id = ${parentId} AND deleted_at IS NULL
+        UNION
+        SELECT c.id, c.parent_id FROM categories c
+        INNER JOIN ancestors a ON c.id = a.parent_id
+      )
+      SELECT id FROM ancestors
+    `);
+    const ancestorIds = (result.rows as { id: number }[]).map(row => Number(row.id));
+
+    if (ancestorIds.length === 0) {
+      throw new CategoryHierarchyError('Parent category not found');
+    }
+    if (categoryId !== null && ancestorIds.includes(categoryId)) {
+      throw new CategoryHierarchyError('A category cannot be placed inside itself or one of its subcategories');
+    }
+  }
+
+  // Position after the last category under the same parent
+  private async nextSortOrder(tx: Transaction, parentId: number | null): Promise<number> {
+    const [{ maxSortOrder }] = await tx
+      .select({ maxSortOrder: sql<number | null>`MAX(${categoriesTable.sortOrder})` })
+      .from(categoriesTable)
+      .where(parentId === null ? isNull(categoriesTable.parentId) : eq(categoriesTable.parentId, parentId));
+    return maxSortOrder === null ? 0 : Number(maxSortOrder) + 1;
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    try {
+      console.log('Creating category with data:', category);
+      const parentId = category.parentId ?? null;
+      const newCategory = await this.db.transaction(async (tx) => {
+        if (parentId !== null) {
+          await this.assertValidParent(tx, null, parentId);
+        }
+
+        const [inserted] = await tx
+          .insert(categoriesTable)
+          .values({
+            name: category.name,
+            defaultPrice: category.defaultPrice,
+            parentId,
+            sortOrder: await this.nextSortOrder(tx, parentId),
+            createdAt: new Date()
+          })
+          .returning();
+        return inserted;
+      });
+
+      if (!newCategory) {
+        throw new Error('Failed to create category');
+      }
+
+      return newCategory;
+    } catch (error) {
+      console.error('Error in createCategory:', error);
+      throw error;
+    }
+  }
+
+  async updateCategory(id: number, updates: UpdateCategory, changedBy: number | null = null): Promise<Category | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select()
+          .from(categoriesTable)
+          .where(and(eq(categoriesTable.id, id), isNull(categoriesTable.deletedAt)))
+          .for('update');
+        if (!existing) return undefined;
+
+        const movesParent = updates.parentId !== undefined && updates.parentId !== existing.parentId;
+        if (movesParent && updates.parentId != null) {
+          await this.assertValidParent(tx, id, updates.parentId);
+        }
+
+        const [category] = await tx
+          .update(categoriesTable)
+          .set({
+            ...updates,
+            // A moved category goes to the end of its new siblings
+            ...(movesParent && { sortOrder: await this.nextSortOrder(tx, updates.parentId ?? null) }),
+          })
+          .where(eq(categoriesTable.id, id))
+          .returning();
+
+        if (category.defaultPrice !== existing.defaultPrice) {
+          await tx.insert(priceHistory).values({
+            entityType: 'category',
+            entityId: id,
+            oldPrice: existing.defaultPrice,
+            newPrice: category.defaultPrice,
+            changedBy,
+          });
+
+          // Keep the cached cheapest category price on the category's products in step
+          await tx.execute(sql`
+            UPDATE products SET category_price = (
+              SELECT MIN(c.default_price) FROM product_categories pc
+              INNER JOIN categories c ON c.id = pc.category_id
+              WHERE pc.product_id = products.id AND c.deleted_at IS NULL
+            )
+            WHERE id IN (SELECT product_id FROM product_categories WHERE category_id = ${id})
+          `);
+        }
+
+        return category;
+      });
+    } catch (error) {
+      console.error(`Error in updateCategory(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async reorderCategories(categoryIds: number[]): Promise<void> {
+    try {
+      await this.db.transaction(async (tx) => {
+        const siblings = await tx
+          .select({ id: categoriesTable.id, parentId: categoriesTable.parentId })
+          .from(categoriesTable)
+          .where(and(inArray(categoriesTable.id, categoryIds), isNull(categoriesTable.deletedAt)))
+          .for('update');
+
+        if (siblings.length !== new Set(categoryIds).size) {
+          throw new CategoryHierarchyError('Category not found');
+        }
+        if (new Set(siblings.map(sibling => sibling.parentId)).size > 1) {
+          throw new CategoryHierarchyError('Only categories with the same parent can be reordered together');
+        }
+
+        for (let i = 0; i < categoryIds.length; i++) {
+          await tx
+            .update(categoriesTable)
+            .set({ sortOrder: i })
+            .where(eq(categoriesTable.id, categoryIds[i]));
+        }
+      });
+    } catch (error) {
+      console.error('Error in reorderCategories:', error);
+      throw error;
+    }
+  }
+
+  // Works out which available products would sell at a different price if the
+  // category's default price changed, mirroring productEffectivePrice
+  async previewCategoryPriceChange(id: number, newPrice: number): Promise<CategoryPricePreview | undefined> {
+    try {
+      const category = await this.getCategory(id);
+      if (!category) return undefined;
+
+      const result = await this.db.execute(sql`
+        WITH priced AS (
+          SELECT
+            p.id,
+            p.custom_price IS NULL
+              AND prices.current_price IS DISTINCT FROM prices.new_price AS affected
+          FROM products p
+          INNER JOIN product_categories own ON own.product_id = p.id AND own.category_id = ${id}
+          CROSS JOIN LATERAL (
+            SELECT
+              MIN(c.default_price) AS current_price,
+              MIN(CASE WHEN c.id = ${id} THEN ${newPrice}::integer ELSE c.default_price END) AS new_price
+            FROM product_categories pc
+            INNER JOIN categories c ON c.id = pc.category_id
+            WHERE pc.product_id = p.id AND c.deleted_at IS NULL
+          ) prices
+          WHERE p.is_available = true AND p.deleted_at IS NULL
+        )
+        SELECT
+          COUNT(*) FILTER (WHERE affected) AS "affectedProductCount",
+          COUNT(*) FILTER (WHERE NOT affected) AS "unaffectedProductCount",
+          (
+            SELECT COUNT(DISTINCT ci.cart_id) FROM cart_items ci
+            INNER JOIN carts ON carts.id = ci.cart_id AND carts.status = 'draft'
+            WHERE ci.product_id IN (SELECT id FROM priced WHERE affected)
+          ) AS "affectedCartCount"
+        FROM priced
+      `);
+
+      const counts = result.rows[0] as Record<string, string | number>;
+      return {
+        categoryId: id,
+        currentPrice: category.defaultPrice,
+        newPrice,
+        affectedProductCount: Number(counts.affectedProductCount),
+        unaffectedProductCount: Number(counts.unaffectedProductCount),
+        affectedCartCount: Number(counts.affectedCartCount),
+      };
+    } catch (error) {
+      console.error(`Error in previewCategoryPriceChange(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async getPriceHistory(entityType: PriceHistoryEntityType, entityId: number): Promise<PriceHistoryEntry[]> {
+    try {
+      return await this.db
+        .select({
+          id: priceHistory.id,
+          entityType: priceHistory.entityType,
+          entityId: priceHistory.entityId,
+          oldPrice: priceHistory.oldPrice,
+          newPrice: priceHistory.newPrice,
+          changedBy: priceHistory.changedBy,
+          changedAt: priceHistory.changedAt,
+          changedByUsername: users.username,
+        })
+        .from(priceHistory)
+        .leftJoin(users, eq(users.id, priceHistory.changedBy))
+        .where(and(eq(priceHistory.entityType, entityType), eq(priceHistory.entityId, entityId)))
+        .orderBy(desc(priceHistory.changedAt), desc(priceHistory.id));
+    } catch (error) {
+      console.error(`Error in getPriceHistory(${entityType}, ${entityId}):`, error);
+      throw error;
+    }
+  }
+
+  // Promotions with the ids of the categories and products they target
+  private async loadPromotionTargets(rows: (typeof promotionsTable.$inferSelect)[]): Promise<Promotion[]> {
+    if (rows.length === 0) return [];
+    const ids = rows.map(row => row.id);
+    const [categoryRows, productRows] = await Promise.all([
+      this.db.select().from(promotionCategories).where(inArray(promotionCategories.promotionId, ids)),
+      this.db
+        .select({ promotionId: promotionProducts.promotionId, id: productsTable.id, name: productsTable.name })
+        .from(promotionProducts)
+        .innerJoin(productsTable, eq(productsTable.id, promotionProducts.productId))
+        .where(inArray(promotionProducts.promotionId, ids)),
+    ]);
+
+    return rows.map(row => ({
+      ...row,
+      categoryIds: categoryRows.filter(target => target.promotionId === row.id).map(target => target.categoryId),
+      products: productRows
+        .filter(target => target.promotionId === row.id)
+        .map(({ id, name }) => ({ id, name })),
+    }));
+  }
+
+  private async replacePromotionTargets(tx: Transaction, promotionId: number, promotion: InsertPromotion): Promise<void> {
+    await tx.delete(promotionCategories).where(eq(promotionCategories.promotionId, promotionId));
+    await tx.delete(promotionProducts).where(eq(promotionProducts.promotionId, promotionId));
+
+    if (promotion.categoryIds.length > 0) {
+      await tx.insert(promotionCategories).values(
+        Array.from(new Set(promotion.categoryIds)).map(categoryId => ({ promotionId, categoryId }))
+      );
+    }
+    if (promotion.productIds.length > 0) {
+      await tx.insert(promotionProducts).values(
+        Array.from(new Set(promotion.productIds)).map(productId => ({ promotionId, productId }))
+      );
+    }
+  }
+
+  // Newest first by start date
+  async getPromotions(): Promise<Promotion[]> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(promotionsTable)
+        .orderBy(desc(promotionsTable.startsAt), desc(promotionsTable.id));
+      return await this.loadPromotionTargets(rows);
+    } catch (error) {
+      console.error('Database error in getPromotions:', error);
+      throw error;
+    }
+  }
+
+  async getPromotion(id: number): Promise<Promotion | undefined> {
+    try {
+      const rows = await this.db.select().from(promotionsTable).where(eq(promotionsTable.id, id));
+      const [promotion] = await this.loadPromotionTargets(rows);
+      return promotion;
+    } catch (error) {
+      console.error(`Database error in getPromotion(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    try {
+      const id = await this.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(promotionsTable)
+          .values({
+            name: promotion.name,
+            percentOff: promotion.percentOff,
+            startsAt: promotion.startsAt,
+            endsAt: promotion.endsAt,
+          })
+          .returning({ id: promotionsTable.id });
+        await this.replacePromotionTargets(tx, created.id, promotion);
+        return created.id;
+      });
+      return (await this.getPromotion(id))!;
+    } catch (error) {
+      console.error('Database error in createPromotion:', error);
+      throw error;
     }
   }
 
-  async getCart(id: number): Promise<Cart | undefined> {
+  async updatePromotion(id: number, promotion: InsertPromotion): Promise<Promotion | undefined> {
     try {
-      const result = await db
-        .select({
-          cart: cartsTable,
-          items: cartItems,
-        })
-        .from(cartsTable)
-        .leftJoin(cartItems, eq(cartsTable.id, cartItems.cartId))
-        .where(eq(cartsTable.id, id));
-
-      if (result.length === 0) return undefined;
-
-      const cart = result[0].cart;
-      // Filter out null items and ensure type safety
-      const items = result
-        .filter((r): r is typeof r & { items: NonNullable<typeof r.items> } => r.items !== null)
-        .map(r => r.items);
-
-      return {
-        ...cart,
-        items,
-      };
+      const updated = await this.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(promotionsTable)
+          .set({
+            name: promotion.name,
+            percentOff: promotion.percentOff,
+            startsAt: promotion.startsAt,
+            endsAt: promotion.endsAt,
+          })
+          .where(eq(promotionsTable.id, id))
+          .returning({ id: promotionsTable.id });
+        if (!row) return false;
+
+        await this.replacePromotionTargets(tx, id, promotion);
+        return true;
+      });
+      return updated ? this.getPromotion(id) : undefined;
     } catch (error) {
-      console.error(`Database error in getCart(${id}):`, error);
+      console.error(`Database error in updatePromotion(${id}):`, error);
       throw error;
     }
   }
 
-  async createCart(insertCart: InsertCart): Promise<Cart> {
-    const client = await pool.connect();
+  async deletePromotion(id: number): Promise<boolean> {
     try {
-      await client.query('BEGIN');
-
-      // 1. Create the cart
-      const [cart] = await db
-        .insert(cartsTable)
-        .values({
-          customerName: insertCart.customerName,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .returning();
-
-      if (!cart) {
-        throw new Error('Failed to create cart');
-      }
-
-      // 2. Insert cart items with proper price handling
-      const itemsToInsert = insertCart.items.map(item => ({
-        cartId: cart.id,
-        productId: item.productId,
-        name: item.name,
-        description: item.description || '',
-        images: Array.isArray(item.images) ? item.images : [],
-        fullImages: Array.isArray(item.fullImages) ? item.fullImages : [],
-        price: typeof item.price === 'number' ? Math.floor(item.price) : 0,
-        isAvailable: item.isAvailable !== false,
-        createdAt: new Date()
-      }));
-
-      // 3. Insert all cart items
-      const items = await db
-        .insert(cartItems)
-        .values(itemsToInsert)
-        .returning();
-
-      await client.query('COMMIT');
-
-      // 4. Return complete cart with items
-      return {
-        ...cart,
-        items
-      };
+      const deleted = await this.db
+        .delete(promotionsTable)
+        .where(eq(promotionsTable.id, id))
+        .returning({ id: promotionsTable.id });
+      return deleted.length > 0;
     } catch (error) {
-      await client.query('ROLLBACK');
-      console.error('Error creating cart:', error);
+      console.error(`Database error in deletePromotion(${id}):`, error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 
-  async deleteCart(id: number): Promise<void> {
-    const client = await pool.connect();
+  // Moves the category to the trash. Product assignments are kept so a
+  // restore brings back the category prices of its products.
+  async deleteCategory(id: number): Promise<void> {
     try {
-      await client.query('BEGIN');
-      // Due to CASCADE deletion, we only need to delete the cart
-      await db.delete(cartsTable).where(eq(cartsTable.id, id));
-      await client.query('COMMIT');
+      await this.db
+        .update(categoriesTable)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(categoriesTable.id, id), isNull(categoriesTable.deletedAt)));
     } catch (error) {
-      await client.query('ROLLBACK');
-      console.error(`Database error in deleteCart(${id}):`, error);
+      console.error(`Error in deleteCategory(${id}):`, error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 
-  async getCategories(): Promise<Category[]> {
+  async restoreCategory(id: number): Promise<boolean> {
     try {
-      const categories = await db
-        .select()
-        .from(categoriesTable)
-        .orderBy(desc(categoriesTable.createdAt));
-
-      return categories.filter((category): category is Category => category !== null);
+      const restored = await this.db
+        .update(categoriesTable)
+        .set({ deletedAt: null })
+        .where(and(eq(categoriesTable.id, id), isNotNull(categoriesTable.deletedAt)))
+        .returning({ id: categoriesTable.id });
+      return restored.length > 0;
     } catch (error) {
-      console.error('Error in getCategories:', error);
+      console.error(`Error in restoreCategory(${id}):`, error);
       throw error;
     }
   }
 
-  async getCategory(id: number): Promise<Category | undefined> {
+  // Only trashed categories can be purged; this removes their product assignments too
+  async purgeCategory(id: number): Promise<boolean> {
     try {
-      const [category] = await db
-        .select()
-        .from(categoriesTable)
-        .where(eq(categoriesTable.id, id))
-        .limit(1);
-      return category || undefined;
+      const purged = await this.db
+        .delete(categoriesTable)
+        .where(and(eq(categoriesTable.id, id), isNotNull(categoriesTable.deletedAt)))
+        .returning({ id: categoriesTable.id });
+      return purged.length > 0;
     } catch (error) {
-      console.error(`Error in getCategory(${id}):`, error);
+      console.error(`Error in purgeCategory(${id}):`, error);
       throw error;
     }
   }
 
-  async createCategory(category: InsertCategory): Promise<Category> {
+  async getTrash(): Promise<Trash> {
     try {
-      console.log('Creating category with data:', category);
-      const [newCategory] = await db
-        .insert(categoriesTable)
-        .values({
-          name: category.name,
-          defaultPrice: category.defaultPrice,
-          createdAt: new Date()
-        })
-        .returning();
+      const deletedProducts = await this.db
+        .select({ id: productsTable.id })
+        .from(productsTable)
+        .where(isNotNull(productsTable.deletedAt))
+        .orderBy(desc(productsTable.deletedAt));
 
-      if (!newCategory) {
-        throw new Error('Failed to create category');
-      }
+      const products = await Promise.all(
+        deletedProducts.map(({ id }) => this.getProduct(id, { includeDeleted: true }))
+      );
 
-      return newCategory;
+      const categories = await this.db
+        .select({
+          category: categoriesTable,
+          productCount: sql<number>`count(${productCategories.productId})`.mapWith(Number),
+        })
+        .from(categoriesTable)
+        .leftJoin(productCategories, eq(productCategories.categoryId, categoriesTable.id))
+        .where(isNotNull(categoriesTable.deletedAt))
+        .groupBy(categoriesTable.id)
+        .orderBy(desc(categoriesTable.deletedAt));
+
+      return {
+        products: products.filter((product): product is Product => product !== undefined),
+        categories: categories.map(row => ({ ...row.category, productCount: row.productCount })),
+      };
     } catch (error) {
-      console.error('Error in createCategory:', error);
+      console.error('Error in getTrash:', error);
       throw error;
     }
   }
 
-  async deleteCategory(id: number): Promise<void> {
+  async purgeDeletedBefore(cutoff: Date): Promise<{ products: number; categories: number }> {
     try {
-      await db.delete(categoriesTable).where(eq(categoriesTable.id, id));
+      const products = await this.db
+        .delete(productsTable)
+        .where(lt(productsTable.deletedAt, cutoff))
+        .returning({ id: productsTable.id });
+      const categories = await this.db
+        .delete(categoriesTable)
+        .where(lt(categoriesTable.deletedAt, cutoff))
+        .returning({ id: categoriesTable.id });
+      return { products: products.length, categories: categories.length };
     } catch (error) {
-      console.error(`Error in deleteCategory(${id}):`, error);
+      console.error('Error in purgeDeletedBefore:', error);
       throw error;
     }
   }
@@ -559,7 +1783,7 @@ export class DatabaseStorage implements IStorage {
 
   async removeProductCategories(productId: number, categoryIds: number[]): Promise<void> {
     try {
-      await db
+      await this.db
         .delete(productCategories)
         .where(
           and(
@@ -574,7 +1798,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProductCategories(productId: number): Promise<Category[]> {
-    const result = await db
+    const result = await this.db
       .select({
         category: categoriesTable,
       })
@@ -583,15 +1807,12 @@ export class DatabaseStorage implements IStorage {
         categoriesTable,
         eq(productCategories.categoryId, categoriesTable.id)
       )
-      .where(eq(productCategories.productId, productId));
+      .where(and(eq(productCategories.productId, productId), isNull(categoriesTable.deletedAt)));
 
     return result.map(r => r.category);
   }
   async updateCart(id: number, updates: Partial<Cart>): Promise<Cart> {
-    const client = await pool.connect();
     try {
-      await client.query('BEGIN');
-
       // If items are being updated, ensure proper formatting
       let updatedItems;
       if (updates.items) {
@@ -606,7 +1827,7 @@ export class DatabaseStorage implements IStorage {
         }));
       }
 
-      const [cart] = await db
+      const [cart] = await this.db
         .update(cartsTable)
         .set({
           ...updates,
@@ -616,65 +1837,58 @@ export class DatabaseStorage implements IStorage {
         .where(eq(cartsTable.id, id))
         .returning();
 
-      await client.query('COMMIT');
-
       if (!cart) {
         throw new Error('Cart not found');
       }
 
+      const items = typeof cart.items === 'string' ? JSON.parse(cart.items) : cart.items;
       return {
         ...cart,
-        items: typeof cart.items === 'string' ? JSON.parse(cart.items) : cart.items
+        items,
+        total: cartTotal(items ?? [])
       };
     } catch (error) {
-      await client.query('ROLLBACK');
       console.error(`Database error in updateCart(${id}):`, error);
       throw error;
-    } finally {
-      client.release();
     }
   }
   async getCategoriesWithCounts(countAvailableOnly: boolean = false): Promise<(Category & { productCount: number })[]> {
     try {
-      // Get categories with product counts in a single query using a lateral join
-      // If countAvailableOnly is true, only count available products
-      const result = await db.execute(
-        countAvailableOnly 
-          ? sql`
-              SELECT 
-                c.id, 
-                c.name, 
-                c.default_price as "defaultPrice",
-                c.created_at as "createdAt",
-                COUNT(CASE WHEN p.is_available = true THEN pc.product_id END) as "productCount"
-              FROM 
-                categories c
-              LEFT JOIN 
-                product_categories pc ON c.id = pc.category_id
-              LEFT JOIN
-                products p ON pc.product_id = p.id
-              GROUP BY 
-                c.id
-              ORDER BY 
-                c.name ASC
-            `
-          : sql`
-              SELECT 
-                c.id, 
-                c.name, 
-                c.default_price as "defaultPrice",
-                c.created_at as "createdAt",
-                COUNT(pc.product_id) as "productCount"
-              FROM 
-                categories c
-              LEFT JOIN 
-                product_categories pc ON c.id = pc.category_id
-              GROUP BY 
-                c.id
-              ORDER BY 
-                c.name ASC
-            `
-      );
+      // Each category counts the distinct products assigned to it or to any of
+      // its live subcategories. If countAvailableOnly is true, only count available products
+      const result = await this.db.execute(sql`
+        WITH RECURSIVE subtree AS (
+          SELECT id AS root_id, id AS category_id FROM categories WHERE deleted_at IS NULL
+          UNION
+          SELECT s.root_id, c.id FROM categories c
+          INNER JOIN subtree s ON c.parent_id = s.category_id
+          WHERE c.deleted_at IS NULL
+        )
+        SELECT 
+          c.id, 
+          c.name, 
+          c.default_price as "defaultPrice",
+          c.parent_id as "parentId",
+          c.sort_order as "sortOrder",
+          c.created_at as "createdAt",
+          c.deleted_at as "deletedAt",
+          COUNT(DISTINCT p.id) as "productCount"
+        FROM 
+          categories c
+        INNER JOIN
+          subtree s ON s.root_id = c.id
+        LEFT JOIN 
+          product_categories pc ON pc.category_id = s.category_id
+        LEFT JOIN
+          products p ON pc.product_id = p.id AND p.deleted_at IS NULL
+            ${countAvailableOnly ? sql`AND p.is_available = true` : sql``}
+        WHERE
+          c.deleted_at IS NULL
+        GROUP BY 
+          c.id
+        ORDER BY 
+          c.sort_order ASC, c.name ASC
+      `);
 
       return result.rows as (Category & { productCount: number })[];
     } catch (error) {
@@ -688,11 +1902,8 @@ export class DatabaseStorage implements IStorage {
    */
   async addBulkProductCategories(productIds: number[], categoryIds: number[]): Promise<void> {
     console.log(`Adding categories ${categoryIds.join(',')} to products ${productIds.join(',')}`);
-    const client = await pool.connect();
 
     try {
-      await client.query('BEGIN');
-
       // First, get category information to access defaultPrice
       const categories = await Promise.all(categoryIds.map(id => this.getCategory(id)));
       const validCategories = categories.filter((c): c is Category => c !== null);
@@ -701,65 +1912,62 @@ export class DatabaseStorage implements IStorage {
         throw new Error("No valid categories found");
       }
 
-      // Create an array of rows to insert for all product-category combinations
-      const values = [];
-      for (const productId of productIds) {
-        for (const categoryId of categoryIds) {
-          values.push({ productId, categoryId });
+      await this.db.transaction(async (tx) => {
+        // Create an array of rows to insert for all product-category combinations
+        const values = [];
+        for (const productId of productIds) {
+          for (const categoryId of categoryIds) {
+            values.push({ productId, categoryId });
+          }
         }
-      }
 
-      // Remove existing category assignments for these products
-      await db.delete(productCategories)
-        .where(inArray(productCategories.productId, productIds));
+        // Remove existing category assignments for these products
+        await tx.delete(productCategories)
+          .where(inArray(productCategories.productId, productIds));
 
-      // Insert new category assignments
-      if (values.length > 0) {
-        await db.insert(productCategories)
-          .values(values);
-      }
+        // Insert new category assignments
+        if (values.length > 0) {
+          await tx.insert(productCategories)
+            .values(values);
+        }
 
-      // For each product, verify if a custom price exists
-      // If not, apply the category's default price
-      for (const productId of productIds) {
-        // Get current product to check for custom price
-        const [product] = await db
-          .select()
-          .from(productsTable)
-          .where(eq(productsTable.id, productId));
+        // For each product, verify if a custom price exists
+        // If not, apply the category's default price
+        for (const productId of productIds) {
+          // Get current product to check for custom price
+          const [product] = await tx
+            .select()
+            .from(productsTable)
+            .where(eq(productsTable.id, productId));
 
-        if (!product) continue;
+          if (!product) continue;
 
-        // If no custom price is set, update with highest category price
-        if (!product.customPrice) {
-          const highestCategoryPrice = Math.max(...validCategories.map(c => c.defaultPrice));
+          // If no custom price is set, update with the cheapest category price
+          if (!product.customPrice) {
+            const lowestCategoryPrice = Math.min(...validCategories.map(c => c.defaultPrice));
 
-          await db.update(productsTable)
-            .set({
-              categoryPrice: highestCategoryPrice,
-              updatedAt: new Date()
-            })
-            .where(eq(productsTable.id, productId));
+            await tx.update(productsTable)
+              .set({
+                categoryPrice: lowestCategoryPrice,
+                updatedAt: new Date()
+              })
+              .where(eq(productsTable.id, productId));
+          }
         }
-      }
-
-      await client.query('COMMIT');
+      });
       console.log(`Successfully added categories to ${productIds.length} products`);
     } catch (error) {
-      await client.query('ROLLBACK');
       console.error('Error adding bulk categories:', error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 
   async getCategory(id: number): Promise<Category | null> {
     try {
-      const result = await db
+      const result = await this.db
         .select()
         .from(categoriesTable)
-        .where(eq(categoriesTable.id, id))
+        .where(and(eq(categoriesTable.id, id), isNull(categoriesTable.deletedAt)))
         .limit(1);
 
       return result.length > 0 ? result[0] : null;
@@ -770,162 +1978,389 @@ export class DatabaseStorage implements IStorage {
   }
 
 async refreshCartItems(cartId: number): Promise<void> {
-    const client = await pool.connect();
     try {
-      await client.query('BEGIN');
-      console.log(`Starting cart items refresh for cart ${cartId}`);
-
-      // Get the current cart with items
-      const cart = await this.getCart(cartId);
+      const [cart] = await this.db
+        .select({ id: cartsTable.id })
+        .from(cartsTable)
+        .where(eq(cartsTable.id, cartId))
+        .limit(1);
       if (!cart) {
         throw new Error("Cart not found");
       }
 
-      // Increase batch size for better throughput
-      const batchSize = 50;
-      const maxRetries = 3;
-      const failedUpdates: number[] = [];
-      const totalItems = cart.items.length;
+      // A single statement, so every item is refreshed or none is. Trashed and
+      // purged products count as unavailable.
+      const updated = await this.db
+        .update(cartItems)
+        .set({
+          isAvailable: sql`COALESCE((
+            SELECT ${productsTable.isAvailable} AND ${productsTable.deletedAt} IS NULL FROM ${productsTable}
+            WHERE ${productsTable.id} = ${cartItems.productId}
+          ), false)`,
+        })
+        .where(eq(cartItems.cartId, cartId))
+        .returning({ id: cartItems.id });
 
-      console.log(`Refreshing availability for ${totalItems} items in cart ${cartId}`);
+      console.log(`Refreshed availability for ${updated.length} items in cart ${cartId}`);
+    } catch (error) {
+      console.error(`Error refreshing cart items for cart ${cartId}:`, error);
+      throw error;
+    }
+  }
 
-      // First, fetch all product availability statuses in bulk to minimize database calls
-      const productIds = cart.items.map(item => item.productId);
+  async deleteCartItem(cartId: number, itemId: number): Promise<void> {
+    try {
+      console.log(`Deleting item ${itemId} from cart ${cartId}`);
 
-      // Split into reasonable chunks for bulk query
-      const productChunkSize = 100;
-      const productAvailability = new Map<number, boolean>();
+      await this.db.transaction(async (tx) => {
+        // Delete the specific cart item
+        const result = await tx
+          .delete(cartItems)
+          .where(
+            and(
+              eq(cartItems.cartId, cartId),
+              eq(cartItems.id, itemId)
+            )
+          )
+          .returning();
 
-      for (let i = 0; i < productIds.length; i += productChunkSize) {
-        const chunkIds = productIds.slice(i, i + productChunkSize);
+        if (result.length === 0) {
+          throw new Error(`Cart item ${itemId} not found in cart ${cartId}`);
+        }
 
-        try {
-          // Get availability status for multiple products at once
-          const products = await db
-            .select({ id: productsTable.id, isAvailable: productsTable.isAvailable })
-            .from(productsTable)
-            .where(inArray(productsTable.id, chunkIds));
+        // Let other carts claim the product again
+        await tx
+          .delete(productReservations)
+          .where(and(
+            eq(productReservations.cartId, cartId),
+            eq(productReservations.productId, result[0].productId)
+          ));
 
-          // Store in map for quick lookup
-          products.forEach(product => {
-            productAvailability.set(product.id, !!product.isAvailable);
-          });
-        } catch (error) {
-          console.error(`Error fetching product availability for batch:`, error);
-        }
-      }
+        console.log(`Successfully deleted item ${itemId} from cart ${cartId}`);
+      });
+    } catch (error) {
+      console.error(`Error deleting cart item ${itemId} from cart ${cartId}:`, error);
+      throw error;
+    }
+  }
 
-      // Now process cart items with the pre-fetched availability info
-      for (let i = 0; i < totalItems; i += batchSize) {
-        const batchItems = cart.items.slice(i, i + batchSize);
-        console.log(`Processing batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(totalItems/batchSize)} with ${batchItems.length} items`);
-
-        // Process items in smaller parallel batches to prevent overwhelming the DB
-        const parallelBatchSize = 10;
-        for (let j = 0; j < batchItems.length; j += parallelBatchSize) {
-          const parallelBatch = batchItems.slice(j, j + parallelBatchSize);
-
-          const batchPromises = parallelBatch.map(async (item) => {
-            let retryCount = 0;
-            let success = false;
-
-            while (!success && retryCount < maxRetries) {
-              try {
-                // Use pre-fetched product availability when possible
-                let isAvailable = false;
-
-                if (productAvailability.has(item.productId)) {
-                  isAvailable = productAvailability.get(item.productId) || false;
-                } else {
-                  // Fall back to individual query if not in our map
-                  const product = await this.getProduct(item.productId);
-                  isAvailable = product ? !!product.isAvailable : false;
-                }
-
-                // Update the cart item's isAvailable field
-                await db.update(cartItems)
-                  .set({ isAvailable })
-                  .where(eq(cartItems.id, item.id));
-
-                success = true;
-                console.log(`Successfully updated cart item ${item.id} availability to ${isAvailable}`);
-                return { id: item.id, success: true };
-              } catch (error) {
-                retryCount++;
-                console.error(`Failed attempt ${retryCount} for item ${item.id}:`, error);
-
-                if (retryCount === maxRetries) {
-                  return { id: item.id, success: false };
-                } else {
-                  // Short delay with exponential backoff
-                  await new Promise(resolve => setTimeout(resolve, 300 * Math.pow(2, retryCount - 1)));
-                }
-              }
-            }
+  async getCartByToken(token: string): Promise<Cart | undefined> {
+    try {
+      const [cart] = await this.db
+        .select({ id: cartsTable.id })
+        .from(cartsTable)
+        .where(eq(cartsTable.token, token))
+        .limit(1);
 
-            return { id: item.id, success: false };
-          });
+      return cart ? this.getCart(cart.id) : undefined;
+    } catch (error) {
+      console.error('Database error in getCartByToken:', error);
+      throw error;
+    }
+  }
+
+  async createDraftCart(): Promise<Cart> {
+    try {
+      const [cart] = await this.db
+        .insert(cartsTable)
+        .values({
+          status: 'draft',
+          token: randomBytes(24).toString('base64url'),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .returning();
 
-          // Wait for this smaller parallel batch to complete
-          const batchResults = await Promise.all(batchPromises);
+      return { ...cart, items: [], total: 0 };
+    } catch (error) {
+      console.error('Database error in createDraftCart:', error);
+      throw error;
+    }
+  }
 
-          // Track failed updates
-          const batchFailures = batchResults.filter(result => !result.success);
-          failedUpdates.push(...batchFailures.map(failure => failure.id));
-        }
+  // Snapshot a product into a cart at its current unit price for the quantity
+  async addCartItem(cartId: number, product: Product, quantity: number): Promise<CartItem> {
+    try {
+      const [item] = await this.db
+        .insert(cartItems)
+        .values({
+          cartId,
+          productId: product.id,
+          name: product.name,
+          description: product.description,
+          images: product.images,
+          fullImages: product.fullImages || [],
+          price: unitPriceForQuantity(product, quantity),
+          quantity,
+          isAvailable: product.isAvailable,
+          createdAt: new Date(),
+        })
+        .returning();
+
+      await this.db
+        .update(cartsTable)
+        .set({ updatedAt: new Date() })
+        .where(eq(cartsTable.id, cartId));
+
+      return item;
+    } catch (error) {
+      console.error(`Database error in addCartItem(${cartId}):`, error);
+      throw error;
+    }
+  }
+
+  // Draft carts price items when they are read, so only the quantity is stored here
+  async setCartItemQuantity(cartId: number, itemId: number, quantity: number): Promise<CartItem | undefined> {
+    try {
+      const [item] = await this.db
+        .update(cartItems)
+        .set({ quantity })
+        .where(and(eq(cartItems.cartId, cartId), eq(cartItems.id, itemId)))
+        .returning();
+
+      if (item) {
+        await this.db
+          .update(cartsTable)
+          .set({ updatedAt: new Date() })
+          .where(eq(cartsTable.id, cartId));
       }
 
-      if (failedUpdates.length > 0) {
-        console.warn(`${failedUpdates.length} of ${totalItems} cart items failed to update: ${failedUpdates.join(', ')}`);
-        if (failedUpdates.length >= totalItems) {
-          throw new Error(`Failed to update all cart items: ${failedUpdates.join(', ')}`);
+      return item;
+    } catch (error) {
+      console.error(`Database error in setCartItemQuantity(${cartId}, ${itemId}):`, error);
+      throw error;
+    }
+  }
+
+  async clearCartItems(cartId: number): Promise<void> {
+    try {
+      await this.db.delete(cartItems).where(eq(cartItems.cartId, cartId));
+    } catch (error) {
+      console.error(`Database error in clearCartItems(${cartId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hand a draft cart over to the admin. The token is cleared so the
+   * customer's cookie and any share links stop reaching it.
+   */
+  async submitCart(cartId: number, contact: CartContact): Promise<Cart> {
+    try {
+      await this.db.transaction(async (tx) => {
+        const now = new Date();
+        const holdExpiresAt = new Date(now.getTime() + RESERVATION_HOLD_MS);
+
+        const [cart] = await tx
+          .update(cartsTable)
+          .set({
+            ...contactValues(contact),
+            status: 'submitted',
+            token: null,
+            submittedAt: now,
+            holdExpiresAt,
+            updatedAt: now,
+          })
+          .where(and(eq(cartsTable.id, cartId), eq(cartsTable.status, 'draft')))
+          .returning();
+
+        if (!cart) {
+          throw new Error('Draft cart not found');
         }
-      } else {
-        console.log(`Successfully updated all ${totalItems} cart items`);
-      }
 
-      await client.query('COMMIT');
-      console.log(`Successfully completed cart items refresh for cart ${cartId}`);
+        const items = await tx
+          .select({
+            id: cartItems.id,
+            productId: cartItems.productId,
+            quantity: cartItems.quantity,
+            regularPrice: productRegularPrice(productsTable),
+            discountPercent: productDiscountPercent(productsTable),
+            priceTiers: productsTable.priceTiers,
+          })
+          .from(cartItems)
+          .innerJoin(productsTable, eq(productsTable.id, cartItems.productId))
+          .where(eq(cartItems.cartId, cartId));
+
+        // Freeze each item at the unit price its product sells for right now at
+        // that quantity, lot pricing and promotions included
+        for (const item of items) {
+          await tx
+            .update(cartItems)
+            .set({ price: unitPriceForQuantity(item, item.quantity) })
+            .where(eq(cartItems.id, item.id));
+        }
+
+        // A conflict rolls back the submission, leaving the draft intact
+        await this.reserveProducts(tx, cartId, items, holdExpiresAt);
+      });
+
+      return (await this.getCart(cartId))!;
     } catch (error) {
-      await client.query('ROLLBACK');
-      console.error(`Error refreshing cart items for cart ${cartId}:`, error);
+      console.error(`Database error in submitCart(${cartId}):`, error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 
-  async deleteCartItem(cartId: number, itemId: number): Promise<void> {
-    const client = await pool.connect();
+  async getOrders(limit: number = 50): Promise<Order[]> {
     try {
-      await client.query('BEGIN');
-      console.log(`Deleting item ${itemId} from cart ${cartId}`);
+      return await this.db
+        .select()
+        .from(ordersTable)
+        .orderBy(desc(ordersTable.createdAt))
+        .limit(Math.min(limit, 100));
+    } catch (error) {
+      console.error('Database error in getOrders:', error);
+      throw new Error('Failed to fetch orders: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
 
-      // Delete the specific cart item
-      const result = await db
-        .delete(cartItems)
-        .where(
-          and(
-            eq(cartItems.cartId, cartId),
-            eq(cartItems.id, itemId)
-          )
-        )
+  async getOrder(id: number): Promise<Order | undefined> {
+    try {
+      const [order] = await this.db
+        .select()
+        .from(ordersTable)
+        .where(eq(ordersTable.id, id))
+        .limit(1);
+      return order;
+    } catch (error) {
+      console.error(`Database error in getOrder(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    try {
+      const [order] = await this.db
+        .insert(ordersTable)
+        .values({
+          cartId: insertOrder.cartId ?? null,
+          customerName: insertOrder.customerName,
+          customerEmail: insertOrder.customerEmail ?? null,
+          items: insertOrder.items,
+          status: 'pending',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
         .returning();
 
-      if (result.length === 0) {
-        throw new Error(`Cart item ${itemId} not found in cart ${cartId}`);
+      if (!order) {
+        throw new Error('Failed to create order');
       }
 
-      console.log(`Successfully deleted item ${itemId} from cart ${cartId}`);
-      await client.query('COMMIT');
+      return order;
     } catch (error) {
-      await client.query('ROLLBACK');
-      console.error(`Error deleting cart item ${itemId} from cart ${cartId}:`, error);
+      console.error('Database error in createOrder:', error);
+      throw error;
+    }
+  }
+
+  async updateOrderStatus(id: number, from: OrderStatus, to: OrderStatus): Promise<Order | undefined> {
+    try {
+      const now = new Date();
+      const timestampField = to !== 'pending' ? orderStatusTimestamps[to] : undefined;
+
+      // Matching on the old status makes the check and the update one atomic step
+      const [order] = await this.db
+        .update(ordersTable)
+        .set({
+          status: to,
+          ...(timestampField ? { [timestampField]: now } : {}),
+          updatedAt: now,
+        })
+        .where(and(eq(ordersTable.id, id), eq(ordersTable.status, from)))
+        .returning();
+
+      return order;
+    } catch (error) {
+      console.error(`Database error in updateOrderStatus(${id}):`, error);
+      throw error;
+    }
+  }
+
+  async deleteOrder(id: number): Promise<void> {
+    try {
+      await this.db.delete(ordersTable).where(eq(ordersTable.id, id));
+    } catch (error) {
+      console.error(`Database error in deleteOrder(${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Snapshot a submitted or sold cart into a pending order, take the units out
+   * of stock unless the cart was already sold, and remove the cart, all in a
+   * single transaction. The cart row is locked first, so a concurrent convert
+   * or markCartSold waits and then sees the cart gone or sold.
+   */
+  async convertCartToOrder(cartId: number): Promise<Order | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [cart] = await tx
+          .select()
+          .from(cartsTable)
+          .where(eq(cartsTable.id, cartId))
+          .limit(1)
+          .for('update');
+
+        if (!cart || (cart.status !== 'submitted' && cart.status !== 'sold')) {
+          return undefined;
+        }
+
+        const items = await tx
+          .select()
+          .from(cartItems)
+          .where(eq(cartItems.cartId, cartId));
+
+        if (items.length === 0) {
+          throw new Error('Cannot convert an empty cart to an order');
+        }
+
+        const orderItems: OrderItem[] = items.map(item => ({
+          productId: item.productId,
+          name: item.name,
+          description: item.description,
+          images: item.images,
+          fullImages: item.fullImages,
+          price: item.price,
+          quantity: item.quantity,
+        }));
+
+        const now = new Date();
+        const [order] = await tx
+          .insert(ordersTable)
+          .values({
+            cartId: cart.id,
+            customerName: cart.customerName,
+            customerEmail: cart.customerEmail,
+            items: orderItems,
+            status: 'pending',
+            createdAt: now,
+            updatedAt: now,
+          })
+          .returning();
+
+        // A sold cart's units already left stock when it was marked sold
+        if (cart.status !== 'sold') {
+          for (const item of items) {
+            await tx
+              .update(productsTable)
+              .set(stockDeduction(item.quantity, now))
+              .where(eq(productsTable.id, item.productId));
+          }
+        }
+
+        // Cart items are removed by the cascade
+        await tx.delete(cartsTable).where(eq(cartsTable.id, cartId));
+
+        console.log(`Converted cart ${cartId} into order ${order.id} with ${orderItems.length} items`);
+        return order;
+      });
+    } catch (error) {
+      console.error(`Database error in convertCartToOrder(${cartId}):`, error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// STORAGE=memory keeps everything in process memory, for running without a database
+export const storage: IStorage = process.env.STORAGE === 'memory' ? new MemStorage() : new DatabaseStorage();
\ No newline at end of file
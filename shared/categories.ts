@@ -0,0 +1,33 @@
+// Categories nest under a parent; siblings are shown in sortOrder, then by name
+export interface CategoryTreeItem {
+  id: number;
+  name: string;
+  parentId: number | null;
+  sortOrder: number;
+}
+
+export type CategoryNode<T extends CategoryTreeItem> = T & { children: CategoryNode<T>[] };
+
+// Categories whose parent is not in the list (e.g. it is in the trash) become roots
+export function buildCategoryTree<T extends CategoryTreeItem>(categories: T[]): CategoryNode<T>[] {
+  const nodes = new Map<number, CategoryNode<T>>();
+  categories.forEach(category => nodes.set(category.id, { ...category, children: [] }));
+
+  const roots: CategoryNode<T>[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  const sortNodes = (list: CategoryNode<T>[]) => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+  return roots;
+}
+
+// Ids of the category and everything nested beneath it
+export function descendantIds<T extends CategoryTreeItem>(node: CategoryNode<T>): number[] {
+  return [node.id].concat(...node.children.map(descendantIds));
+}
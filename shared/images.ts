@@ -0,0 +1,24 @@
+// Responsive variants generated for every uploaded image, keyed by max width/height in pixels
+export const IMAGE_VARIANTS = {
+  thumb: 200,
+  card: 600,
+  full: 1600,
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+export type ImageVariantFormat = "jpg" | "webp";
+
+export const IMAGE_VARIANT_FORMATS: readonly ImageVariantFormat[] = ["jpg", "webp"];
+
+const storedImagePattern = /^(\/images\/[a-f0-9]{64})\.(jpg|png|webp|gif)$/;
+
+// Only images served from the image store have variants; legacy data URLs do not
+export function hasImageVariants(url: string): boolean {
+  return storedImagePattern.test(url);
+}
+
+export function imageVariantUrl(url: string, variant: ImageVariant, format: ImageVariantFormat = "jpg"): string {
+  const match = storedImagePattern.exec(url);
+  if (!match) return url;
+  return `${match[1]}-${variant}.${format}`;
+}
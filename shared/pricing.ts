@@ -0,0 +1,39 @@
+// Lot pricing: buying at least minQuantity units drops the regular unit price to unitPrice
+export interface PriceTier {
+  minQuantity: number;
+  unitPrice: number;
+}
+
+export interface PricedProduct {
+  regularPrice?: number;
+  discountPercent?: number;
+  priceTiers?: PriceTier[] | null;
+}
+
+// Best lot tier the quantity qualifies for, if any
+export function applicableTier(tiers: PriceTier[] | null | undefined, quantity: number): PriceTier | undefined {
+  return (tiers ?? [])
+    .filter(tier => quantity >= tier.minQuantity)
+    .sort((a, b) => a.unitPrice - b.unitPrice)[0];
+}
+
+/**
+ * Whole-dollar price of one unit when buying `quantity`. A lot tier only ever
+ * lowers the regular price, and a running promotion then applies on top,
+ * rounded the same way the database rounds productEffectivePrice.
+ */
+export function unitPriceForQuantity(product: PricedProduct, quantity: number): number {
+  const regularPrice = product.regularPrice ?? 0;
+  const tier = applicableTier(product.priceTiers, quantity);
+  const basePrice = tier ? Math.min(regularPrice, tier.unitPrice) : regularPrice;
+  return Math.round(basePrice * (100 - (product.discountPercent ?? 0)) / 100);
+}
+
+// Items saved before quantities existed count as a single unit
+export function lineTotal(item: { price: number; quantity?: number | null }): number {
+  return Math.floor(Number(item.price) || 0) * (item.quantity ?? 1);
+}
+
+export function cartTotal(items: { price: number; quantity?: number | null }[]): number {
+  return items.reduce((sum, item) => sum + lineTotal(item), 0);
+}
@@ -1,21 +1,101 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, index, primaryKey, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, index, uniqueIndex, primaryKey, decimal, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import type { PriceTier } from "./pricing";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Kept in sync with role so older checks of isAdmin keep working
   isAdmin: boolean("is_admin").notNull().default(false),
+  role: text("role").notNull().default('viewer'),
+  disabled: boolean("disabled").notNull().default(false),
+  // Set by an owner; the user must choose a new password before using the dashboard
+  mustResetPassword: boolean("must_reset_password").notNull().default(false),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  // Base32 TOTP secret; set during enrollment and only trusted once totpEnabled is true
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  // Time step of the last accepted code, so a code cannot be replayed
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // SHA-256 hashes of the unused recovery codes
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]),
+});
+
+// Team-wide settings managed by owners, one row per key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Failed sign-ins, kept so owners can spot password guessing
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(),
+  ipAddress: text("ip_address"),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  createdAtIdx: index("login_attempts_created_at_idx").on(table.createdAt),
+}));
+
+// Per-field before/after values of an audited change
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// One row per admin change to products, categories, carts, orders or the team
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  // Kept so the log still reads correctly after the user is deleted
+  username: text("username").notNull(),
+  action: text("action").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id"),
+  summary: text("summary").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  createdAtIdx: index("audit_events_created_at_idx").on(table.createdAt),
+  entityIdx: index("audit_events_entity_idx").on(table.entityType, table.entityId),
+  userIdIdx: index("audit_events_user_id_idx").on(table.userId),
+}));
+
+// Single-use links for joining the admin team. Only a hash of the token is
+// stored; the token itself is shown once to the admin who created it.
+export const adminInvitations = pgTable("admin_invitations", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  role: text("role").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   defaultPrice: integer("default_price").notNull().default(0),
+  // Top-level categories have no parent; children of a trashed parent are shown at the top level
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id, { onDelete: 'set null' }),
+  // Display position among categories with the same parent
+  sortOrder: integer("sort_order").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  // Set while the category is in the trash; purged for good after the retention period
+  deletedAt: timestamp("deleted_at"),
+}, (table) => ({
+  parentIdIdx: index("categories_parent_id_idx").on(table.parentId),
+}));
+
+// Weighted full-text document for a product: name matches rank above description matches.
+// Queries must use this exact expression for Postgres to pick up products_search_idx.
+export const productSearchVector = (table: { name: AnyPgColumn; description: AnyPgColumn }) =>
+  sql`(setweight(to_tsvector('english', ${table.name}), 'A') || setweight(to_tsvector('english', ${table.description}), 'B'))`;
 
 export const products = pgTable("products", {
   id: serial("id").primaryKey(),
@@ -26,12 +106,20 @@ export const products = pgTable("products", {
   customPrice: integer("custom_price"),
   categoryPrice: integer("category_price"), 
   isAvailable: boolean("is_available").notNull().default(true),
+  // Units on hand; submitted carts hold some of them until the sale or the hold lapses
+  stockQuantity: integer("stock_quantity").notNull().default(1),
+  // Cheaper unit prices for buying in bulk, e.g. 10+ units at $8 each
+  priceTiers: jsonb("price_tiers").$type<PriceTier[]>().notNull().default([]),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  // Set while the product is in the trash; purged for good after the retention period
+  deletedAt: timestamp("deleted_at"),
 }, (table) => ({
   nameIdx: index("name_idx").on(table.name),
   availabilityIdx: index("availability_idx").on(table.isAvailable),
   createdAtIdx: index("created_at_idx").on(table.createdAt),
+  searchIdx: index("products_search_idx").using("gin", productSearchVector(table)),
+  deletedAtIdx: index("products_deleted_at_idx").on(table.deletedAt),
 }));
 
 export const productCategories = pgTable("product_categories", {
@@ -43,13 +131,110 @@ export const productCategories = pgTable("product_categories", {
   categoryIdx: index("category_idx").on(table.categoryId),
 }));
 
+// Price before promotions: the product's custom price, else the cheapest of its categories' default prices
+export const productRegularPrice = (table: { id: AnyPgColumn; customPrice: AnyPgColumn }) =>
+  sql<number>`COALESCE(${table.customPrice}, (
+    SELECT MIN(${categories.defaultPrice}) FROM ${productCategories}
+    INNER JOIN ${categories} ON ${categories.id} = ${productCategories.categoryId}
+    WHERE ${productCategories.productId} = ${table.id} AND ${categories.deletedAt} IS NULL
+  ), 0)`.mapWith(Number);
+
+// Largest running promotion for a product, in percent. Promotions apply to the
+// products picked for them and to every product in their categories, including
+// subcategories. Discounts do not stack.
+export const productDiscountPercent = (table: { id: AnyPgColumn }) =>
+  sql<number>`COALESCE((
+    WITH RECURSIVE product_category_tree AS (
+      SELECT c.id, c.parent_id FROM product_categories pc
+      INNER JOIN categories c ON c.id = pc.category_id
+      WHERE pc.product_id = ${table.id} AND c.deleted_at IS NULL
+      UNION
+      SELECT c.id, c.parent_id FROM categories c
+      INNER JOIN product_category_tree t ON c.id = t.parent_id
+      WHERE c.deleted_at IS NULL
+    )
+    SELECT MAX(pr.percent_off) FROM promotions pr
+    WHERE pr.starts_at <= NOW() AND pr.ends_at > NOW() AND (
+      pr.id IN (SELECT promotion_id FROM promotion_products WHERE product_id = ${table.id})
+      OR pr.id IN (
+        SELECT promotion_id FROM promotion_categories
+        WHERE category_id IN (SELECT id FROM product_category_tree)
+      )
+    )
+  ), 0)`.mapWith(Number);
+
+// Price a product sells for: its regular price less any running promotion, in whole dollars
+export const productEffectivePrice = (table: { id: AnyPgColumn; customPrice: AnyPgColumn }) =>
+  sql<number>`ROUND(${productRegularPrice(table)} * (100 - ${productDiscountPercent(table)}) / 100.0)::integer`.mapWith(Number);
+
+// Units still free to sell: stock less what unexpired holds of submitted carts claim
+export const productAvailableQuantity = (table: { id: AnyPgColumn; stockQuantity: AnyPgColumn }) =>
+  sql<number>`GREATEST(${table.stockQuantity} - COALESCE((
+    SELECT SUM(${productReservations.quantity}) FROM ${productReservations}
+    WHERE ${productReservations.productId} = ${table.id} AND ${productReservations.expiresAt} > NOW()
+  ), 0), 0)`.mapWith(Number);
+
+// Time-boxed percentage discounts on categories or hand-picked products
+export const promotions = pgTable("promotions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  percentOff: integer("percent_off").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  activeIdx: index("promotions_active_idx").on(table.startsAt, table.endsAt),
+}));
+
+export const promotionCategories = pgTable("promotion_categories", {
+  promotionId: integer("promotion_id").notNull().references(() => promotions.id, { onDelete: 'cascade' }),
+  categoryId: integer("category_id").notNull().references(() => categories.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  pk: primaryKey(table.promotionId, table.categoryId),
+  categoryIdx: index("promotion_categories_category_idx").on(table.categoryId),
+}));
+
+export const promotionProducts = pgTable("promotion_products", {
+  promotionId: integer("promotion_id").notNull().references(() => promotions.id, { onDelete: 'cascade' }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  pk: primaryKey(table.promotionId, table.productId),
+  productIdx: index("promotion_products_product_idx").on(table.productId),
+}));
+
+// Every change to a category's default price or a product's custom price.
+// A null price means a product had no custom price and fell back to its categories.
+export const priceHistory = pgTable("price_history", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  oldPrice: integer("old_price"),
+  newPrice: integer("new_price"),
+  changedBy: integer("changed_by").references(() => users.id, { onDelete: 'set null' }),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => ({
+  entityIdx: index("price_history_entity_idx").on(table.entityType, table.entityId),
+}));
+
 export const carts = pgTable("carts", {
   id: serial("id").primaryKey(),
-  customerName: text("customer_name").notNull(),
+  // Blank until a draft cart is submitted
+  customerName: text("customer_name").notNull().default(''),
+  customerEmail: text("customer_email"),
+  customerPhone: text("customer_phone"),
+  fulfillmentMethod: text("fulfillment_method"),
+  notes: text("notes"),
+  status: text("status").notNull().default('submitted'),
+  // Secret identifying a draft cart; held in the customer's cookie and in share links
+  token: text("token").unique(),
+  submittedAt: timestamp("submitted_at"),
+  // When the hold on this cart's products lapses; set on submission
+  holdExpiresAt: timestamp("hold_expires_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
   createdAtIdx: index("carts_created_at_idx").on(table.createdAt),
+  statusIdx: index("carts_status_idx").on(table.status),
 }));
 
 export const cartItems = pgTable("cart_items", {
@@ -60,7 +245,9 @@ export const cartItems = pgTable("cart_items", {
   description: text("description").notNull(),
   images: text("images").array().notNull(),
   fullImages: text("full_images").array().notNull().default([]),
+  // Unit price; the line costs price * quantity
   price: integer("price").notNull(),
+  quantity: integer("quantity").notNull().default(1),
   isAvailable: boolean("is_available").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
@@ -68,15 +255,39 @@ export const cartItems = pgTable("cart_items", {
   productIdIdx: index("cart_items_product_id_idx").on(table.productId),
 }));
 
+// A submitted cart's claim on some units of a product. Carts can hold a
+// product between them only while their quantities fit in its stock.
+export const productReservations = pgTable("product_reservations", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: 'cascade' }),
+  cartId: integer("cart_id").notNull().references(() => carts.id, { onDelete: 'cascade' }),
+  quantity: integer("quantity").notNull().default(1),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  productCartIdx: uniqueIndex("product_reservations_product_cart_idx").on(table.productId, table.cartId),
+  cartIdIdx: index("product_reservations_cart_id_idx").on(table.cartId),
+  expiresAtIdx: index("product_reservations_expires_at_idx").on(table.expiresAt),
+}));
+
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
+  cartId: integer("cart_id"),
   customerName: text("customer_name").notNull(),
-  customerEmail: text("customer_email").notNull(),
+  customerEmail: text("customer_email"),
   items: jsonb("items").notNull(),
   status: text("status").notNull().default('pending'),
+  confirmedAt: timestamp("confirmed_at"),
+  packedAt: timestamp("packed_at"),
+  shippedAt: timestamp("shipped_at"),
+  completedAt: timestamp("completed_at"),
+  cancelledAt: timestamp("cancelled_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  statusIdx: index("orders_status_idx").on(table.status),
+  createdAtIdx: index("orders_created_at_idx").on(table.createdAt),
+}));
 
 export const cartsRelations = relations(carts, ({ many }) => ({
   items: many(cartItems),
@@ -112,15 +323,117 @@ export const insertCategorySchema = createInsertSchema(categories)
   .pick({
     name: true,
     defaultPrice: z.number().int().min(0),
+  })
+  .extend({
+    parentId: z.number().int().nullable().optional(),
   });
 
+export const updateCategorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  defaultPrice: z.number().int().min(0, "Price must be non-negative").optional(),
+  parentId: z.number().int().nullable().optional(),
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: "No changes provided",
+});
+
+export const promotionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  percentOff: z.number().int().min(1, "Discount must be at least 1%").max(100, "Discount cannot exceed 100%"),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  categoryIds: z.array(z.number().int()).default([]),
+  productIds: z.array(z.number().int()).default([]),
+}).refine(data => data.endsAt > data.startsAt, {
+  message: "The end must be after the start",
+  path: ["endsAt"],
+}).refine(data => data.categoryIds.length > 0 || data.productIds.length > 0, {
+  message: "Choose at least one category or product",
+  path: ["categoryIds"],
+});
+
+// Sibling categories in their new display order
+export const reorderCategoriesSchema = z.object({
+  categoryIds: z.array(z.number().int()).min(1, "No categories to reorder"),
+});
+
+export const categoryPricePreviewSchema = z.object({
+  defaultPrice: z.coerce.number().int().min(0, "Price must be non-negative"),
+});
+
+export const priceHistoryEntityTypes = ["category", "product"] as const;
+
 export const insertUserSchema = createInsertSchema(users)
   .pick({
     username: true,
     password: true,
   })
   .extend({
-    secretCode: z.string().optional(),
+    // Required for everyone except the very first user, who becomes the owner
+    inviteToken: z.string().optional(),
+  });
+
+// Ordered from least to most privileged
+export const userRoles = ["viewer", "staff", "owner"] as const;
+
+export const userRoleSchema = z.enum(userRoles);
+
+// Viewers can look, staff can change the catalog, carts and orders, owners can also manage the team
+export function hasRole(user: { role: string } | null | undefined, required: UserRole): boolean {
+  if (!user) return false;
+  const rank = userRoles.indexOf(user.role as UserRole);
+  return rank !== -1 && rank >= userRoles.indexOf(required);
+}
+
+export const updateUserSchema = z.object({
+  role: userRoleSchema.optional(),
+  disabled: z.boolean().optional(),
+  mustResetPassword: z.boolean().optional(),
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: "No changes provided",
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "New password must be at least 8 characters"),
+});
+
+export const appSettingsSchema = z.object({
+  requireTwoFactor: z.boolean().default(false),
+});
+
+export const updateAppSettingsSchema = appSettingsSchema.partial();
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code from your authenticator app or a recovery code"),
+});
+
+export const auditActions = ["create", "update", "delete"] as const;
+export const auditEntityTypes = ["product", "category", "promotion", "cart", "order", "user", "invitation", "settings"] as const;
+
+export const auditEventFiltersSchema = z.object({
+  userId: z.coerce.number().int().optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Id of the last event on the previous page
+  cursor: z.coerce.number().int().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const createInvitationSchema = z.object({
+  role: userRoleSchema,
+  expiresInHours: z.number().int().min(1).max(24 * 14).default(72),
+});
+
+export const priceTierSchema = z.object({
+  minQuantity: z.number().int().min(2, "Lot pricing starts at 2 units"),
+  unitPrice: z.number().int().min(0, "Price must be non-negative"),
+});
+
+export const priceTiersSchema = z.array(priceTierSchema).max(10)
+  .refine(tiers => new Set(tiers.map(tier => tier.minQuantity)).size === tiers.length, {
+    message: "Each lot size can only have one price",
   });
 
 export const insertProductSchema = createInsertSchema(products).pick({
@@ -132,8 +445,34 @@ export const insertProductSchema = createInsertSchema(products).pick({
 }).extend({
   categories: z.array(z.number()).optional(),
   customPrice: z.number().nullable().optional(),
+  stockQuantity: z.number().int().min(0, "Stock cannot be negative").optional(),
+  priceTiers: priceTiersSchema.optional(),
+});
+
+// Stock and lot pricing fields accepted when editing a product
+export const updateProductStockSchema = insertProductSchema.pick({
+  stockQuantity: true,
+  priceTiers: true,
 });
 
+// Every field staff can change when editing a product. Categories are replaced
+// separately; anything else in the request, such as deletedAt, is dropped.
+export const updateProductSchema = insertProductSchema
+  .pick({
+    name: true,
+    description: true,
+    images: true,
+    fullImages: true,
+    isAvailable: true,
+    customPrice: true,
+  })
+  .partial()
+  .merge(updateProductStockSchema);
+
+export const productSorts = ["newest", "oldest", "price_asc", "price_desc", "name_asc", "name_desc"] as const;
+
+export const productSortSchema = z.enum(productSorts);
+
 export const cartItemSchema = z.object({
   productId: z.number(),
   name: z.string().min(1, "Product name is required"),
@@ -141,33 +480,168 @@ export const cartItemSchema = z.object({
   images: z.array(z.string()),
   fullImages: z.array(z.string()).optional(),
   price: z.number().int().min(0, "Price must be non-negative"),
+  quantity: z.number().int().min(1).optional(),
   isAvailable: z.boolean().optional(),
   createdAt: z.string().or(z.date()).optional()
 });
 
 export const insertCartItemSchema = createInsertSchema(cartItems);
 
-export const insertCartSchema = z.object({
-  customerName: z.string().min(1, "Customer name is required"),
-  items: z.array(cartItemSchema)
+export const fulfillmentMethods = ["pickup", "shipping"] as const;
+
+// Optional form fields arrive as empty strings when left blank
+const blankToUndefined = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : value;
+
+// How the buyer can be reached, captured when a cart is submitted
+export const cartContactSchema = z.object({
+  customerName: z.string().trim().min(1, "Customer name is required"),
+  customerEmail: z.preprocess(blankToUndefined, z.string().trim().email("Enter a valid email address").optional()),
+  customerPhone: z.preprocess(
+    blankToUndefined,
+    z.string().trim().regex(/^\+?[\d\s().-]{7,20}$/, "Enter a valid phone number").optional()
+  ),
+  fulfillmentMethod: z.preprocess(blankToUndefined, z.enum(fulfillmentMethods).optional()),
+  notes: z.preprocess(blankToUndefined, z.string().trim().max(1000, "Notes must be 1000 characters or fewer").optional()),
+});
+
+// A line of a cart placed through the API. The server looks the product up and
+// stores its own snapshot; name and price are only what the client showed, used
+// to report what changed since.
+export const createCartItemSchema = z.object({
+  productId: z.number().int().positive(),
+  quantity: z.number().int().min(1).max(10000).default(1),
+  name: z.string().optional(),
+  price: z.number().optional(),
+});
+
+export const insertCartSchema = cartContactSchema.extend({
+  items: z.array(createCartItemSchema)
+    .min(1, "Cart must contain at least one item")
+    .refine(items => new Set(items.map(item => item.productId)).size === items.length, {
+      message: "Each product can only appear once; use quantity for more units",
+    }),
 });
 
+// Draft carts are still being filled by the customer; only submitted carts reach the admin.
+// A sold cart's units have already been taken out of stock, so converting it to an order
+// must not deduct them again.
+export const cartStatuses = ["draft", "submitted", "sold"] as const;
+
+export const addCartItemSchema = z.object({
+  productId: z.number().int().positive(),
+  quantity: z.number().int().min(1).max(10000).default(1),
+});
+
+export const updateCartItemQuantitySchema = z.object({
+  quantity: z.number().int().min(1).max(10000),
+});
+
+export const submitCartSchema = cartContactSchema;
+
+export const orderStatuses = ["pending", "confirmed", "packed", "shipped", "completed", "cancelled"] as const;
+
+export const orderStatusSchema = z.enum(orderStatuses);
+
+// Orders move forward one step at a time; anything not yet shipped can still be cancelled
+export const orderStatusTransitions: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["packed", "cancelled"],
+  packed: ["shipped", "cancelled"],
+  shipped: ["completed"],
+  completed: [],
+  cancelled: [],
+};
+
+// Timestamp column recorded when an order enters each status
+export const orderStatusTimestamps = {
+  confirmed: "confirmedAt",
+  packed: "packedAt",
+  shipped: "shippedAt",
+  completed: "completedAt",
+  cancelled: "cancelledAt",
+} as const;
+
+export function canTransitionOrderStatus(from: string, to: OrderStatus): boolean {
+  const allowed = orderStatusTransitions[from as OrderStatus];
+  return !!allowed && allowed.includes(to);
+}
+
+// New orders always start as pending; later statuses are only reached through the transitions
 export const insertOrderSchema = createInsertSchema(orders).pick({
+  cartId: true,
   customerName: true,
   customerEmail: true,
   items: true,
-  status: true,
+}).extend({
+  items: z.array(cartItemSchema).min(1, "Order must contain at least one item"),
+});
+
+export const updateOrderStatusSchema = z.object({
+  status: orderStatusSchema,
 });
 
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = typeof categories.$inferInsert;
+export type UpdateCategory = z.infer<typeof updateCategorySchema>;
+export type PriceHistoryEntry = typeof priceHistory.$inferSelect & { changedByUsername: string | null };
+export type PriceHistoryEntityType = typeof priceHistoryEntityTypes[number];
+// What a new category default price would change, before it is saved
+export type CategoryPricePreview = {
+  categoryId: number;
+  currentPrice: number;
+  newPrice: number;
+  // Available products in the category whose selling price would change
+  affectedProductCount: number;
+  // Available products in the category that keep their price (custom price or a cheaper category)
+  unaffectedProductCount: number;
+  // Draft carts holding an affected product, which are priced on read; submitted carts keep their frozen prices
+  affectedCartCount: number;
+};
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = typeof cartItems.$inferInsert;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type InsertCart = z.infer<typeof insertCartSchema>;
+// Where a stored cart item differs from what the client showed when placing the cart
+export type CartItemDiff = {
+  productId: number;
+  name?: { expected: string; actual: string };
+  price?: { expected: number; actual: number };
+};
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type User = typeof users.$inferSelect;
-export type Product = typeof products.$inferSelect & { categories?: Category[] };
-export type Cart = typeof carts.$inferSelect & { items: CartItem[] };
-export type Order = typeof orders.$inferSelect;
\ No newline at end of file
+// What the API returns for a user: never includes the password hash
+export type PublicUser = Omit<User, 'password' | 'totpSecret' | 'totpLastUsedStep' | 'recoveryCodes'> & {
+  // Set on the signed-in user when owners require 2FA and it is not enrolled yet
+  twoFactorSetupRequired?: boolean;
+};
+export type AppSettings = z.infer<typeof appSettingsSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type AdminInvitation = typeof adminInvitations.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditAction = typeof auditActions[number];
+export type AuditEntityType = typeof auditEntityTypes[number];
+export type AuditEventFilters = z.infer<typeof auditEventFiltersSchema>;
+export type AuditEventPage = { data: AuditEvent[]; nextCursor: number | null };
+// effectivePrice is what one unit sells for now; regularPrice is before any promotion.
+// availableQuantity is the stock not on hold for a submitted cart.
+export type Product = typeof products.$inferSelect & { categories?: Category[]; effectivePrice?: number; regularPrice?: number; discountPercent?: number; availableQuantity?: number };
+export type Promotion = typeof promotions.$inferSelect & { categoryIds: number[]; products: { id: number; name: string }[] };
+export type InsertPromotion = z.infer<typeof promotionSchema>;
+// One page of the product catalog; pass nextCursor back to fetch the following page
+export type ProductPage = { data: Product[]; nextCursor: string | null; totalCount: number };
+// Soft-deleted products and categories waiting to be restored or purged
+export type Trash = { products: Product[]; categories: (Category & { productCount: number })[] };
+// total is the sum of each item's unit price times its quantity, computed by the server
+export type Cart = typeof carts.$inferSelect & { items: CartItem[]; total: number };
+export type Order = typeof orders.$inferSelect;
+export type ProductReservation = typeof productReservations.$inferSelect;
+export type OrderItem = z.infer<typeof cartItemSchema>;
+export type OrderStatus = z.infer<typeof orderStatusSchema>;
+export type CartStatus = typeof cartStatuses[number];
+export type CartContact = z.infer<typeof cartContactSchema>;
+export type FulfillmentMethod = typeof fulfillmentMethods[number];
+export type ProductSort = z.infer<typeof productSortSchema>;
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { defineConfig } from "vitest/config";
+import os from "os";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Route tests run against the in-memory storage, so no database is needed
+    env: {
+      STORAGE: "memory",
+      SESSION_SECRET: "test-session-secret",
+      IMAGE_STORAGE_DIR: path.join(os.tmpdir(), "abused-goods-test-images"),
+    },
+  },
+});